@@ -1,32 +1,91 @@
 
-import React, { useEffect, useState } from 'react';
-import { LayoutDashboard, List, Activity, Loader2, RefreshCw, AlertTriangle, Menu } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { LayoutDashboard, List, Activity, Loader2, RefreshCw, AlertTriangle, Menu, History, GitCompare, Star, Bookmark, UserCircle } from 'lucide-react';
 import { Dashboard } from './components/Dashboard';
 import { PackageList } from './components/PackageList';
 import { PackageDetail } from './components/PackageDetail';
+import { ChangesView } from './components/ChangesView';
+import { WatchlistView } from './components/WatchlistView';
+import { MyMergesView } from './components/MyMergesView';
+import { TeamView } from './components/TeamView';
 import { fetchMergeData } from './services/api';
-import { MergePackage } from './types';
+import { loadCachedMergeData } from './services/cache';
+import { loadSnapshotSummaries, recordSnapshot } from './services/history';
+import { pruneSyncAnalyses } from './services/syncCandidates';
+import { MergePackage, SnapshotSummary } from './types';
+import { ListState } from './services/filters';
+import { setFieldSelection } from './services/query';
+import { usePreferences } from './services/preferences';
+import { filterMyMerges } from './services/uploaders';
+import { View, currentPath, decodeListState, encodeFilters, encodeListState, hasLegacyFilters, matchesPackageRef, migrateLegacyFilters, navigate, packagePath, pathForView, savedViewPath, teamPath, useRoute } from './services/router';
+
+const TAB_TITLES: Record<View, string> = {
+  dashboard: 'Dashboard Overview',
+  list: 'Package Registry',
+  changes: 'Changes Since Last Visit',
+  mine: 'My Merges',
+  watchlist: 'Watchlist & Saved Views',
+  team: 'Team Workload'
+};
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'list'>('dashboard');
+  const route = useRoute();
+  const prefs = usePreferences();
+  const activeTab = route.view;
   const [data, setData] = useState<MergePackage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedPackage, setSelectedPackage] = useState<MergePackage | null>(null);
+  // Package opened from a view, kept so the slide-over works even if it is no longer in the data (e.g. resolved)
+  const [openedPackage, setOpenedPackage] = useState<MergePackage | null>(null);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
-  const [preselectedTeam, setPreselectedTeam] = useState<string | undefined>(undefined);
+  // When the displayed data was fetched, and whether it comes from the offline cache
+  const [dataAsOf, setDataAsOf] = useState<Date | null>(null);
+  const [isCachedData, setIsCachedData] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshFailed, setRefreshFailed] = useState(false);
+  const [history, setHistory] = useState<SnapshotSummary[]>([]);
 
+  // Stale-while-revalidate: render the last good snapshot immediately, then refresh in the background.
+  // Only show the hard error state when there is nothing to fall back to.
   const loadData = async () => {
-    setLoading(true);
     setError(null);
+    setRefreshFailed(false);
+    setIsRefreshing(true);
+
+    let hasData = data.length > 0;
+    if (!hasData) {
+      setLoading(true);
+      const cached = await loadCachedMergeData();
+      if (cached && cached.packages.length > 0) {
+        setData(cached.packages);
+        setDataAsOf(new Date(cached.fetchedAt));
+        setIsCachedData(true);
+        setLoading(false);
+        hasData = true;
+      }
+    }
+
     try {
       const packages = await fetchMergeData();
       setData(packages);
+      // Analyses of superseded versions would never be looked up again
+      pruneSyncAnalyses(packages).catch(e => console.warn('Failed to prune sync analyses', e));
+      // Recorded after the fresh data is shown (recordSnapshot logs its own errors); the trend charts follow
+      recordSnapshot(packages).then(loadSnapshotSummaries).then(setHistory);
+      setDataAsOf(new Date());
+      setIsCachedData(false);
     } catch (err) {
       console.error(err);
-      setError("Unable to connect to Ubuntu merge data sources. Please check your internet connection or try again.");
+      if (hasData) {
+        setRefreshFailed(true);
+        setIsCachedData(true);
+      } else {
+        setError("Unable to connect to Ubuntu merge data sources. Please check your internet connection or try again.");
+      }
     } finally {
       setLoading(false);
+      setIsRefreshing(false);
+      setHistory(await loadSnapshotSummaries());
     }
   };
 
@@ -34,29 +93,70 @@ const App: React.FC = () => {
     loadData();
   }, []);
 
+  // Deep links (/package/<component>/<name>) are resolved against the loaded data
+  const selectedPackage = useMemo(() => {
+    const ref = route.packageRef;
+    if (!ref) return null;
+    if (openedPackage && matchesPackageRef(openedPackage, ref)) return openedPackage;
+    return data.find(pkg => matchesPackageRef(pkg, ref)) || null;
+  }, [route.packageRef, openedPackage, data]);
+
+  const myMergesCount = useMemo(() => filterMyMerges(data, prefs.identity).length, [data, prefs.identity]);
+
+  const listState = useMemo(() => decodeListState(route.query), [route.query]);
+
+  // Links from before the query language (?team=x&age=gt6m) open filtered, then show the q= form
+  useEffect(() => {
+    if ((route.view === 'list' || route.view === 'changes') && !route.packageRef && hasLegacyFilters(route.query)) {
+      navigate(pathForView(route.view, migrateLegacyFilters(route.query)), { replace: true });
+    }
+  }, [route]);
+
+  const handleListStateChange = (state: ListState, replace?: boolean) => {
+    navigate(pathForView('list', encodeListState(state)), { replace });
+  };
+
+  const handleSelectPackage = (pkg: MergePackage) => {
+    setOpenedPackage(pkg);
+    // Swap packages in place when the slide-over is already open, so closing returns to the view
+    const background = window.history.state?.background;
+    navigate(packagePath(pkg), background ? { replace: true, background } : { background: currentPath() });
+  };
+
+  const handleCloseDetail = () => {
+    const background = window.history.state?.background;
+    if (background) {
+      window.history.back();
+    } else {
+      // Opened from a shared link: there is no view entry to go back to
+      navigate(pathForView(route.view, route.query), { replace: true });
+    }
+  };
+
   const handleTeamClick = (team: string) => {
-    setPreselectedTeam(team);
-    setActiveTab('list');
+    navigate(teamPath(team));
+  };
+
+  const handleUploaderClick = (uploader: string) => {
+    navigate(pathForView('list', encodeFilters(setFieldSelection('', 'uploader', uploader))));
   };
 
-  const TabButton = ({ id, label, icon }: { id: 'dashboard' | 'list', label: string, icon: React.ReactNode }) => (
+  // Tabs open a fresh view, without the filters of a previous visit
+  const TabButton = ({ id, label, icon, badge }: { id: View, label: string, icon: React.ReactNode, badge?: number }) => (
     <button
-      onClick={() => {
-        if (id === 'list') {
-          // Reset preselection when manually clicking the tab for a fresh view
-          setPreselectedTeam(undefined);
-        }
-        setActiveTab(id);
-      }}
+      onClick={() => navigate(pathForView(id))}
       className={`w-full flex items-center py-3 text-sm font-medium transition-colors duration-150 border-l-4 ${
         activeTab === id 
         ? 'bg-[#333333] border-[#E95420] text-white' 
         : 'border-transparent text-[#AEA79F] hover:text-white hover:bg-[#333333]'
       } ${isSidebarCollapsed ? 'justify-center px-0' : 'px-6'}`}
-      title={isSidebarCollapsed ? label : ''}
+      title={isSidebarCollapsed ? (badge ? `${label} (${badge})` : label) : ''}
     >
       <span className={`${isSidebarCollapsed ? '' : 'mr-3'}`}>{icon}</span>
       {!isSidebarCollapsed && label}
+      {!isSidebarCollapsed && !!badge && (
+        <span className="ml-auto px-2 py-0.5 rounded-full bg-[#333333] text-[#AEA79F] text-xs">{badge}</span>
+      )}
     </button>
   );
 
@@ -102,6 +202,32 @@ const App: React.FC = () => {
         <nav className="flex-1 space-y-1">
           <TabButton id="dashboard" label="Overview" icon={<LayoutDashboard size={20} />} />
           <TabButton id="list" label="Package List" icon={<List size={20} />} />
+          <TabButton id="changes" label="Changes" icon={<GitCompare size={20} />} />
+          <TabButton id="mine" label="My Merges" icon={<UserCircle size={20} />} badge={myMergesCount} />
+          <TabButton id="watchlist" label="Watchlist" icon={<Star size={20} />} badge={prefs.watchlist.length} />
+
+          {/* Saved views open the Package List with their filters and sort order */}
+          {!isSidebarCollapsed && prefs.savedViews.length > 0 && (
+            <div className="pt-4">
+              <p className="px-6 pb-2 text-[10px] text-[#5D5D5D] uppercase tracking-widest">Saved Views</p>
+              {prefs.savedViews.map(view => {
+                const isActive = activeTab === 'list' && !route.packageRef && currentPath() === savedViewPath(view);
+                return (
+                  <button
+                    key={view.id}
+                    onClick={() => navigate(savedViewPath(view))}
+                    className={`w-full flex items-center px-6 py-2 text-sm transition-colors duration-150 border-l-4 ${
+                      isActive ? 'border-[#E95420] text-white' : 'border-transparent text-[#AEA79F] hover:text-white hover:bg-[#333333]'
+                    }`}
+                    title={view.query || 'All packages'}
+                  >
+                    <Bookmark size={14} className="mr-3 shrink-0" />
+                    <span className="truncate">{view.name}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </nav>
 
         {/* Footer Info */}
@@ -111,7 +237,7 @@ const App: React.FC = () => {
             <span className="text-white font-medium">merges.ubuntu.com</span>
           </p>
           <p className="text-[10px] text-[#5D5D5D] mt-2 uppercase tracking-wide">
-            Last Sync: {new Date().toLocaleTimeString()}
+            Last Sync: {dataAsOf ? dataAsOf.toLocaleTimeString() : '-'}
           </p>
         </div>
       </aside>
@@ -127,12 +253,21 @@ const App: React.FC = () => {
              <span className="font-bold">Merges Tracker</span>
            </div>
            <div className="flex space-x-1 bg-[#333333] rounded p-1">
-             <button onClick={() => setActiveTab('dashboard')} className={`p-2 rounded ${activeTab === 'dashboard' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
+             <button onClick={() => navigate(pathForView('dashboard'))} className={`p-2 rounded ${activeTab === 'dashboard' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
                <LayoutDashboard size={20} />
              </button>
-             <button onClick={() => setActiveTab('list')} className={`p-2 rounded ${activeTab === 'list' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
+             <button onClick={() => navigate(pathForView('list'))} className={`p-2 rounded ${activeTab === 'list' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
                <List size={20} />
              </button>
+             <button onClick={() => navigate(pathForView('changes'))} className={`p-2 rounded ${activeTab === 'changes' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
+               <GitCompare size={20} />
+             </button>
+             <button onClick={() => navigate(pathForView('mine'))} className={`p-2 rounded ${activeTab === 'mine' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
+               <UserCircle size={20} />
+             </button>
+             <button onClick={() => navigate(pathForView('watchlist'))} className={`p-2 rounded ${activeTab === 'watchlist' ? 'bg-[#262626] text-white shadow-sm' : 'text-[#AEA79F]'}`}>
+               <Star size={20} />
+             </button>
            </div>
         </div>
 
@@ -162,10 +297,37 @@ const App: React.FC = () => {
               </div>
             ) : (
               <>
+                {/* Stale Data Banner - shown while cached data is displayed */}
+                {isCachedData && dataAsOf && (
+                  <div className={`mb-6 px-4 py-3 rounded-sm border flex items-center justify-between text-sm ${refreshFailed ? 'bg-yellow-50 border-yellow-200 text-yellow-900' : 'bg-white border-gray-200 text-[#5D5D5D]'}`}>
+                    <div className="flex items-center">
+                      {isRefreshing ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin text-[#E95420]" />
+                      ) : (
+                        <History className="h-4 w-4 mr-2" />
+                      )}
+                      <span>
+                        {refreshFailed ? 'Live refresh failed. ' : ''}
+                        Showing data as of <span className="font-medium">{dataAsOf.toLocaleString()}</span>
+                        {isRefreshing ? ' while refreshing...' : '.'}
+                      </span>
+                    </div>
+                    {refreshFailed && !isRefreshing && (
+                      <button
+                        onClick={loadData}
+                        className="inline-flex items-center text-sm font-bold text-[#0E8420] hover:underline"
+                      >
+                        <RefreshCw className="mr-1.5 h-4 w-4" />
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Header Section */}
                 <div className="mb-8 border-b border-gray-200 pb-4">
                   <h1 className="text-3xl font-light text-[#262626]">
-                    {activeTab === 'dashboard' ? 'Dashboard Overview' : 'Package Registry'}
+                    {TAB_TITLES[activeTab]}
                   </h1>
                   <p className="text-[#5D5D5D] mt-2 font-light">
                     Tracking <span className="font-medium text-[#262626]">{data.length}</span> packages across Main and Universe components.
@@ -177,13 +339,41 @@ const App: React.FC = () => {
                   {activeTab === 'dashboard' ? (
                     <Dashboard 
                       data={data} 
+                      history={history}
                       onTeamClick={handleTeamClick}
+                      onUploaderClick={handleUploaderClick}
+                      onSelectPackage={handleSelectPackage}
                     />
-                  ) : (
+                  ) : activeTab === 'list' ? (
                     <PackageList 
                       data={data} 
-                      onSelectPackage={setSelectedPackage}
-                      initialFilterTeam={preselectedTeam}
+                      onSelectPackage={handleSelectPackage}
+                      state={listState}
+                      onStateChange={handleListStateChange}
+                    />
+                  ) : activeTab === 'mine' ? (
+                    <MyMergesView
+                      data={data}
+                      onSelectPackage={handleSelectPackage}
+                    />
+                  ) : activeTab === 'team' ? (
+                    <TeamView
+                      data={data}
+                      team={route.team}
+                      onSelectPackage={handleSelectPackage}
+                    />
+                  ) : activeTab === 'watchlist' ? (
+                    <WatchlistView
+                      data={data}
+                      onSelectPackage={handleSelectPackage}
+                    />
+                  ) : (
+                    <ChangesView
+                      data={data}
+                      history={history}
+                      onSelectPackage={handleSelectPackage}
+                      query={route.query}
+                      onQueryChange={(query: URLSearchParams, replace?: boolean) => navigate(pathForView('changes', query), { replace })}
                     />
                   )}
                 </div>
@@ -196,7 +386,8 @@ const App: React.FC = () => {
       {/* Detail Slide-over */}
       <PackageDetail 
         pkg={selectedPackage} 
-        onClose={() => setSelectedPackage(null)} 
+        data={data}
+        onClose={handleCloseDetail} 
       />
     </div>
   );
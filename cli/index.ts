@@ -0,0 +1,417 @@
+// Command-line client: the same data, filters and changelog fetchers as the web UI, for scripts and terminals.
+//
+//   merges list [query…] [--team t] [--component c] [--uploader u] [--status s] [--gap g] [--age a]
+//               [--sort=-age] [--limit n]
+//   merges show <pkg>
+//   merges changelog <pkg> --ubuntu|--debian [--range current|sinceBase|all]
+//   merges compare <pkg>
+//   merges launchpad <pkg>
+//   merges report <pkg>
+//   merges absorbed <pkg>
+//   merges stats
+//
+// Every command takes --format table|json|csv, --source direct|proxy|relay|local [--source-url …],
+// --aliases <file> and --weights age=…,component=….
+// Run with `npm run cli -- <command> …`.
+
+import { parseArgs } from 'node:util';
+import { readFile } from 'node:fs/promises';
+import { ChangelogEntry, MergePackage, MergeStatus, PackageSet, VersionGap } from '../types';
+import { fetchChangelogEntries, fetchDebianChangelogEntries, fetchMergeData } from '../services/api';
+import { DataSource, createDataSourceFromConfig, setDataSource, toLocalPath } from '../services/dataSource';
+import { AGE_BUCKETS, DEFAULT_LIST_STATE, filterPackages, formatSortKey, parseSortKey, sortPackages } from '../services/filters';
+import { QueryField, compileQuery, mentionsField, setFieldSelection } from '../services/query';
+import { formatPackages, toCsv, toCsvTable, toExportRecords } from '../services/export';
+import { ChangelogRange, selectChangelogRange, selectEntriesBetween, splitUbuntuDelta } from '../services/changelogParser';
+import { getUbuntuBaseVersion } from '../services/debVersion';
+import { median } from '../services/history';
+import { summarizeTeams } from '../services/teams';
+import { setAliasRules, summarizeUploaders } from '../services/uploaders';
+import { getScoringModel, parseWeights, setScoringModel } from '../services/scoring';
+import { parseAliasRules } from '../services/uploaderAliases';
+import { createApiLaunchpadClient, createLocalLaunchpadClient, fetchLaunchpadInfo, setLaunchpadClient } from '../services/launchpad';
+import { createJsonDebianSource, createLiveDebianSource, loadDebianMetadata, setDebianSource } from '../services/debian';
+import { fetchMergeReport, loadMergeReports } from '../services/mergeReport';
+import { analyzePackage, loadSyncAnalyses } from '../services/syncCandidates';
+
+type OutputFormat = 'table' | 'json' | 'csv';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+const CHANGELOG_RANGES: ChangelogRange[] = ['current', 'sinceBase', 'all'];
+
+// Options of `list` that write a field:value term, like the Package List dropdowns
+const FILTER_OPTIONS: QueryField[] = ['team', 'component', 'uploader', 'status', 'gap', 'age'];
+
+const USAGE = `Usage: merges <command> [options]
+
+Commands:
+  list [query…]             Packages matching a search query (same syntax as the Package List)
+      --team, --component, --uploader, --status, --gap, --age <value>
+                            Shorthands for field:value terms
+      --sort <key>          name, status, age, ubuntu, debian, gap, uploader, priority or conflicts;
+                            "-" for descending, e.g. --sort=-priority (default: -age)
+      --limit <n>           Only the first n packages
+  show <pkg>                One package (<name> or <component>/<name>)
+  changelog <pkg>           Parsed changelog entries
+      --ubuntu | --debian   Which changelog (default: --ubuntu)
+      --range <range>       current, sinceBase or all (default: all)
+  compare <pkg>             Ubuntu delta next to the Debian uploads since the Ubuntu base version
+  launchpad <pkg>           Open bugs, needs-merge bugs, latest devel upload and merge proposals;
+                            --format json output can be saved as a fixture (<dir>/launchpad/<name>.json)
+  report <pkg>              Base version, conflicted files and generated patches from the merge REPORT
+  absorbed <pkg>            Which changes of the Ubuntu delta Debian already has, and whether it may sync
+  stats                     Backlog totals by component, status, version gap, age, team and uploader
+
+Options:
+  --format <format>         table, json or csv (default: table)
+  --source <kind>           direct, proxy, relay or local (default: $DATA_SOURCE, else direct)
+  --source-url <url|dir>    Relay endpoint or fixture directory
+  --aliases <file>          Uploader alias rules (JSON, see services/uploaderAliases.ts); default: $UPLOADER_ALIASES
+  --weights <list>          Priority score weights, e.g. age=60,component=20 (factors: age, component, gap,
+                            delta, uploader; the rest keep $SCORING_MODEL's or the default)
+  -h, --help                Show this help`;
+
+// --- Data source ---
+
+const readJsonFile = async (file: string) => JSON.parse(await readFile(file, 'utf8'));
+
+// The browser's "local" source fetches fixture URLs; here the same layout is read from disk
+const createFileSource = (baseDir: string): DataSource => ({
+  kind: 'local',
+  label: `Local files (${baseDir})`,
+  fetchJson: async (targetUrl) => readJsonFile(toLocalPath(targetUrl, baseDir)),
+  fetchText: async (targetUrl) => readFile(toLocalPath(targetUrl, baseDir), 'utf8')
+});
+
+// No CORS outside the browser, so plain fetch is the default
+const configureDataSource = (kind: string | undefined, location: string | undefined) => {
+  const selected = (kind || process.env.DATA_SOURCE || 'direct').toLowerCase();
+  const url = location || process.env.DATA_SOURCE_URL;
+  setDataSource(selected === 'local' ? createFileSource(url || 'fixtures') : createDataSourceFromConfig(selected, url));
+
+  // Launchpad follows the data source unless LAUNCHPAD_SOURCE says otherwise
+  const launchpad = (process.env.LAUNCHPAD_SOURCE || (selected === 'local' ? 'local' : 'api')).toLowerCase();
+  setLaunchpadClient(launchpad === 'local'
+    ? createLocalLaunchpadClient(process.env.LAUNCHPAD_SOURCE_URL || url || 'fixtures', readJsonFile)
+    : createApiLaunchpadClient());
+
+  // So does the Debian metadata
+  const debian = (process.env.DEBIAN_SOURCE || (selected === 'local' ? 'json' : 'live')).toLowerCase();
+  setDebianSource(debian === 'json'
+    ? createJsonDebianSource(process.env.DEBIAN_SOURCE_URL || `${url || 'fixtures'}/debian/metadata.json`, readJsonFile)
+    : createLiveDebianSource());
+};
+
+// --- Output ---
+
+// Left-aligned text columns, numbers right-aligned
+const toTable = (headers: string[], rows: (string | number)[][]) => {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => String(row[i]).length)));
+  const line = (row: (string | number)[]) => row
+    .map((cell, i) => typeof cell === 'number' ? String(cell).padStart(widths[i]) : String(cell).padEnd(widths[i]))
+    .join('  ')
+    .trimEnd();
+  return [line(headers), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n') + '\n';
+};
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+// --- Helpers ---
+
+const findPackage = (data: MergePackage[], ref: string): MergePackage => {
+  // "main/glibc" picks the component when a name is listed more than once
+  const [component, name] = ref.includes('/') ? ref.split('/', 2) : [undefined, ref];
+  const pkg = data.find(p => p.name === name && (!component || p.component.toLowerCase() === component.toLowerCase()));
+  if (!pkg) {
+    throw new Error(`Package not found in the merge reports: ${ref}`);
+  }
+  return pkg;
+};
+
+const countBy = <K extends string>(keys: readonly K[], data: MergePackage[], key: (pkg: MergePackage) => K) =>
+  keys.map(k => ({ key: k, count: data.filter(pkg => key(pkg) === k).length }));
+
+const ENTRY_HEADERS = ['version', 'distributions', 'urgency', 'maintainer', 'date', 'closes', 'launchpadBugs', 'changes'];
+
+const entryRow = (entry: ChangelogEntry): string[] => [
+  entry.version,
+  entry.distributions.join(' '),
+  entry.urgency,
+  entry.maintainer,
+  entry.date,
+  entry.closes.join(' '),
+  entry.launchpadBugs.join(' '),
+  entry.changes.map(change => `${'  '.repeat(change.level)}${change.text}`).join('\n')
+];
+
+const entriesText = (entries: ChangelogEntry[]) =>
+  entries.length > 0 ? entries.map(entry => entry.raw.trimEnd()).join('\n\n') + '\n' : '(none)\n';
+
+// --- Commands ---
+
+type Options = Record<string, string | boolean | undefined>;
+
+const listCommand = async (data: MergePackage[], args: string[], options: Options, format: OutputFormat) => {
+  let query = args.join(' ');
+  FILTER_OPTIONS.forEach(field => {
+    const value = options[field];
+    if (typeof value === 'string') query = setFieldSelection(query, field, value);
+  });
+
+  const parsed = compileQuery(query);
+  if (parsed.error) {
+    throw new Error(`Invalid query: ${parsed.error}`);
+  }
+
+  const sortKey = typeof options.sort === 'string' ? options.sort : formatSortKey(DEFAULT_LIST_STATE.sortField, DEFAULT_LIST_STATE.sortAsc);
+  const sort = parseSortKey(sortKey);
+  if (!sort) {
+    throw new Error(`Unknown sort key: ${sortKey}`);
+  }
+
+  // debian: and maintainer: terms need the Debian metadata of every package
+  const usesDebian = !!parsed.node && (mentionsField(parsed.node, 'debian') || mentionsField(parsed.node, 'maintainer'));
+  const debian = usesDebian ? await loadDebianMetadata(data.map(pkg => pkg.name)) : {};
+
+  // sync: terms analyze the delta of the packages the rest of the query keeps
+  const usesSync = !!parsed.node && mentionsField(parsed.node, 'sync');
+  const sync = usesSync
+    ? await loadSyncAnalyses(filterPackages(data, compileQuery(setFieldSelection(query, 'sync', 'All')), { debian }))
+    : {};
+
+  const filtered = filterPackages(data, parsed, { debian, sync });
+  // Sorting by conflicts reads the REPORT of every matching package
+  const reports = sort.sortField === 'conflicts' ? await loadMergeReports(filtered.map(pkg => pkg.name)) : {};
+
+  let packages = sortPackages(filtered, sort.sortField, sort.sortAsc, data, reports);
+  if (typeof options.limit === 'string') {
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 0) throw new Error(`Invalid limit: ${options.limit}`);
+    packages = packages.slice(0, limit);
+  }
+
+  if (format !== 'table') return formatPackages(packages, format, data);
+
+  const records = toExportRecords(packages, data);
+  return toTable(
+    ['Package', 'Component', 'Status', 'Ubuntu', 'Debian', 'Gap', 'Age', 'Priority', 'Uploader'],
+    records.map(r => [r.name, r.component, r.status, r.ubuntuVersion, r.debianVersion, r.versionGap, r.ageInDays, r.priority, r.uploaderName] as (string | number)[])
+  ) + `\n${packages.length} package${packages.length === 1 ? '' : 's'}\n`;
+};
+
+const showCommand = (data: MergePackage[], ref: string, format: OutputFormat) => {
+  const pkg = findPackage(data, ref);
+  const [record] = toExportRecords([pkg], data);
+  if (format === 'json') return toJson(record);
+  if (format === 'csv') return toCsv([record]);
+  return toTable(['Field', 'Value'], Object.entries(record).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : String(value)]));
+};
+
+const changelogCommand = async (pkg: MergePackage, options: Options, format: OutputFormat) => {
+  const debian = options.debian === true;
+  const range = (typeof options.range === 'string' ? options.range : 'all') as ChangelogRange;
+  if (!CHANGELOG_RANGES.includes(range)) {
+    throw new Error(`Unknown range: ${range} (expected ${CHANGELOG_RANGES.join(', ')})`);
+  }
+
+  const entries = debian ? await fetchDebianChangelogEntries(pkg) : await fetchChangelogEntries(pkg);
+  const version = debian ? pkg.debianVersion : pkg.ubuntuVersion;
+  const visible = selectChangelogRange(entries, range, version, getUbuntuBaseVersion(pkg.ubuntuVersion));
+
+  if (format === 'json') return toJson(visible);
+  if (format === 'csv') return toCsvTable(ENTRY_HEADERS, visible.map(entryRow));
+  return entriesText(visible);
+};
+
+const compareCommand = async (pkg: MergePackage, format: OutputFormat) => {
+  // Same pair of changelogs as the web comparison: either side may be missing
+  const [ubuntu, debian] = await Promise.all([
+    fetchChangelogEntries(pkg).catch(e => { console.warn(`Ubuntu changelog unavailable: ${e.message}`); return [] as ChangelogEntry[]; }),
+    fetchDebianChangelogEntries(pkg).catch(e => { console.warn(`Debian changelog unavailable: ${e.message}`); return [] as ChangelogEntry[]; })
+  ]);
+
+  const { delta, baseVersion: changelogBase } = splitUbuntuDelta(ubuntu);
+  const baseVersion = changelogBase ?? getUbuntuBaseVersion(pkg.ubuntuVersion);
+  const debianSinceBase = selectEntriesBetween(debian, baseVersion, pkg.debianVersion);
+
+  if (format === 'json') {
+    return toJson({
+      package: pkg.name,
+      ubuntuVersion: pkg.ubuntuVersion,
+      debianVersion: pkg.debianVersion,
+      baseVersion: baseVersion ?? null,
+      ubuntuDelta: delta,
+      debianSinceBase
+    });
+  }
+  if (format === 'csv') {
+    return toCsvTable(['side', ...ENTRY_HEADERS], [
+      ...delta.map(entry => ['ubuntu', ...entryRow(entry)]),
+      ...debianSinceBase.map(entry => ['debian', ...entryRow(entry)])
+    ]);
+  }
+
+  const base = baseVersion ?? 'unknown base';
+  return [
+    `${pkg.name}: Ubuntu ${pkg.ubuntuVersion} / Debian ${pkg.debianVersion} (base ${base})`,
+    '',
+    `== Ubuntu delta: ${delta.length} upload${delta.length === 1 ? '' : 's'} on top of ${base} ==`,
+    '',
+    entriesText(delta),
+    `== Debian since ${base}: ${debianSinceBase.length} upload${debianSinceBase.length === 1 ? '' : 's'} ==`,
+    '',
+    entriesText(debianSinceBase)
+  ].join('\n');
+};
+
+const launchpadCommand = async (pkg: MergePackage, format: OutputFormat) => {
+  const info = await fetchLaunchpadInfo(pkg.name);
+  if (format === 'json') return toJson(info);
+
+  const upload = info.latestUpload;
+  const rows: string[][] = [
+    ['open-bugs', info.openBugs === null ? 'unavailable' : String(info.openBugs), '', '', `https://launchpad.net/ubuntu/+source/${pkg.name}/+bugs`],
+    ...(info.needsMergeBugs || []).map(bug => ['needs-merge', `#${bug.id} ${bug.title}`, `${bug.status}/${bug.importance}`, '', bug.url]),
+    ...(upload ? [['upload', upload.version, `${upload.series}-${upload.pocket.toLowerCase()} ${upload.status}`, upload.date ?? '', upload.url]] : []),
+    ...(info.mergeProposals || []).map(mp => ['proposal', mp.source, mp.status, mp.createdAt ?? '', mp.url])
+  ];
+  if (format === 'csv') return toCsvTable(['kind', 'item', 'status', 'date', 'url'], rows);
+  return toTable(['Kind', 'Item', 'Status', 'Date', 'URL'], rows);
+};
+
+const reportCommand = async (pkg: MergePackage, format: OutputFormat) => {
+  const report = await fetchMergeReport(pkg.name);
+  if (format === 'json') return toJson(report);
+
+  const rows: string[][] = [
+    ...report.sections.map(section => [section.side, section.version, '']),
+    ...report.conflicts.map(file => ['conflict', file, '']),
+    ...report.patches.map(patch => ['patch', patch.name, patch.url]),
+    ...report.sections.filter(section => section.side === 'merged').flatMap(section => section.files.map(file => ['merged', file.name, file.url]))
+  ];
+  if (format === 'csv') return toCsvTable(['kind', 'item', 'url'], rows);
+  return toTable(['Kind', 'Item', 'URL'], rows);
+};
+
+const absorbedCommand = async (pkg: MergePackage, format: OutputFormat) => {
+  const analysis = await analyzePackage(pkg);
+  if (format === 'json') return toJson(analysis);
+
+  const rows = analysis.changes.map(change => [
+    change.ubuntuVersion,
+    change.text,
+    change.match ? change.match.debianVersion : '',
+    change.match ? `${change.match.kind} ${change.match.kind === 'text' ? change.match.similarity!.toFixed(2) : change.match.detail}` : ''
+  ]);
+  if (format === 'csv') return toCsvTable(['ubuntu', 'change', 'debian', 'match'], rows);
+  return [
+    `${pkg.name}: ${analysis.absorbed} of ${analysis.changes.length} Ubuntu change${analysis.changes.length === 1 ? '' : 's'} in Debian ${pkg.debianVersion} (${analysis.verdict})`,
+    '',
+    toTable(['Ubuntu', 'Change', 'Debian', 'Match'], rows)
+  ].join('\n');
+};
+
+const statsCommand = (data: MergePackage[], format: OutputFormat) => {
+  const stats = {
+    total: data.length,
+    medianAgeInDays: median(data.map(pkg => pkg.ageInDays)),
+    byComponent: countBy(Object.values(PackageSet), data, pkg => pkg.component),
+    byStatus: countBy(Object.values(MergeStatus), data, pkg => pkg.status),
+    byVersionGap: countBy(Object.values(VersionGap), data, pkg => pkg.versionGap),
+    byAge: AGE_BUCKETS.map(bucket => ({ key: bucket.label, count: data.filter(pkg => bucket.matches(pkg.ageInDays)).length })),
+    topTeams: summarizeTeams(data).slice(0, 10),
+    topUploaders: summarizeUploaders(data).slice(0, 10).map(({ identity, pending, ageDebt, oldest }) => ({
+      name: identity.name,
+      pending,
+      ageDebt,
+      oldest: oldest.name
+    }))
+  };
+
+  if (format === 'json') return toJson(stats);
+
+  // One metric per row: (section, key, value)
+  const rows: (string | number)[][] = [
+    ['total', 'packages', stats.total],
+    ['total', 'median age (days)', Math.round(stats.medianAgeInDays)],
+    ...stats.byComponent.map(({ key, count }) => ['component', key, count]),
+    ...stats.byStatus.map(({ key, count }) => ['status', key, count]),
+    ...stats.byVersionGap.map(({ key, count }) => ['version gap', key, count]),
+    ...stats.byAge.map(({ key, count }) => ['age', key, count]),
+    ...stats.topTeams.map(team => ['team (pending)', team.team, team.pending]),
+    ...stats.topUploaders.map(uploader => ['uploader (age debt, days)', uploader.name, uploader.ageDebt])
+  ];
+  return format === 'csv' ? toCsvTable(['section', 'key', 'value'], rows) : toTable(['Section', 'Key', 'Value'], rows);
+};
+
+// --- Entry point ---
+
+const main = async () => {
+  const { values: options, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'table' },
+      source: { type: 'string' },
+      'source-url': { type: 'string' },
+      aliases: { type: 'string' },
+      weights: { type: 'string' },
+      sort: { type: 'string' },
+      limit: { type: 'string' },
+      team: { type: 'string' },
+      component: { type: 'string' },
+      uploader: { type: 'string' },
+      status: { type: 'string' },
+      gap: { type: 'string' },
+      age: { type: 'string' },
+      ubuntu: { type: 'boolean' },
+      debian: { type: 'boolean' },
+      range: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [command, ...args] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format = options.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format: ${format} (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  if (options.ubuntu && options.debian) {
+    throw new Error('--ubuntu and --debian are mutually exclusive');
+  }
+
+  const needsPackage = ['show', 'changelog', 'compare', 'launchpad', 'report', 'absorbed'].includes(command);
+  if (needsPackage && !args[0]) {
+    throw new Error(`Usage: merges ${command} <pkg>`);
+  }
+  if (!['list', 'show', 'changelog', 'compare', 'launchpad', 'report', 'absorbed', 'stats'].includes(command)) {
+    throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+
+  configureDataSource(options.source, options['source-url']);
+  if (options.aliases) setAliasRules(parseAliasRules(await readFile(options.aliases, 'utf8')));
+  if (options.weights) setScoringModel({ ...getScoringModel(), weights: { ...getScoringModel().weights, ...parseWeights(options.weights) } });
+  const data = await fetchMergeData();
+
+  let output: string;
+  switch (command) {
+    case 'list': output = await listCommand(data, args, options, format); break;
+    case 'show': output = showCommand(data, args[0], format); break;
+    case 'changelog': output = await changelogCommand(findPackage(data, args[0]), options, format); break;
+    case 'compare': output = await compareCommand(findPackage(data, args[0]), format); break;
+    case 'launchpad': output = await launchpadCommand(findPackage(data, args[0]), format); break;
+    case 'report': output = await reportCommand(findPackage(data, args[0]), format); break;
+    case 'absorbed': output = await absorbedCommand(findPackage(data, args[0]), format); break;
+    default: output = statsCommand(data, format);
+  }
+  process.stdout.write(output);
+};
+
+main().catch(e => {
+  console.error(`merges: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+});
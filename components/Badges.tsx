@@ -0,0 +1,132 @@
+import React from 'react';
+import { MergeStatus, PackageSet, VersionGap } from '../types';
+import { Claim, isClaimOverdue } from '../services/claims';
+import { DebianState, MigrationState } from '../services/debian';
+import { SyncAnalysis } from '../services/syncCandidates';
+
+export const ComponentBadge: React.FC<{ component: PackageSet }> = ({ component }) => {
+  let classes = "";
+  switch(component) {
+    case PackageSet.MAIN:
+      classes = "text-[#E95420] bg-orange-100";
+      break;
+    case PackageSet.UNIVERSE:
+      classes = "text-[#77216F] bg-purple-100";
+      break;
+    case PackageSet.RESTRICTED:
+      classes = "text-yellow-800 bg-yellow-200";
+      break;
+    case PackageSet.MULTIVERSE:
+      classes = "text-blue-800 bg-blue-200";
+      break;
+    default:
+      classes = "text-gray-700 bg-gray-100";
+  }
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-sm text-xs font-medium ${classes}`}>
+      {component}
+    </span>
+  );
+};
+
+const VERSION_GAP_CLASSES: Record<VersionGap, string> = {
+  [VersionGap.UPSTREAM_BUMP]: "text-[#E95420] border-orange-200 bg-white",
+  [VersionGap.DEBIAN_REVISION]: "text-[#0E8420] border-green-200 bg-white",
+  [VersionGap.EPOCH_CHANGE]: "text-red-700 border-red-200 bg-white",
+  [VersionGap.UBUNTU_AHEAD]: "text-[#77216F] border-purple-200 bg-white",
+  [VersionGap.UNKNOWN]: "text-gray-500 border-gray-200 bg-white"
+};
+
+export const VersionGapBadge: React.FC<{ gap: VersionGap }> = ({ gap }) => (
+  <span className={`inline-flex items-center px-2 py-0.5 rounded-sm border text-xs font-medium ${VERSION_GAP_CLASSES[gap] || VERSION_GAP_CLASSES[VersionGap.UNKNOWN]}`}>
+    {gap || VersionGap.UNKNOWN}
+  </span>
+);
+
+const STATUS_CLASSES: Record<MergeStatus, string> = {
+  [MergeStatus.NEEDS_MERGE]: "text-white bg-[#E95420]",
+  [MergeStatus.SYNC_POSSIBLE]: "text-white bg-[#77216F]",
+  [MergeStatus.CONFLICTS]: "text-white bg-[#C7162B]",
+  [MergeStatus.FAILED]: "text-[#262626] bg-[#AEA79F]",
+  [MergeStatus.UNKNOWN]: "text-gray-600 bg-gray-100"
+};
+
+export const StatusBadge: React.FC<{ status: MergeStatus; title?: string }> = ({ status, title }) => (
+  <span
+    className={`inline-flex items-center px-2 py-0.5 rounded-sm text-xs font-medium ${STATUS_CLASSES[status] || STATUS_CLASSES[MergeStatus.UNKNOWN]}`}
+    title={title}
+  >
+    {status || MergeStatus.UNKNOWN}
+  </span>
+);
+
+// Priority score (services/scoring.ts), 0-100
+const priorityClass = (score: number) => {
+  if (score >= 70) return "text-white bg-[#C7162B]";
+  if (score >= 50) return "text-white bg-[#E95420]";
+  if (score >= 30) return "text-[#262626] bg-orange-100";
+  return "text-gray-600 bg-gray-100";
+};
+
+export const PriorityBadge: React.FC<{ score: number; title?: string }> = ({ score, title }) => (
+  <span
+    className={`inline-flex items-center justify-center min-w-[2rem] px-1.5 py-0.5 rounded-sm text-xs font-bold tabular-nums ${priorityClass(score)}`}
+    title={title}
+  >
+    {score}
+  </span>
+);
+
+// Who is working on a merge (services/claims.ts); red once past the target date
+export const ClaimBadge: React.FC<{ claim: Claim }> = ({ claim }) => {
+  const overdue = isClaimOverdue(claim);
+  const title = [
+    `Claimed by ${claim.claimedBy} on ${claim.claimedAt.slice(0, 10)}`,
+    claim.targetDate && `Target: ${claim.targetDate}${overdue ? ' (overdue)' : ''}`,
+    claim.note
+  ].filter(Boolean).join('\n');
+  return (
+    <span
+      className={`inline-flex items-center px-1.5 py-0.5 rounded-sm border text-[11px] font-medium ${overdue ? 'text-[#C7162B] border-red-200 bg-red-50' : 'text-[#0E8420] border-green-200 bg-green-50'}`}
+      title={title}
+    >
+      {claim.claimedBy}
+    </span>
+  );
+};
+
+const MIGRATION_LABELS: Record<MigrationState, { label: string; classes: string; title: string }> = {
+  'migrated': { label: 'testing', classes: "text-[#0E8420] border-green-200 bg-white", title: 'The Debian version has migrated to testing' },
+  'unstable-only': { label: 'unstable only', classes: "text-yellow-800 border-yellow-300 bg-yellow-50", title: 'The Debian version has not migrated to testing yet' },
+  'not-in-unstable': { label: 'not in unstable', classes: "text-gray-600 border-gray-300 bg-white", title: 'Neither unstable nor testing has the Debian version' },
+  'unknown': { label: 'unknown', classes: "text-gray-400 border-gray-200 bg-white", title: 'No Debian metadata for this package' }
+};
+
+// Testing migration and RC bugs of the Debian version (services/debian.ts)
+export const DebianStateBadge: React.FC<{ state: DebianState }> = ({ state }) => {
+  const migration = MIGRATION_LABELS[state.migration];
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className={`inline-flex items-center px-1.5 py-0.5 rounded-sm border text-[11px] font-medium ${migration.classes}`} title={migration.title}>
+        {migration.label}
+      </span>
+      {!!state.rcBugs && (
+        <span className="inline-flex items-center px-1.5 py-0.5 rounded-sm text-[11px] font-bold text-white bg-[#C7162B]" title="Release-critical bugs in Debian">
+          {state.rcBugs} RC
+        </span>
+      )}
+    </span>
+  );
+};
+
+// Debian already carries every change of the Ubuntu delta (services/syncCandidates.ts)
+export const SyncCandidateBadge: React.FC<{ analysis: SyncAnalysis }> = ({ analysis }) => (
+  <span
+    className="inline-flex items-center px-1.5 py-0.5 rounded-sm border text-[11px] font-medium text-[#0066CC] border-blue-200 bg-blue-50"
+    title={analysis.changes.length > 0
+      ? `Debian ${analysis.debianVersion} has all ${analysis.changes.length} Ubuntu change${analysis.changes.length === 1 ? '' : 's'}: the merge may be a sync`
+      : 'The Ubuntu delta is only no-change rebuilds: the merge may be a sync'}
+  >
+    sync candidate
+  </span>
+);
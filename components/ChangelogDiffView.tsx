@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { ChevronsUpDown } from 'lucide-react';
+import { SharedBadge } from './ChangelogEntries';
+import { ChangelogLine, DiffLine, DiffSegment, FoldedBlock, SplitRow, foldUnchanged, toSplitRows } from '../services/changelogDiff';
+
+export type DiffMode = 'split' | 'unified';
+
+interface ChangelogDiffViewProps {
+  mode: DiffMode;
+  lines: DiffLine[]; // Old: Ubuntu, new: Debian
+  oldLines: ChangelogLine[];
+}
+
+const LINE_CLASSES: Record<DiffLine['kind'], { row: string; word: string; marker: string }> = {
+  context: { row: '', word: '', marker: ' ' },
+  removed: { row: 'bg-red-50', word: 'bg-red-200 rounded-sm', marker: '-' },
+  added: { row: 'bg-green-50', word: 'bg-green-200 rounded-sm', marker: '+' }
+};
+
+const Segments: React.FC<{ segments: DiffSegment[]; wordClass: string }> = ({ segments, wordClass }) => (
+  <>
+    {segments.map((segment, idx) => (
+      <span key={idx} className={segment.changed ? wordClass : undefined}>{segment.text}</span>
+    ))}
+  </>
+);
+
+const LineNumber: React.FC<{ index: number | null }> = ({ index }) => (
+  <span className="inline-block w-10 shrink-0 pr-2 text-right text-[#AEA79F] select-none">{index === null ? '' : index + 1}</span>
+);
+
+export const ChangelogDiffView: React.FC<ChangelogDiffViewProps> = ({ mode, lines, oldLines }) => {
+  // Folds the user opened, by FoldedBlock id
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const oldPane = useRef<HTMLDivElement>(null);
+  const newPane = useRef<HTMLDivElement>(null);
+
+  const expand = (id: number) => setExpanded(prev => new Set(prev).add(id));
+
+  // Both panes of the split view scroll together
+  const syncScroll = (from: React.RefObject<HTMLDivElement | null>, to: React.RefObject<HTMLDivElement | null>) => () => {
+    if (from.current && to.current && to.current.scrollTop !== from.current.scrollTop) {
+      to.current.scrollTop = from.current.scrollTop;
+    }
+  };
+
+  // side: which line number(s) to show; the unified view shows both
+  const renderLine = (line: DiffLine | null, side: 'old' | 'new' | 'both', key: React.Key) => {
+    if (!line) return <div key={key} className="h-5 bg-[#F7F7F7]" />;
+    const classes = LINE_CLASSES[line.kind];
+    const sharedWith = side !== 'new' && line.oldIndex !== null ? oldLines[line.oldIndex]?.sharedWith : undefined;
+    return (
+      <div key={key} className={`flex h-5 leading-5 ${classes.row}`}>
+        {side !== 'new' && <LineNumber index={line.oldIndex} />}
+        {side !== 'old' && <LineNumber index={line.newIndex} />}
+        <span className="w-4 shrink-0 text-[#AEA79F] select-none">{classes.marker}</span>
+        <span className="whitespace-pre pr-4">
+          <Segments segments={line.segments} wordClass={classes.word} />
+          {sharedWith && <SharedBadge version={sharedWith} />}
+        </span>
+      </div>
+    );
+  };
+
+  const renderFold = <T,>(block: FoldedBlock<T>, key: React.Key) => (
+    <button
+      key={key}
+      onClick={() => block.kind === 'folded' && expand(block.id)}
+      className="flex items-center w-full h-5 px-2 bg-[#F0F0F0] text-[11px] font-sans text-[#5D5D5D] hover:text-[#262626] hover:bg-gray-200"
+    >
+      <ChevronsUpDown size={12} className="mr-1.5" />
+      {block.items.length} unchanged line{block.items.length === 1 ? '' : 's'}
+    </button>
+  );
+
+  const renderBlocks = <T,>(blocks: FoldedBlock<T>[], renderItem: (item: T, key: string) => React.ReactNode) =>
+    blocks.flatMap((block, b) =>
+      block.kind === 'folded' && !expanded.has(block.id)
+        ? [renderFold(block, `fold-${b}`)]
+        : block.items.map((item, i) => renderItem(item, `${b}-${i}`))
+    );
+
+  if (mode === 'unified') {
+    const blocks = foldUnchanged(lines, (line: DiffLine) => line.kind === 'context');
+    return (
+      <div className="flex-1 overflow-auto bg-white font-mono text-xs text-[#333]">
+        <div className="min-w-max py-2">
+          {renderBlocks(blocks, (line, key) => renderLine(line, 'both', key))}
+        </div>
+      </div>
+    );
+  }
+
+  const blocks = foldUnchanged(toSplitRows(lines), (row: SplitRow) => row.old?.kind === 'context');
+  return (
+    <div className="flex-1 flex min-h-0 bg-white font-mono text-xs text-[#333]">
+      <div ref={oldPane} onScroll={syncScroll(oldPane, newPane)} className="flex-1 overflow-auto border-r border-gray-100">
+        <div className="min-w-max py-2">
+          {renderBlocks(blocks, (row, key) => renderLine(row.old, 'old', key))}
+        </div>
+      </div>
+      <div ref={newPane} onScroll={syncScroll(newPane, oldPane)} className="flex-1 overflow-auto">
+        <div className="min-w-max py-2">
+          {renderBlocks(blocks, (row, key) => renderLine(row.new, 'new', key))}
+        </div>
+      </div>
+    </div>
+  );
+};
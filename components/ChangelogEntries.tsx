@@ -0,0 +1,154 @@
+import React from 'react';
+import { ChangelogChange, ChangelogEntry } from '../types';
+import { Bug, CheckCircle2, ChevronDown, ChevronRight } from 'lucide-react';
+import { ChangelogRange } from '../services/changelogParser';
+
+export const RANGE_LABELS: Record<ChangelogRange, string> = {
+  current: 'This version',
+  sinceBase: 'Since Ubuntu base',
+  all: 'Full changelog'
+};
+
+interface ChangelogRangePickerProps {
+  value: ChangelogRange;
+  onChange: (range: ChangelogRange) => void;
+  hasBase: boolean; // "Since Ubuntu base" needs a Debian base version
+}
+
+export const ChangelogRangePicker: React.FC<ChangelogRangePickerProps> = ({ value, onChange, hasBase }) => (
+  <div className="flex space-x-1 bg-[#F0F0F0] rounded-sm p-0.5">
+    {(Object.keys(RANGE_LABELS) as ChangelogRange[]).map(range => (
+      <button
+        key={range}
+        disabled={range === 'sinceBase' && !hasBase}
+        onClick={() => onChange(range)}
+        className={`px-2.5 py-1 rounded-sm text-xs font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${value === range ? 'bg-white shadow-sm text-[#262626]' : 'text-[#5D5D5D] hover:text-[#262626]'}`}
+        title={range === 'sinceBase' && !hasBase ? 'No Debian base version could be derived from the Ubuntu version' : undefined}
+      >
+        {RANGE_LABELS[range]}
+      </button>
+    ))}
+  </div>
+);
+
+const BugLink: React.FC<{ href: string; label: string }> = ({ href, label }) => (
+  <a
+    href={href}
+    target="_blank"
+    rel="noreferrer"
+    className="inline-flex items-center px-1.5 py-0.5 rounded-sm bg-gray-100 text-[#0066CC] text-[11px] font-mono hover:underline"
+  >
+    <Bug size={10} className="mr-1" />
+    {label}
+  </a>
+);
+
+// Marks an Ubuntu change that Debian has shipped too (a cherry-pick the merge can drop)
+export const SharedBadge: React.FC<{ version: string; title?: string }> = ({ version, title }) => (
+  <span
+    className="inline-flex items-center ml-2 px-1.5 rounded-sm bg-[#E6F4EA] text-[#0E8420] text-[10px] font-sans font-medium align-middle whitespace-nowrap"
+    title={title ?? `The same change is in the Debian ${version} entry`}
+  >
+    <CheckCircle2 size={10} className="mr-1" />already in Debian {version}
+  </span>
+);
+
+interface ChangelogEntryViewProps {
+  entry: ChangelogEntry;
+  color: string;
+  showHeader?: boolean; // Hidden when the caller renders its own (e.g. a collapsible summary)
+  shared?: Map<ChangelogChange, string>; // Changes Debian has too, with the Debian version (services/changelogDiff.ts)
+}
+
+export const ChangelogEntryView: React.FC<ChangelogEntryViewProps> = ({ entry, color, showHeader = true, shared }) => {
+  let lastAuthor: string | undefined;
+
+  return (
+    <div className="font-mono text-xs text-[#333] leading-relaxed">
+      {showHeader && (
+        <div className="flex flex-wrap items-baseline gap-x-2 mb-2">
+          <span className="font-bold" style={{ color }}>{entry.version}</span>
+          <span className="text-[#5D5D5D]">{entry.distributions.join(' ')}</span>
+          {entry.urgency && <span className="text-[#AEA79F]">urgency={entry.urgency}</span>}
+        </div>
+      )}
+
+      <ul className="space-y-0.5">
+        {entry.changes.map((change, idx) => {
+          // Team uploads group changes under "[ Name ]"
+          const authorHeading = change.author && change.author !== lastAuthor ? change.author : null;
+          lastAuthor = change.author;
+          return (
+            <React.Fragment key={idx}>
+              {authorHeading && <li className="text-[#5D5D5D] font-bold mt-2">[ {authorHeading} ]</li>}
+              <li className="flex whitespace-pre-wrap" style={{ paddingLeft: `${change.level * 16}px` }}>
+                <span className="mr-2 text-[#AEA79F]">{change.level === 0 ? '*' : '-'}</span>
+                <span className="flex-1">
+                  {change.text}
+                  {shared?.has(change) && <SharedBadge version={shared.get(change)!} />}
+                </span>
+              </li>
+            </React.Fragment>
+          );
+        })}
+      </ul>
+
+      {(entry.closes.length > 0 || entry.launchpadBugs.length > 0) && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {entry.closes.map(bug => (
+            <BugLink key={`deb-${bug}`} href={`https://bugs.debian.org/${bug}`} label={`#${bug}`} />
+          ))}
+          {entry.launchpadBugs.map(bug => (
+            <BugLink key={`lp-${bug}`} href={`https://bugs.launchpad.net/bugs/${bug}`} label={`LP: #${bug}`} />
+          ))}
+        </div>
+      )}
+
+      {(entry.maintainer || entry.date) && (
+        <p className="mt-2 text-[#5D5D5D]">
+          -- {entry.maintainer}{entry.date && <span className="text-[#AEA79F]">  {entry.date}</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface CollapsibleChangelogEntryProps {
+  entry: ChangelogEntry;
+  color: string;
+  expanded: boolean;
+  onToggle: () => void;
+  shared?: Map<ChangelogChange, string>;
+}
+
+// Entry with a one-line summary (version, distributions, counts) that expands to the full entry
+export const CollapsibleChangelogEntry: React.FC<CollapsibleChangelogEntryProps> = ({ entry, color, expanded, onToggle, shared }) => (
+  <div className="border border-gray-100 rounded-sm">
+    <button
+      onClick={onToggle}
+      className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-gray-50 transition-colors"
+    >
+      <div className="flex items-center min-w-0">
+        {expanded ? <ChevronDown size={14} className="mr-2 shrink-0 text-gray-400" /> : <ChevronRight size={14} className="mr-2 shrink-0 text-gray-400" />}
+        <span className="font-mono text-xs font-bold truncate" style={{ color }}>{entry.version}</span>
+        <span className="ml-2 text-[11px] text-[#AEA79F] truncate">{entry.distributions.join(' ')}</span>
+      </div>
+      <div className="flex items-center shrink-0 ml-2 text-[11px] text-[#5D5D5D] space-x-3">
+        <span>{entry.changes.length} change{entry.changes.length === 1 ? '' : 's'}</span>
+        {entry.closes.length > 0 && (
+          <span className="inline-flex items-center"><Bug size={10} className="mr-1" />{entry.closes.length}</span>
+        )}
+        {shared && entry.changes.some(change => shared.has(change)) && (
+          <span className="inline-flex items-center text-[#0E8420]" title="Changes already in Debian">
+            <CheckCircle2 size={10} className="mr-1" />{entry.changes.filter(change => shared.has(change)).length}
+          </span>
+        )}
+      </div>
+    </button>
+    {expanded && (
+      <div className="px-3 pb-3 pt-1 border-t border-gray-100">
+        <ChangelogEntryView entry={entry} color={color} showHeader={false} shared={shared} />
+      </div>
+    )}
+  </div>
+);
@@ -1,8 +1,11 @@
 
 import React, { useEffect, useState } from 'react';
-import { MergePackage } from '../types';
+import { ChangelogEntry, MergePackage } from '../types';
 import { X, ExternalLink, FileText, Loader2, AlertTriangle } from 'lucide-react';
-import { fetchChangelog, fetchDebianChangelog } from '../services/api';
+import { fetchChangelogEntries, fetchDebianChangelogEntries } from '../services/api';
+import { ChangelogRange, selectChangelogRange } from '../services/changelogParser';
+import { getUbuntuBaseVersion } from '../services/debVersion';
+import { ChangelogEntryView, ChangelogRangePicker } from './ChangelogEntries';
 
 interface ChangelogModalProps {
   pkg: MergePackage;
@@ -12,21 +15,23 @@ interface ChangelogModalProps {
 }
 
 export const ChangelogModal: React.FC<ChangelogModalProps> = ({ pkg, isOpen, variant, onClose }) => {
-  const [changelog, setChangelog] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ChangelogEntry[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState(false);
+  const [range, setRange] = useState<ChangelogRange>('current');
 
   useEffect(() => {
     if (isOpen && pkg) {
       setLoading(true);
       setError(false);
-      setChangelog(null);
+      setEntries(null);
+      setRange('current');
       
-      const fetcher = variant === 'ubuntu' ? fetchChangelog : fetchDebianChangelog;
+      const fetcher = variant === 'ubuntu' ? fetchChangelogEntries : fetchDebianChangelogEntries;
       
       fetcher(pkg)
-        .then(text => {
-          setChangelog(text);
+        .then(parsed => {
+          setEntries(parsed);
           setLoading(false);
         })
         .catch(err => {
@@ -63,6 +68,10 @@ export const ChangelogModal: React.FC<ChangelogModalProps> = ({ pkg, isOpen, var
 
   const branding = getBranding();
 
+  // Debian version the Ubuntu package is based on, the lower bound of the "Since Ubuntu base" range
+  const baseVersion = getUbuntuBaseVersion(pkg.ubuntuVersion);
+  const visibleEntries = entries ? selectChangelogRange(entries, range, branding.version, baseVersion) : [];
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 font-ubuntu" role="dialog" aria-modal="true">
       {/* Backdrop */}
@@ -85,12 +94,15 @@ export const ChangelogModal: React.FC<ChangelogModalProps> = ({ pkg, isOpen, var
                 <p className="text-xs text-[#5D5D5D] mt-0.5 font-mono">{branding.version}</p>
              </div>
           </div>
-          <button 
-            onClick={onClose}
-            className="text-gray-400 hover:text-[#262626] transition-colors p-2 rounded-full hover:bg-gray-100"
-          >
-            <X size={24} />
-          </button>
+          <div className="flex items-center space-x-3">
+            <ChangelogRangePicker value={range} onChange={setRange} hasBase={!!baseVersion} />
+            <button 
+              onClick={onClose}
+              className="text-gray-400 hover:text-[#262626] transition-colors p-2 rounded-full hover:bg-gray-100"
+            >
+              <X size={24} />
+            </button>
+          </div>
         </div>
 
         {/* Body */}
@@ -117,10 +129,16 @@ export const ChangelogModal: React.FC<ChangelogModalProps> = ({ pkg, isOpen, var
                 {branding.externalLabel} <ExternalLink size={14} className="ml-2" />
               </a>
             </div>
+          ) : visibleEntries.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {visibleEntries.map(entry => (
+                <div key={entry.version} className="py-4 first:pt-0 last:pb-0">
+                  <ChangelogEntryView entry={entry} color={branding.color} />
+                </div>
+              ))}
+            </div>
           ) : (
-            <pre className="font-mono text-xs sm:text-sm text-[#333] whitespace-pre-wrap leading-relaxed">
-              {changelog}
-            </pre>
+            <p className="text-sm text-[#5D5D5D] text-center py-10">No changelog entries in this range.</p>
           )}
         </div>
 
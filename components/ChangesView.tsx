@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MergePackage, SnapshotSummary } from '../types';
+import { ChevronRight, Loader2, History, PlusCircle, CheckCircle2, ArrowUpCircle } from 'lucide-react';
+import { FilterBar } from './FilterBar';
+import { ComponentBadge } from './Badges';
+import { filterPackages, getFilterOptions, getUploaderName } from '../services/filters';
+import { compileQuery, mentionsField } from '../services/query';
+import { decodeFilters, encodeFilters } from '../services/router';
+import { diffSnapshots } from '../services/snapshotDiff';
+import { loadSnapshot } from '../services/history';
+import { useClaims } from '../services/claims';
+import { useDebianMetadata } from '../services/debian';
+import { useSyncAnalyses } from '../services/syncCandidates';
+
+interface ChangesViewProps {
+  data: MergePackage[];
+  history: SnapshotSummary[];
+  onSelectPackage: (pkg: MergePackage) => void;
+  // Baseline (since), change kind and filters live in the URL
+  query: URLSearchParams;
+  onQueryChange: (query: URLSearchParams, replace?: boolean) => void;
+}
+
+type ChangeKind = 'added' | 'resolved' | 'bumped';
+
+const CHANGE_KIND_IDS: ChangeKind[] = ['added', 'resolved', 'bumped'];
+
+const CHANGE_KINDS: { id: ChangeKind; label: string; icon: React.ReactNode; color: string }[] = [
+  { id: 'added', label: 'New', icon: <PlusCircle size={16} />, color: '#E95420' },
+  { id: 'resolved', label: 'Resolved', icon: <CheckCircle2 size={16} />, color: '#0E8420' },
+  { id: 'bumped', label: 'Debian Bumped', icon: <ArrowUpCircle size={16} />, color: '#0066CC' }
+];
+
+export const ChangesView: React.FC<ChangesViewProps> = ({ data, history, onSelectPackage, query, onQueryChange }) => {
+  // The newest snapshot is the data currently displayed, so compare against an older one.
+  // Defaults to the one just before it, i.e. the previous visit.
+  const baselineOptions = useMemo(() => history.slice(0, -1).reverse(), [history]);
+  const [baseline, setBaseline] = useState<MergePackage[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const baselineAt = query.get('since');
+  const kind = CHANGE_KIND_IDS.find(k => k === query.get('kind')) || 'added';
+  const search = decodeFilters(query);
+  const parsedSearch = useMemo(() => compileQuery(search), [search]);
+
+  // A shared link may point at a snapshot this browser does not have; fall back to the previous visit
+  const selectedBaselineAt = baselineOptions.find(h => h.takenAt === baselineAt)?.takenAt ?? baselineOptions[0]?.takenAt ?? null;
+
+  const updateQuery = (changes: { since?: string; kind?: ChangeKind; search?: string }, replace?: boolean) => {
+    const next = encodeFilters(changes.search ?? search);
+    const since = changes.since ?? baselineAt;
+    const nextKind = changes.kind ?? kind;
+    if (since) next.set('since', since);
+    if (nextKind !== 'added') next.set('kind', nextKind);
+    onQueryChange(next, replace);
+  };
+
+  useEffect(() => {
+    if (!selectedBaselineAt) return;
+    setLoading(true);
+    loadSnapshot(selectedBaselineAt).then(packages => {
+      setBaseline(packages);
+      setLoading(false);
+    });
+  }, [selectedBaselineAt]);
+
+  const diff = useMemo(() => baseline ? diffSnapshots(baseline, data) : null, [baseline, data]);
+
+  // Dropdown values cover both sides, so resolved packages stay filterable
+  const { teams, uploaders } = useMemo(() => getFilterOptions([...(baseline || []), ...data]), [baseline, data]);
+
+  const claims = useClaims();
+  // Debian metadata is only loaded once the search uses it
+  const usesDebian = !!parsedSearch.node && (mentionsField(parsedSearch.node, 'debian') || mentionsField(parsedSearch.node, 'maintainer'));
+  const debian = useDebianMetadata(useMemo(() => data.map(pkg => pkg.name), [data]), usesDebian);
+  // sync: only matches analyses made elsewhere (merge list, package pages); a diff can span hundreds of merges
+  const sync = useSyncAnalyses([], false);
+
+  const rows = useMemo(() => {
+    if (!diff) return [];
+    if (kind === 'bumped') {
+      const visible = new Set(filterPackages(diff.bumped.map(b => b.pkg), parsedSearch, { claims, debian, sync }));
+      return diff.bumped.filter(b => visible.has(b.pkg)).map(b => ({ pkg: b.pkg, previousDebian: b.previous.debianVersion }));
+    }
+    return filterPackages(diff[kind], parsedSearch, { claims, debian, sync }).map(pkg => ({ pkg, previousDebian: undefined as string | undefined }));
+  }, [diff, kind, parsedSearch, claims, debian, sync]);
+
+  if (baselineOptions.length === 0) {
+    return (
+      <div className="bg-white p-10 rounded-sm shadow-sm border border-gray-100 flex flex-col items-center text-center font-ubuntu">
+        <History className="h-10 w-10 text-[#AEA79F] mb-4" />
+        <h3 className="text-lg font-bold text-[#262626] mb-2">No earlier snapshot yet</h3>
+        <p className="text-sm text-[#5D5D5D] max-w-md">
+          A snapshot of the merge list is recorded every time it is fetched. Come back later to see which packages appeared, were resolved or got a new Debian upload in the meantime.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-sm shadow-sm border border-gray-100 flex flex-col h-full font-ubuntu">
+      {/* Baseline selection and change kinds */}
+      <div className="p-4 border-b border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center text-sm text-[#5D5D5D]">
+          <History className="h-4 w-4 mr-2 text-gray-400" />
+          <span className="mr-2">Changes since</span>
+          <select
+            value={selectedBaselineAt || ''}
+            onChange={(e) => updateQuery({ since: e.target.value })}
+            className="py-1.5 pl-2 pr-8 border border-gray-300 rounded-sm bg-white focus:outline-none focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm"
+          >
+            {baselineOptions.map(h => (
+              <option key={h.takenAt} value={h.takenAt}>{new Date(h.takenAt).toLocaleString()}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex space-x-1 bg-[#F7F7F7] rounded-sm p-1">
+          {CHANGE_KINDS.map(k => (
+            <button
+              key={k.id}
+              onClick={() => updateQuery({ kind: k.id })}
+              className={`flex items-center px-3 py-1.5 rounded-sm text-sm font-medium transition-colors ${kind === k.id ? 'bg-white shadow-sm text-[#262626]' : 'text-[#5D5D5D] hover:text-[#262626]'}`}
+            >
+              <span className="mr-1.5" style={{ color: k.color }}>{k.icon}</span>
+              {k.label}
+              <span className="ml-2 text-xs text-[#AEA79F]">{diff ? (k.id === 'bumped' ? diff.bumped.length : diff[k.id].length) : '-'}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <FilterBar
+        query={search}
+        onChange={(next, typed) => updateQuery({ search: next }, typed)}
+        teams={teams}
+        uploaders={uploaders}
+      />
+
+      {/* Table */}
+      <div className="overflow-x-auto relative min-h-[200px]">
+        {loading ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 text-[#E95420] animate-spin" />
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-[#F7F7F7]">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">Package</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden md:table-cell">Component</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden sm:table-cell">Ubuntu</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden sm:table-cell">Debian</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">Age</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden lg:table-cell">Uploader</th>
+                <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {rows.length > 0 ? rows.map(({ pkg, previousDebian }) => (
+                <tr
+                  key={pkg.id}
+                  onClick={() => onSelectPackage(pkg)}
+                  className="cursor-pointer transition-colors group hover:bg-gray-50"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#262626]">{pkg.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap hidden md:table-cell">
+                    <ComponentBadge component={pkg.component} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-[#5D5D5D] font-mono hidden sm:table-cell">{pkg.ubuntuVersion}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-[#5D5D5D] font-mono hidden sm:table-cell">
+                    {previousDebian && (
+                      <span className="text-gray-400 line-through mr-2">{previousDebian}</span>
+                    )}
+                    {pkg.debianVersion}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#262626]">{pkg.age}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-[#5D5D5D] hidden lg:table-cell">
+                    {pkg.uploader !== 'Unknown' ? getUploaderName(pkg.uploader) : <span className="text-gray-400">-</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-[#E95420]" />
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-10 text-center text-sm text-gray-500">
+                    No changes of this kind matching your criteria.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { MergePackage } from '../types';
+import { Hand, Loader2 } from 'lucide-react';
+import { claimPackage, getClaimStore, isClaimOverdue, releaseClaim, useClaims } from '../services/claims';
+import { usePreferences } from '../services/preferences';
+
+interface ClaimPanelProps {
+  pkg: MergePackage;
+}
+
+const inputClass = "block w-full px-2 py-1.5 border border-gray-300 rounded-sm text-sm bg-white focus:outline-none focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420]";
+
+export const ClaimPanel: React.FC<ClaimPanelProps> = ({ pkg }) => {
+  const claims = useClaims();
+  const { identity } = usePreferences();
+  const claim = claims[pkg.name];
+
+  const [editing, setEditing] = useState(false);
+  const [claimedBy, setClaimedBy] = useState('');
+  const [note, setNote] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The form starts from the existing claim, or from the user's name (My Merges identity, emails skipped)
+  const resetForm = () => {
+    setClaimedBy(claim?.claimedBy ?? identity.find(entry => !entry.includes('@')) ?? '');
+    setNote(claim?.note ?? '');
+    setTargetDate(claim?.targetDate ?? '');
+    setError(null);
+  };
+
+  useEffect(() => {
+    setEditing(false);
+    resetForm();
+  }, [pkg, claim]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(false);
+    } catch (e) {
+      console.warn('Claim update failed', e);
+      setError(e instanceof Error ? e.message : 'Claim update failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => claimPackage({ package: pkg.name, claimedBy, note, targetDate: targetDate || undefined }));
+  };
+
+  const showForm = !claim || editing;
+  const overdue = claim && isClaimOverdue(claim);
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-[#262626] mb-3 flex items-center uppercase tracking-wide">
+        <Hand className="w-4 h-4 mr-2 text-[#E95420]" />
+        Claim
+        <span className="ml-2 text-[11px] font-normal normal-case tracking-normal text-[#AEA79F]">{getClaimStore().label}</span>
+      </h3>
+      <div className="bg-white p-4 rounded-sm border border-gray-100 shadow-sm">
+        {!showForm && claim ? (
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm min-w-0">
+              <p className="text-[#262626]">
+                Claimed by <span className="font-medium">{claim.claimedBy}</span>
+                <span className="text-xs text-[#AEA79F] ml-2">since {claim.claimedAt.slice(0, 10)}</span>
+              </p>
+              {claim.targetDate && (
+                <p className={`text-xs mt-1 ${overdue ? 'text-[#C7162B] font-medium' : 'text-[#5D5D5D]'}`}>
+                  Target {claim.targetDate}{overdue && ' (overdue)'}
+                </p>
+              )}
+              {claim.note && <p className="text-xs text-[#5D5D5D] mt-1 whitespace-pre-wrap break-words">{claim.note}</p>}
+            </div>
+            <div className="flex gap-3 shrink-0 text-xs">
+              <button onClick={() => setEditing(true)} className="text-[#0066CC] hover:underline">Edit</button>
+              <button
+                onClick={() => run(() => releaseClaim(pkg.name))}
+                disabled={busy}
+                className="text-[#C7162B] hover:underline disabled:opacity-50"
+              >
+                Release
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            {!claim && (
+              <p className="text-xs text-[#5D5D5D]">Nobody has claimed this merge. Claim it so others know you are on it.</p>
+            )}
+            <input
+              type="text"
+              value={claimedBy}
+              onChange={(e) => setClaimedBy(e.target.value)}
+              placeholder="Your name"
+              className={inputClass}
+              required
+            />
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note (optional), e.g. waiting for upstream fix"
+              rows={2}
+              className={inputClass}
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-[#5D5D5D] shrink-0" htmlFor="claim-target">Target date</label>
+              <input
+                id="claim-target"
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end gap-3 pt-1">
+              {claim && (
+                <button type="button" onClick={() => { setEditing(false); resetForm(); }} className="text-xs text-[#5D5D5D] hover:underline">
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={busy || !claimedBy.trim()}
+                className="inline-flex items-center px-3 py-1.5 rounded-sm text-xs font-medium text-white bg-[#E95420] hover:bg-[#C7431A] disabled:opacity-50 transition-colors"
+              >
+                {busy && <Loader2 size={12} className="mr-1.5 animate-spin" />}
+                {claim ? 'Save' : 'Claim'}
+              </button>
+            </div>
+          </form>
+        )}
+        {error && <p className="mt-2 text-xs text-[#C7162B]">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Columns3, ChevronDown, Check } from 'lucide-react';
+import { OPTIONAL_COLUMNS, OptionalColumn, toggleColumn, usePreferences } from '../services/preferences';
+
+// Labels of the optional Package List columns, shared with the table headers
+export const COLUMN_LABELS: Record<OptionalColumn, string> = {
+  launchpadBugs: 'LP Bugs',
+  launchpadUpload: 'Devel Upload',
+  mergeProposals: 'Merge Proposals',
+  debianStatus: 'Debian',
+  conflicts: 'Conflicts',
+  deltaAbsorbed: 'Delta in Debian'
+};
+
+const COLUMN_HINTS: Record<OptionalColumn, string> = {
+  launchpadBugs: 'Open bugs and needs-merge bugs on Launchpad',
+  launchpadUpload: 'Latest upload to the development series',
+  mergeProposals: 'Open git merge proposals',
+  debianStatus: 'Testing migration and RC bugs of the Debian version',
+  conflicts: 'Files the merge tool could not merge (from the REPORT)',
+  deltaAbsorbed: 'Ubuntu changes Debian already has, out of the whole delta (from both changelogs)'
+};
+
+export const ColumnsMenu: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const { columns } = usePreferences();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-sm bg-white text-sm text-[#5D5D5D] hover:text-[#262626] hover:border-[#AEA79F] transition-colors"
+        title="Optional columns, loaded for the packages on the current page"
+      >
+        <Columns3 size={14} className="mr-1.5" />
+        Columns
+        <ChevronDown size={14} className="ml-1" />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)}></div>
+          <div className="absolute right-0 z-20 mt-1 w-64 bg-white border border-gray-200 rounded-sm shadow-md py-1 text-sm">
+            {OPTIONAL_COLUMNS.map(column => (
+              <button
+                key={column}
+                onClick={() => toggleColumn(column)}
+                className="w-full flex items-start px-3 py-2 text-left text-[#262626] hover:bg-[#F7F7F7]"
+              >
+                <Check size={14} className={`mr-2 mt-0.5 shrink-0 ${columns.includes(column) ? 'text-[#E95420]' : 'text-transparent'}`} />
+                <span>
+                  {COLUMN_LABELS[column]}
+                  <span className="block text-[11px] text-[#AEA79F]">{COLUMN_HINTS[column]}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
 
-import React, { useEffect, useState } from 'react';
-import { MergePackage } from '../types';
-import { X, Loader2, AlertTriangle, ArrowRightLeft, FileText } from 'lucide-react';
-import { fetchChangelog, fetchDebianChangelog } from '../services/api';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChangelogChange, ChangelogEntry, MergePackage } from '../types';
+import { X, Loader2, AlertTriangle, ArrowRightLeft, FileText, Bug, CheckCircle2 } from 'lucide-react';
+import { fetchChangelogEntries, fetchDebianChangelogEntries } from '../services/api';
+import { ChangelogRange, collectClosedBugs, selectChangelogRange } from '../services/changelogParser';
+import { diffLines, findChangesInDebian, toChangelogLines } from '../services/changelogDiff';
+import { getUbuntuBaseVersion } from '../services/debVersion';
+import { ChangelogRangePicker, CollapsibleChangelogEntry } from './ChangelogEntries';
+import { ChangelogDiffView, DiffMode } from './ChangelogDiffView';
 
 interface ComparisonModalProps {
   pkg: MergePackage;
@@ -10,10 +15,26 @@ interface ComparisonModalProps {
   onClose: () => void;
 }
 
+// The diffs, or the two changelogs next to each other as collapsible entries
+type ComparisonMode = DiffMode | 'entries';
+
+const MODE_LABELS: Record<ComparisonMode, string> = {
+  split: 'Split diff',
+  unified: 'Unified diff',
+  entries: 'Entries'
+};
+
+const UBUNTU_COLOR = '#E95420';
+const DEBIAN_COLOR = '#D70A53';
+
 export const ComparisonModal: React.FC<ComparisonModalProps> = ({ pkg, isOpen, onClose }) => {
-  const [ubuntuLog, setUbuntuLog] = useState<string | null>(null);
-  const [debianLog, setDebianLog] = useState<string | null>(null);
+  const [ubuntuEntries, setUbuntuEntries] = useState<ChangelogEntry[] | null>(null);
+  const [debianEntries, setDebianEntries] = useState<ChangelogEntry[] | null>(null);
   const [loading, setLoading] = useState(false);
+  const [range, setRange] = useState<ChangelogRange>('current');
+  const [mode, setMode] = useState<ComparisonMode>('split');
+  // Entries whose expanded state the user flipped (the newest entry of each panel starts expanded)
+  const [toggledEntries, setToggledEntries] = useState<Set<string>>(new Set());
   
   // Track errors separately
   const [ubuntuError, setUbuntuError] = useState(false);
@@ -24,15 +45,18 @@ export const ComparisonModal: React.FC<ComparisonModalProps> = ({ pkg, isOpen, o
       setLoading(true);
       setUbuntuError(false);
       setDebianError(false);
-      setUbuntuLog(null);
-      setDebianLog(null);
+      setUbuntuEntries(null);
+      setDebianEntries(null);
+      // Default to everything Debian uploaded since the version Ubuntu is based on
+      setRange(getUbuntuBaseVersion(pkg.ubuntuVersion) ? 'sinceBase' : 'current');
+      setToggledEntries(new Set());
       
-      const p1 = fetchChangelog(pkg)
-        .then(setUbuntuLog)
+      const p1 = fetchChangelogEntries(pkg)
+        .then(setUbuntuEntries)
         .catch(() => setUbuntuError(true));
         
-      const p2 = fetchDebianChangelog(pkg)
-        .then(setDebianLog)
+      const p2 = fetchDebianChangelogEntries(pkg)
+        .then(setDebianEntries)
         .catch(() => setDebianError(true));
 
       Promise.allSettled([p1, p2]).then(() => {
@@ -41,46 +65,153 @@ export const ComparisonModal: React.FC<ComparisonModalProps> = ({ pkg, isOpen, o
     }
   }, [isOpen, pkg]);
 
+  // Debian version the Ubuntu package is based on, the lower bound of the "Since Ubuntu base" range
+  const baseVersion = getUbuntuBaseVersion(pkg.ubuntuVersion);
+
+  const ubuntuVisible = useMemo(
+    () => selectChangelogRange(ubuntuEntries || [], range, pkg.ubuntuVersion, baseVersion),
+    [ubuntuEntries, range, pkg, baseVersion]
+  );
+  const debianVisible = useMemo(
+    () => selectChangelogRange(debianEntries || [], range, pkg.debianVersion, baseVersion),
+    [debianEntries, range, pkg, baseVersion]
+  );
+  // Ubuntu changes Debian has too, looked up in the whole Debian changelog whatever the range
+  const shared = useMemo(
+    () => findChangesInDebian(ubuntuEntries || [], debianEntries || []),
+    [ubuntuEntries, debianEntries]
+  );
+  const diff = useMemo(() => {
+    if (mode === 'entries' || !ubuntuEntries || !debianEntries) return null;
+    const oldLines = toChangelogLines(ubuntuVisible, shared);
+    const newLines = toChangelogLines(debianVisible);
+    return { oldLines, lines: diffLines(oldLines.map(line => line.text), newLines.map(line => line.text)) };
+  }, [mode, ubuntuEntries, debianEntries, ubuntuVisible, debianVisible, shared]);
+
   if (!isOpen) return null;
 
+  const toggleEntry = (key: string) => {
+    setToggledEntries(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
   const renderPanel = (
     title: string, 
     version: string, 
-    log: string | null, 
+    entries: ChangelogEntry[] | null, 
+    visible: ChangelogEntry[],
     isError: boolean, 
     color: string, 
-    bgColor: string
-  ) => (
-    <div className="flex-1 flex flex-col min-h-0 border-b md:border-b-0 md:border-r border-gray-100 last:border-0">
-      <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between" style={{ backgroundColor: bgColor }}>
-        <div>
-          <h4 className="text-sm font-bold uppercase tracking-wide" style={{ color }}>{title}</h4>
-          <span className="text-xs font-mono text-gray-600">{version}</span>
+    bgColor: string,
+    sharedChanges?: Map<ChangelogChange, string>
+  ) => {
+    const closedBugs = collectClosedBugs(visible);
+
+    return (
+      <div className="flex-1 flex flex-col min-h-0 border-b md:border-b-0 md:border-r border-gray-100 last:border-0">
+        <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between" style={{ backgroundColor: bgColor }}>
+          <div>
+            <h4 className="text-sm font-bold uppercase tracking-wide" style={{ color }}>{title}</h4>
+            <span className="text-xs font-mono text-gray-600">{version}</span>
+            {entries && (
+              <span className="block text-[11px] text-[#5D5D5D] mt-0.5">
+                {visible.length} {visible.length === 1 ? 'entry' : 'entries'}
+                {range === 'sinceBase' && baseVersion && <> since <span className="font-mono">{baseVersion}</span></>}
+                {closedBugs.length > 0 && (
+                  <span className="inline-flex items-center ml-2">
+                    <Bug size={10} className="mr-1" />{closedBugs.length} Debian bug{closedBugs.length === 1 ? '' : 's'} closed
+                  </span>
+                )}
+              </span>
+            )}
+          </div>
+          {isError && (
+               <span className="text-xs text-red-500 font-medium flex items-center">
+                 <AlertTriangle size={12} className="mr-1" /> Unavailable
+               </span>
+          )}
+        </div>
+        <div className="flex-1 overflow-auto p-4 bg-white relative">
+          {loading ? (
+             <div className="absolute inset-0 flex flex-col items-center justify-center opacity-50">
+                <Loader2 size={24} className="animate-spin mb-2" style={{ color }} />
+             </div>
+          ) : isError ? (
+            <div className="h-full flex flex-col items-center justify-center text-center p-4">
+               <FileText size={32} className="text-gray-200 mb-2" />
+               <p className="text-xs text-gray-400">Changelog not found</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {visible.map((entry, idx) => {
+                const key = `${title}-${entry.version}`;
+                return (
+                  <CollapsibleChangelogEntry
+                    key={key}
+                    entry={entry}
+                    color={color}
+                    expanded={(idx === 0) !== toggledEntries.has(key)}
+                    onToggle={() => toggleEntry(key)}
+                    shared={sharedChanges}
+                  />
+                );
+              })}
+            </div>
+          )}
         </div>
-        {isError && (
-             <span className="text-xs text-red-500 font-medium flex items-center">
-               <AlertTriangle size={12} className="mr-1" /> Unavailable
-             </span>
-        )}
       </div>
-      <div className="flex-1 overflow-auto p-4 bg-white relative">
-        {loading ? (
-           <div className="absolute inset-0 flex flex-col items-center justify-center opacity-50">
-              <Loader2 size={24} className="animate-spin mb-2" style={{ color }} />
-           </div>
-        ) : isError ? (
-          <div className="h-full flex flex-col items-center justify-center text-center p-4">
-             <FileText size={32} className="text-gray-200 mb-2" />
-             <p className="text-xs text-gray-400">Changelog not found</p>
+    );
+  };
+
+  const renderDiff = () => {
+    if (loading) {
+      return (
+        <div className="flex-1 flex items-center justify-center opacity-50">
+          <Loader2 size={24} className="animate-spin text-[#5D5D5D]" />
+        </div>
+      );
+    }
+    if (!diff) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-center p-4">
+          <FileText size={32} className="text-gray-200 mb-2" />
+          <p className="text-xs text-gray-400">
+            The {ubuntuError ? 'Ubuntu' : 'Debian'} changelog is not available, there is nothing to diff against.
+          </p>
+        </div>
+      );
+    }
+
+    const removed = diff.lines.filter(line => line.kind === 'removed').length;
+    const added = diff.lines.filter(line => line.kind === 'added').length;
+    const sharedCount = diff.oldLines.filter(line => line.sharedWith).length;
+    const sideHeader = (title: string, version: string, color: string, bgColor: string, count: string) => (
+      <div className="flex-1 px-4 py-2" style={{ backgroundColor: bgColor }}>
+        <span className="text-xs font-bold uppercase tracking-wide" style={{ color }}>{title}</span>
+        <span className="ml-2 text-xs font-mono text-gray-600">{version}</span>
+        <span className="ml-2 text-[11px] text-[#5D5D5D]">{count}</span>
+      </div>
+    );
+
+    return (
+      <div className="flex-1 flex flex-col min-h-0">
+        <div className="flex border-b border-gray-100 shrink-0">
+          {sideHeader('Ubuntu', pkg.ubuntuVersion, UBUNTU_COLOR, '#FFF5F0', `${mode === 'unified' ? '- ' : ''}${removed} line${removed === 1 ? '' : 's'} only here`)}
+          {sideHeader('Debian', pkg.debianVersion, DEBIAN_COLOR, '#FFF0F5', `${mode === 'unified' ? '+ ' : ''}${added} line${added === 1 ? '' : 's'} only here`)}
+        </div>
+        {sharedCount > 0 && (
+          <div className="px-4 py-1.5 border-b border-gray-100 bg-[#F4FBF6] text-[11px] text-[#0E8420] flex items-center shrink-0">
+            <CheckCircle2 size={12} className="mr-1.5" />
+            {sharedCount} Ubuntu change{sharedCount === 1 ? ' is' : 's are'} already in Debian and may be dropped by the merge
           </div>
-        ) : (
-          <pre className="font-mono text-xs text-[#333] whitespace-pre-wrap leading-relaxed">
-            {log}
-          </pre>
         )}
+        <ChangelogDiffView key={`${mode}-${range}`} mode={mode as DiffMode} lines={diff.lines} oldLines={diff.oldLines} />
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 font-ubuntu" role="dialog" aria-modal="true">
@@ -104,33 +235,52 @@ export const ComparisonModal: React.FC<ComparisonModalProps> = ({ pkg, isOpen, o
                 <p className="text-xs text-[#5D5D5D] mt-0.5">{pkg.name}</p>
              </div>
           </div>
-          <button 
-            onClick={onClose}
-            className="text-gray-400 hover:text-[#262626] transition-colors p-2 rounded-full hover:bg-gray-100"
-          >
-            <X size={24} />
-          </button>
+          <div className="flex items-center space-x-3">
+            <div className="flex space-x-1 bg-[#F0F0F0] rounded-sm p-0.5">
+              {(Object.keys(MODE_LABELS) as ComparisonMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-2.5 py-1 rounded-sm text-xs font-medium transition-colors ${mode === option ? 'bg-white shadow-sm text-[#262626]' : 'text-[#5D5D5D] hover:text-[#262626]'}`}
+                >
+                  {MODE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <ChangelogRangePicker value={range} onChange={setRange} hasBase={!!baseVersion} />
+            <button 
+              onClick={onClose}
+              className="text-gray-400 hover:text-[#262626] transition-colors p-2 rounded-full hover:bg-gray-100"
+            >
+              <X size={24} />
+            </button>
+          </div>
         </div>
 
-        {/* Body - Split View */}
-        <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
-          {renderPanel(
-            'Ubuntu', 
-            pkg.ubuntuVersion, 
-            ubuntuLog, 
-            ubuntuError, 
-            '#E95420', // Orange
-            '#FFF5F0'  // Light Orange bg
-          )}
-          {renderPanel(
-            'Debian', 
-            pkg.debianVersion, 
-            debianLog, 
-            debianError, 
-            '#D70A53', // Red
-            '#FFF0F5'  // Light Red bg
-          )}
-        </div>
+        {/* Body - Diff or Entries side by side */}
+        {mode === 'entries' ? (
+          <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+            {renderPanel(
+              'Ubuntu', 
+              pkg.ubuntuVersion, 
+              ubuntuEntries, 
+              ubuntuVisible,
+              ubuntuError, 
+              UBUNTU_COLOR, // Orange
+              '#FFF5F0',  // Light Orange bg
+              shared
+            )}
+            {renderPanel(
+              'Debian', 
+              pkg.debianVersion, 
+              debianEntries, 
+              debianVisible,
+              debianError, 
+              DEBIAN_COLOR, // Red
+              '#FFF0F5'  // Light Red bg
+            )}
+          </div>
+        ) : renderDiff()}
 
         {/* Footer */}
         <div className="px-6 py-3 bg-[#FAFAFA] border-t border-gray-100 shrink-0 flex justify-end">
@@ -1,12 +1,22 @@
 
 import React from 'react';
-import { ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { MergePackage, PackageSet } from '../types';
-import { Package, Users, Clock } from 'lucide-react';
+import { ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Cell } from 'recharts';
+import { MergePackage, MergeStatus, PackageSet, SnapshotSummary } from '../types';
+import { Package, Users, Clock, CircleDot, Hand, RefreshCw } from 'lucide-react';
+import { TrendCharts } from './TrendCharts';
+import { UploadersPanel } from './UploadersPanel';
+import { NextUpPanel } from './NextUpPanel';
+import { useClaims } from '../services/claims';
+import { DEFAULT_LIST_STATE } from '../services/filters';
+import { encodeListState, navigate, pathForView } from '../services/router';
+import { getAnalysisKey, useSyncAnalyses } from '../services/syncCandidates';
 
 interface DashboardProps {
   data: MergePackage[];
+  history: SnapshotSummary[];
   onTeamClick: (team: string) => void;
+  onUploaderClick: (uploader: string) => void;
+  onSelectPackage: (pkg: MergePackage) => void;
 }
 
 // Canonical Brand Colors
@@ -14,12 +24,25 @@ const COLORS = {
   needsMerge: '#E95420', // Ubuntu Orange
   syncAvailable: '#77216F', // Ubuntu Aubergine
   outdated: '#AEA79F', // Warm Grey
+  conflicts: '#C7162B', // Canonical Red
   unknown: '#333333',
   chartBlue: '#0066CC', // Secondary accent
 };
 
-const StatCard: React.FC<{ title: string; value: string | number; icon: React.ReactNode; color: string; subtext?: string }> = ({ title, value, icon, color, subtext }) => (
-  <div className="bg-white p-6 rounded-sm shadow-sm border-t-4 border-gray-100 flex items-center justify-between hover:shadow-md transition-shadow" style={{borderTopColor: color}}>
+const STATUS_COLORS: Record<MergeStatus, string> = {
+  [MergeStatus.NEEDS_MERGE]: COLORS.needsMerge,
+  [MergeStatus.SYNC_POSSIBLE]: COLORS.syncAvailable,
+  [MergeStatus.CONFLICTS]: COLORS.conflicts,
+  [MergeStatus.FAILED]: COLORS.outdated,
+  [MergeStatus.UNKNOWN]: COLORS.unknown
+};
+
+const StatCard: React.FC<{ title: string; value: string | number; icon: React.ReactNode; color: string; subtext?: string; onClick?: () => void }> = ({ title, value, icon, color, subtext, onClick }) => (
+  <div
+    onClick={onClick}
+    className={`bg-white p-6 rounded-sm shadow-sm border-t-4 border-gray-100 flex items-center justify-between hover:shadow-md transition-shadow ${onClick ? 'cursor-pointer' : ''}`}
+    style={{borderTopColor: color}}
+  >
     <div>
       <p className="text-xs font-bold text-[#5D5D5D] uppercase tracking-wider mb-1">{title}</p>
       <h3 className="text-3xl font-light text-[#262626]">{value}</h3>
@@ -31,7 +54,25 @@ const StatCard: React.FC<{ title: string; value: string | number; icon: React.Re
   </div>
 );
 
-export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
+// Merges pending longer than this with nobody on them
+const UNCLAIMED_AFTER_DAYS = 30;
+const UNCLAIMED_QUERY = `claimed:no age:>${UNCLAIMED_AFTER_DAYS}`;
+const SYNC_CANDIDATES_QUERY = 'sync:candidate';
+
+export const Dashboard: React.FC<DashboardProps> = ({ data, history, onTeamClick, onUploaderClick, onSelectPackage }) => {
+  const claims = useClaims();
+  const unclaimedCount = React.useMemo(
+    () => data.filter(p => p.ageInDays > UNCLAIMED_AFTER_DAYS && !claims[p.name]).length,
+    [data, claims]
+  );
+
+  // Only the deltas analyzed so far (list filters and columns, package details) are counted
+  const analyses = useSyncAnalyses(data, false);
+  const syncCounts = React.useMemo(() => {
+    const known = data.map(p => analyses[getAnalysisKey(p)]).filter(a => !!a);
+    return { analyzed: known.length, candidates: known.filter(a => a!.verdict === 'candidate').length };
+  }, [data, analyses]);
+
   const stats = React.useMemo(() => {
     const s: {
       total: number;
@@ -41,6 +82,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
       multiverseCount: number;
       totalDays: number;
       teams: Record<string, number>;
+      statuses: Record<string, number>;
       ageBins: {
         week1: number;
         month1: number;
@@ -55,6 +97,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
       multiverseCount: 0,
       totalDays: 0,
       teams: {},
+      statuses: {},
       ageBins: {
         week1: 0,
         month1: 0,
@@ -76,6 +119,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
       else if (p.ageInDays <= 180) s.ageBins.month6++;
       else s.ageBins.older++;
 
+      // Count statuses
+      const status = p.status || MergeStatus.UNKNOWN;
+      s.statuses[status] = (s.statuses[status] || 0) + 1;
+
       // Count teams
       p.teams.forEach(team => {
         if (!s.teams[team]) s.teams[team] = 0;
@@ -102,6 +149,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
     { name: '> 6 Months', count: stats.ageBins.older },
   ];
 
+  const statusData = Object.values(MergeStatus)
+    .map(status => ({ name: status, count: stats.statuses[status] || 0 }))
+    .filter(d => d.count > 0);
+
   // Prepare Top Teams Data
   const teamData = Object.entries(stats.teams)
     .map(([name, count]) => ({ name, count }))
@@ -111,12 +162,31 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
   return (
     <div className="space-y-6 font-ubuntu">
       {/* Top Stats Row */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
         <StatCard title="Total Packages" value={stats.total} icon={<Package size={24} />} color="#333" />
         <StatCard title="Average Age" value={`${avgAge}d`} subtext="Time Pending" icon={<Clock size={24} />} color={COLORS.chartBlue} />
         <StatCard title="Active Teams" value={activeTeamsCount} subtext="Involved in Merges" icon={<Users size={24} />} color={COLORS.syncAvailable} />
+        <StatCard
+          title={`Unclaimed > ${UNCLAIMED_AFTER_DAYS} Days`}
+          value={unclaimedCount}
+          subtext="Nobody working on them"
+          icon={<Hand size={24} />}
+          color={COLORS.conflicts}
+          onClick={() => navigate(pathForView('list', encodeListState({ ...DEFAULT_LIST_STATE, query: UNCLAIMED_QUERY })))}
+        />
+        <StatCard
+          title="Sync Candidates"
+          value={syncCounts.candidates}
+          subtext={`Delta already in Debian, of ${syncCounts.analyzed} analyzed`}
+          icon={<RefreshCw size={24} />}
+          color={COLORS.chartBlue}
+          onClick={() => navigate(pathForView('list', encodeListState({ ...DEFAULT_LIST_STATE, query: SYNC_CANDIDATES_QUERY })))}
+        />
       </div>
 
+      {/* Highest merge priority first (services/scoring.ts) */}
+      <NextUpPanel data={data} onSelectPackage={onSelectPackage} />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Age Distribution */}
         <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
@@ -151,6 +221,29 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
         </div>
       </div>
 
+      {/* Merge Status Breakdown - Full Width */}
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+        <div className="flex items-center mb-6 border-b border-gray-100 pb-4">
+           <CircleDot className="text-[#E95420] mr-2" size={20} />
+           <h3 className="text-xl font-light text-[#262626]">Merge Status Breakdown</h3>
+        </div>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={statusData} layout="vertical" margin={{ top: 0, right: 30, left: 40, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f0f0f0" />
+              <XAxis type="number" />
+              <YAxis type="category" dataKey="name" width={110} tick={{fontSize: 12, fill: '#5D5D5D'}} />
+              <Tooltip cursor={{fill: '#f3f4f6'}} />
+              <Bar dataKey="count" radius={[0, 4, 4, 0]} barSize={24}>
+                {statusData.map(d => (
+                  <Cell key={d.name} fill={STATUS_COLORS[d.name]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       {/* Top Teams - Full Width */}
       <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
         <div className="flex items-center mb-6 border-b border-gray-100 pb-4">
@@ -184,6 +277,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ data, onTeamClick }) => {
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* Per-person backlog, aliases folded (services/uploaders.ts) */}
+      <UploadersPanel data={data} onUploaderClick={onUploaderClick} />
+
+      {/* Backlog Trends from recorded snapshots */}
+      <TrendCharts history={history} />
     </div>
   );
 };
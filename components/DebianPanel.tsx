@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { MergePackage } from '../types';
+import { Loader2, AlertTriangle, ShieldAlert, Package } from 'lucide-react';
+import { DebianStateBadge } from './Badges';
+import { DEBIAN_SUITES, DebianPackageInfo, fetchDebianInfo, getDebianSource, getDebianState } from '../services/debian';
+import { getDebianBugUrl, getDebianTrackerUrl } from '../services/upstream';
+
+interface DebianPanelProps {
+  pkg: MergePackage;
+}
+
+export const DebianPanel: React.FC<DebianPanelProps> = ({ pkg }) => {
+  const [info, setInfo] = useState<DebianPackageInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    setInfo(null);
+
+    fetchDebianInfo(pkg.name)
+      .then(result => {
+        if (!cancelled) setInfo(result);
+      })
+      .catch(err => {
+        console.warn('Failed to load Debian metadata', err);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [pkg]);
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-[#262626] mb-3 flex items-center uppercase tracking-wide">
+        <Package className="w-4 h-4 mr-2 text-[#E95420]" />
+        Debian
+        {info && <span className="ml-2"><DebianStateBadge state={getDebianState(pkg, info)} /></span>}
+      </h3>
+
+      {loading ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <Loader2 size={16} className="animate-spin mr-2 text-[#E95420]" />
+          Loading Debian metadata...
+        </div>
+      ) : error ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <AlertTriangle size={16} className="mr-2 text-gray-400" />
+          Debian metadata unavailable ({getDebianSource().label}).
+        </div>
+      ) : !info ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 text-sm text-[#5D5D5D]">
+          No Debian metadata for {pkg.name}.
+        </div>
+      ) : (
+        <div className="bg-white p-4 rounded-sm border border-gray-100 shadow-sm space-y-4 text-sm">
+          <table className="w-full text-xs">
+            <tbody>
+              {DEBIAN_SUITES.map(suite => (
+                <tr key={suite}>
+                  <td className="py-0.5 text-[#5D5D5D] w-28 capitalize">{suite}</td>
+                  <td className={`py-0.5 font-mono ${info.versions[suite] === pkg.debianVersion ? 'text-[#262626] font-bold' : 'text-[#5D5D5D]'}`}>
+                    {info.versions[suite] ?? <span className="text-gray-400 font-sans">-</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {info.excuses.length > 0 && (
+            <div>
+              <span className="text-[#5D5D5D]">Migration excuses</span>
+              <ul className="mt-1 space-y-0.5">
+                {info.excuses.map((excuse, idx) => (
+                  <li key={idx} className="text-xs text-[#262626] pl-2 border-l-2 border-yellow-300">{excuse}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <span className="flex items-center text-[#5D5D5D]"><ShieldAlert size={14} className="mr-1.5" />RC bugs</span>
+            {info.rcBugs === null ? (
+              <p className="text-xs text-gray-400 italic mt-1">unavailable</p>
+            ) : info.rcBugs.length === 0 ? (
+              <p className="text-xs text-[#AEA79F] mt-1">None open.</p>
+            ) : (
+              <ul className="mt-1 space-y-1">
+                {info.rcBugs.map(bug => (
+                  <li key={bug.id} className="text-xs">
+                    <a href={getDebianBugUrl(bug.id)} target="_blank" rel="noreferrer" className="font-mono text-[#0066CC] hover:underline">#{bug.id}</a>
+                    <span className="ml-2 text-[#C7162B]">{bug.severity}</span>
+                    <span className="ml-2 text-[#262626]">{bug.title}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <span className="text-[#5D5D5D]">Maintainer</span>
+            <p className="text-xs text-[#262626] mt-1">{info.maintainer ?? <span className="text-gray-400 italic">not known</span>}</p>
+            {info.uploaders.length > 0 && (
+              <p className="text-xs text-[#5D5D5D] mt-0.5">Uploaders: {info.uploaders.join(', ')}</p>
+            )}
+          </div>
+
+          <a href={getDebianTrackerUrl(pkg.name)} target="_blank" rel="noreferrer" className="block text-xs text-[#0066CC] hover:underline">
+            More on the Debian Package Tracker
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
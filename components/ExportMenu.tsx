@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { MergePackage } from '../types';
+import { Download, ChevronDown, Copy, CheckCircle2 } from 'lucide-react';
+import { EXPORT_EXTENSIONS, EXPORT_MIME_TYPES, ExportFormat, downloadText, formatPackages } from '../services/export';
+
+interface ExportMenuProps {
+  packages: MergePackage[]; // Everything matching the filters, in display order (not just the current page)
+  data: MergePackage[]; // Full list, used to fold uploader names
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'json', label: 'JSON' },
+  { id: 'markdown', label: 'Markdown' }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ packages, data }) => {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleDownload = (format: ExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(formatPackages(packages, format, data), `ubuntu-merges-${date}.${EXPORT_EXTENSIONS[format]}`, EXPORT_MIME_TYPES[format]);
+    setOpen(false);
+  };
+
+  const handleCopy = async () => {
+    setOpen(false);
+    try {
+      await navigator.clipboard.writeText(formatPackages(packages, 'markdown', data));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn('Could not copy to the clipboard', e);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={packages.length === 0}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-sm bg-white text-sm text-[#5D5D5D] hover:text-[#262626] hover:border-[#AEA79F] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={`Export the ${packages.length} matching packages`}
+      >
+        {copied ? <CheckCircle2 size={14} className="mr-1.5 text-green-600" /> : <Download size={14} className="mr-1.5" />}
+        {copied ? 'Copied' : 'Export'}
+        <ChevronDown size={14} className="ml-1" />
+      </button>
+
+      {open && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)}></div>
+          <div className="absolute right-0 z-20 mt-1 w-52 bg-white border border-gray-200 rounded-sm shadow-md py-1 text-sm">
+            <p className="px-3 py-1.5 text-[11px] font-bold text-[#AEA79F] uppercase tracking-wider">
+              {packages.length} package{packages.length === 1 ? '' : 's'}
+            </p>
+            {FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => handleDownload(format.id)}
+                className="w-full flex items-center px-3 py-2 text-left text-[#262626] hover:bg-[#F7F7F7]"
+              >
+                <Download size={14} className="mr-2 text-[#5D5D5D]" />
+                Download {format.label}
+              </button>
+            ))}
+            <button
+              onClick={handleCopy}
+              className="w-full flex items-center px-3 py-2 text-left text-[#262626] hover:bg-[#F7F7F7] border-t border-gray-100"
+            >
+              <Copy size={14} className="mr-2 text-[#5D5D5D]" />
+              Copy as Markdown
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
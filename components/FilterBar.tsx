@@ -0,0 +1,223 @@
+import React, { useMemo } from 'react';
+import { Search, Filter, Clock, User, Layers, GitBranch, CircleDot, UserCheck, Package, AlertTriangle } from 'lucide-react';
+import { AGE_BUCKETS, normalizeQueryValue } from '../services/filters';
+import { QueryField, compileQuery, getFieldSelection, setFieldSelection } from '../services/query';
+import { MergeStatus, PackageSet, VersionGap } from '../types';
+
+interface FilterBarProps {
+  // Search query text; the dropdowns read and rewrite its field terms
+  query: string;
+  onChange: (query: string, typed?: boolean) => void; // typed: edited in the search box rather than a dropdown
+  teams: string[];
+  uploaders: string[];
+  children?: React.ReactNode; // Extra controls rendered at the end of the bar
+}
+
+const selectClass = "block w-full pl-10 pr-8 py-2 border border-gray-300 rounded-sm leading-5 bg-white focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors appearance-none";
+
+// Shown by a dropdown when the query constrains its field in a way it cannot display (OR, negation, globs...)
+const CUSTOM = '__custom__';
+
+// Values of the debian: field offered by the dropdown (services/debian.ts has the full list)
+const DEBIAN_FILTERS = [
+  { value: 'migrated', label: 'In Testing' },
+  { value: 'unstable-only', label: 'Only in Unstable' },
+  { value: 'rc-bugs', label: 'Has RC Bugs' },
+  { value: 'no-rc-bugs', label: 'No RC Bugs' }
+];
+
+// Enum fields are written as slugs (status:needs-merge), names as they are
+const SLUG_FIELDS: QueryField[] = ['component', 'gap', 'status'];
+
+export const FilterBar: React.FC<FilterBarProps> = ({ query, onChange, teams, uploaders, children }) => {
+  const { node, error } = useMemo(() => compileQuery(query), [query]);
+
+  const selected = (field: QueryField, options: string[]) => {
+    const value = error ? null : getFieldSelection(node, field);
+    if (value === 'All') return 'All';
+    return options.find(option => value !== null && normalizeQueryValue(option) === normalizeQueryValue(value)) ?? CUSTOM;
+  };
+
+  const update = (field: QueryField, value: string) => {
+    const written = value !== 'All' && SLUG_FIELDS.includes(field) ? normalizeQueryValue(value) : value;
+    onChange(setFieldSelection(query, field, written));
+  };
+
+  const customOption = (value: string) => value === CUSTOM && <option value={CUSTOM} disabled>Custom query</option>;
+
+  const componentValue = selected('component', Object.values(PackageSet));
+  const teamValue = selected('team', teams);
+  const uploaderValue = selected('uploader', uploaders);
+  const ageValue = selected('age', AGE_BUCKETS.map(b => b.query));
+  const gapValue = selected('gap', Object.values(VersionGap));
+  const statusValue = selected('status', Object.values(MergeStatus));
+  const claimValue = selected('claimed', ['yes', 'no']);
+  const debianValue = selected('debian', DEBIAN_FILTERS.map(f => f.value));
+
+  return (
+    <div className="p-4 border-b border-gray-100 flex flex-col xl:flex-row xl:items-center justify-between gap-4 bg-[#FAFAFA]">
+      <div className="flex flex-1 gap-2 flex-col sm:flex-row flex-wrap">
+        <div className="relative flex-1 min-w-[200px] max-w-md">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-4 w-4 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-sm leading-5 bg-white placeholder-gray-400 focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors"
+            placeholder='Search packages, e.g. team:foundations-bugs age:>90 -name:lib*'
+            value={query}
+            onChange={(e) => onChange(e.target.value, true)}
+            title={'Fields: name, team, component, uploader, age, gap, status, claimed (yes, no or a name),\ndebian (migrated, unstable-only, rc-bugs, no-rc-bugs), maintainer (Debian),\nsync (candidate, partial, carried, unknown: Ubuntu delta already in Debian).\nWords are AND-ed, use OR and parentheses for alternatives and a leading "-" to exclude.\nValues can be "quoted", globs (lib*) or /regex/; age takes >90, <2w or 7..30.'}
+          />
+          {error && (
+            <p className="mt-1 flex items-center text-xs text-[#C7162B]">
+              <AlertTriangle size={12} className="mr-1 shrink-0" />
+              {error}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          {/* Component Filter */}
+          <div className="relative min-w-[150px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Layers className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={componentValue}
+              onChange={(e) => update('component', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">All Components</option>
+              {customOption(componentValue)}
+              <option value="Main">Main</option>
+              <option value="Universe">Universe</option>
+              <option value="Restricted">Restricted</option>
+              <option value="Multiverse">Multiverse</option>
+            </select>
+          </div>
+
+          <div className="relative min-w-[160px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Filter className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={teamValue}
+              onChange={(e) => update('team', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">All Teams</option>
+              {customOption(teamValue)}
+              {teams.map(team => (
+                <option key={team} value={team}>{team}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative min-w-[160px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <User className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={uploaderValue}
+              onChange={(e) => update('uploader', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">All Uploaders</option>
+              {customOption(uploaderValue)}
+              {uploaders.map(u => (
+                <option key={u} value={u}>{u}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative min-w-[140px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Clock className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={ageValue}
+              onChange={(e) => update('age', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">Any Age</option>
+              {customOption(ageValue)}
+              {AGE_BUCKETS.map(bucket => (
+                <option key={bucket.id} value={bucket.query}>{bucket.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative min-w-[160px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <GitBranch className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={gapValue}
+              onChange={(e) => update('gap', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">Any Version Gap</option>
+              {customOption(gapValue)}
+              {Object.values(VersionGap).map(gap => (
+                <option key={gap} value={gap}>{gap}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative min-w-[150px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <CircleDot className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={statusValue}
+              onChange={(e) => update('status', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">Any Status</option>
+              {customOption(statusValue)}
+              {Object.values(MergeStatus).map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="relative min-w-[140px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <UserCheck className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={claimValue}
+              onChange={(e) => update('claimed', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">Any Claim</option>
+              {customOption(claimValue)}
+              <option value="yes">Claimed</option>
+              <option value="no">Unclaimed</option>
+            </select>
+          </div>
+
+          <div className="relative min-w-[160px]">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Package className="h-4 w-4 text-gray-400" />
+            </div>
+            <select
+              value={debianValue}
+              onChange={(e) => update('debian', e.target.value)}
+              className={selectClass}
+            >
+              <option value="All">Any Debian State</option>
+              {customOption(debianValue)}
+              {DEBIAN_FILTERS.map(filter => (
+                <option key={filter.value} value={filter.value}>{filter.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { MergePackage } from '../types';
+import { Bug, Loader2, AlertTriangle, GitPullRequest, Upload } from 'lucide-react';
+import { LaunchpadInfo, fetchLaunchpadInfo } from '../services/launchpad';
+import { getLaunchpadSourceUrl } from '../services/upstream';
+
+interface LaunchpadPanelProps {
+  pkg: MergePackage;
+}
+
+const Unavailable = () => <span className="text-xs text-gray-400 italic">unavailable</span>;
+
+export const LaunchpadPanel: React.FC<LaunchpadPanelProps> = ({ pkg }) => {
+  const [info, setInfo] = useState<LaunchpadInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    setInfo(null);
+
+    fetchLaunchpadInfo(pkg.name)
+      .then(result => {
+        if (!cancelled) setInfo(result);
+      })
+      .catch(err => {
+        console.warn('Failed to load Launchpad data', err);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [pkg]);
+
+  const upload = info?.latestUpload;
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-[#262626] mb-3 flex items-center uppercase tracking-wide">
+        <Bug className="w-4 h-4 mr-2 text-[#E95420]" />
+        Launchpad
+      </h3>
+
+      {loading ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <Loader2 size={16} className="animate-spin mr-2 text-[#E95420]" />
+          Asking Launchpad...
+        </div>
+      ) : error || !info ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <AlertTriangle size={16} className="mr-2 text-gray-400" />
+          Launchpad data unavailable.
+        </div>
+      ) : (
+        <div className="bg-white p-4 rounded-sm border border-gray-100 shadow-sm space-y-4 text-sm">
+          <div className="flex items-baseline justify-between">
+            <span className="text-[#5D5D5D]">Open bugs</span>
+            {info.openBugs === null ? <Unavailable /> : (
+              <a href={`${getLaunchpadSourceUrl(pkg.name)}/+bugs`} target="_blank" rel="noreferrer" className="font-medium text-[#0066CC] hover:underline">
+                {info.openBugs}
+              </a>
+            )}
+          </div>
+
+          <div>
+            <span className="text-[#5D5D5D]">Needs-merge bugs</span>
+            {info.needsMergeBugs === null ? <div><Unavailable /></div> : info.needsMergeBugs.length === 0 ? (
+              <p className="text-xs text-[#AEA79F] mt-1">None filed.</p>
+            ) : (
+              <ul className="mt-1 space-y-1">
+                {info.needsMergeBugs.map(bug => (
+                  <li key={bug.id} className="text-xs">
+                    <a href={bug.url} target="_blank" rel="noreferrer" className="text-[#0066CC] hover:underline font-mono">#{bug.id}</a>
+                    <span className="ml-2 text-[#262626]">{bug.title}</span>
+                    <span className="ml-2 text-[#AEA79F]">{bug.status}, {bug.importance}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <span className="flex items-center text-[#5D5D5D]"><Upload size={14} className="mr-1.5" />Latest devel upload</span>
+            {upload ? (
+              <p className="text-xs mt-1">
+                <a href={upload.url} target="_blank" rel="noreferrer" className="font-mono text-[#0066CC] hover:underline">{upload.version}</a>
+                <span className="ml-2 text-[#5D5D5D]">{upload.series}-{upload.pocket.toLowerCase()}, {upload.status}</span>
+                {upload.date && <span className="ml-2 text-[#AEA79F]">{upload.date.slice(0, 10)}</span>}
+                {upload.creator && <span className="ml-2 text-[#AEA79F]">by {upload.creator}</span>}
+              </p>
+            ) : (
+              <p className="text-xs text-[#AEA79F] mt-1">No upload found in the development series.</p>
+            )}
+          </div>
+
+          <div>
+            <span className="flex items-center text-[#5D5D5D]"><GitPullRequest size={14} className="mr-1.5" />Merge proposals</span>
+            {info.mergeProposals === null ? <div><Unavailable /></div> : info.mergeProposals.length === 0 ? (
+              <p className="text-xs text-[#AEA79F] mt-1">None open.</p>
+            ) : (
+              <ul className="mt-1 space-y-1">
+                {info.mergeProposals.map(mp => (
+                  <li key={mp.url} className="text-xs">
+                    <a href={mp.url} target="_blank" rel="noreferrer" className="font-mono text-[#0066CC] hover:underline">{mp.source || 'proposal'}</a>
+                    <span className="ml-2 text-[#5D5D5D]">{mp.status}</span>
+                    {mp.registrant && <span className="ml-2 text-[#AEA79F]">by {mp.registrant}</span>}
+                    {mp.createdAt && <span className="ml-2 text-[#AEA79F]">{mp.createdAt.slice(0, 10)}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
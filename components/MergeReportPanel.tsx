@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { MergePackage } from '../types';
+import { ClipboardList, Loader2, AlertTriangle, FileWarning, Download } from 'lucide-react';
+import { MergeReport, ReportSide, fetchMergeReport, getMergedFiles } from '../services/mergeReport';
+import { getPackageReportUrl } from '../services/upstream';
+
+interface MergeReportPanelProps {
+  pkg: MergePackage;
+}
+
+const SIDE_LABELS: Record<ReportSide, string> = {
+  base: 'Base',
+  ours: 'Ubuntu',
+  theirs: 'Debian',
+  merged: 'Merged'
+};
+
+export const MergeReportPanel: React.FC<MergeReportPanelProps> = ({ pkg }) => {
+  const [report, setReport] = useState<MergeReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    setReport(null);
+
+    fetchMergeReport(pkg.name)
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(err => {
+        console.warn('Failed to load the merge report', err);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [pkg]);
+
+  const mergedFiles = report ? getMergedFiles(report) : [];
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-[#262626] mb-3 flex items-center uppercase tracking-wide">
+        <ClipboardList className="w-4 h-4 mr-2 text-[#E95420]" />
+        Merge Report
+      </h3>
+
+      {loading ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <Loader2 size={16} className="animate-spin mr-2 text-[#E95420]" />
+          Loading the REPORT...
+        </div>
+      ) : error || !report ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <AlertTriangle size={16} className="mr-2 text-gray-400" />
+          No merge report available.
+        </div>
+      ) : (
+        <div className="bg-white p-4 rounded-sm border border-gray-100 shadow-sm space-y-4 text-sm">
+          <table className="w-full text-xs">
+            <tbody>
+              {report.sections.map((section, idx) => (
+                <tr key={idx}>
+                  <td className="py-0.5 text-[#5D5D5D] w-28">{SIDE_LABELS[section.side]}</td>
+                  <td className={`py-0.5 font-mono ${section.side === 'base' ? 'text-[#262626] font-bold' : 'text-[#5D5D5D]'}`}>{section.version}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <span className="flex items-center text-[#5D5D5D]"><FileWarning size={14} className="mr-1.5" />Conflicts</span>
+            {report.conflicts.length === 0 ? (
+              <p className="text-xs text-[#AEA79F] mt-1">None, the merge went through.</p>
+            ) : (
+              <ul className="mt-1 space-y-0.5">
+                {report.conflicts.map(file => (
+                  <li key={file} className="text-xs font-mono text-[#C7162B] pl-2 border-l-2 border-red-200">{file}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {report.patches.length > 0 && (
+            <div>
+              <span className="text-[#5D5D5D]">Generated patches</span>
+              <ul className="mt-1 space-y-0.5">
+                {report.patches.map(patch => (
+                  <li key={patch.url} className="text-xs">
+                    <span className="inline-block w-16 text-[#AEA79F]">{SIDE_LABELS[patch.side]}</span>
+                    <a href={patch.url} target="_blank" rel="noreferrer" className="font-mono text-[#0066CC] hover:underline break-all">{patch.name}</a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {mergedFiles.length > 0 && (
+            <div>
+              <span className="flex items-center text-[#5D5D5D]"><Download size={14} className="mr-1.5" />Merged source package</span>
+              <ul className="mt-1 space-y-0.5">
+                {mergedFiles.map(file => (
+                  <li key={file.url} className="text-xs">
+                    <a href={file.url} target="_blank" rel="noreferrer" className="font-mono text-[#0066CC] hover:underline break-all">{file.name}</a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.changesCommand && (
+            <div>
+              <span className="text-[#5D5D5D]">Generate the .changes with</span>
+              <pre className="mt-1 text-xs font-mono bg-[#F7F7F7] text-[#262626] p-2 rounded-sm overflow-x-auto">{report.changesCommand}</pre>
+            </div>
+          )}
+
+          <a href={getPackageReportUrl(pkg.name)} target="_blank" rel="noreferrer" className="block text-xs text-[#0066CC] hover:underline">
+            Full REPORT{report.generatedAt && <span className="text-[#AEA79F]"> (generated {report.generatedAt})</span>}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { MergePackage, PackageSet } from '../types';
+import { ChevronRight, UserCircle, Plus, X, Inbox } from 'lucide-react';
+import { StatusBadge, VersionGapBadge } from './Badges';
+import { AGE_BUCKETS } from '../services/filters';
+import { setIdentity, usePreferences } from '../services/preferences';
+import { filterMyMerges, isEmail, resolveIdentity } from '../services/uploaders';
+
+interface MyMergesViewProps {
+  data: MergePackage[];
+  onSelectPackage: (pkg: MergePackage) => void;
+}
+
+const COMPONENT_ORDER = Object.values(PackageSet);
+
+export const MyMergesView: React.FC<MyMergesViewProps> = ({ data, onSelectPackage }) => {
+  const { identity } = usePreferences();
+  const [draft, setDraft] = useState('');
+
+  const mine = useMemo(() => filterMyMerges(data, identity), [data, identity]);
+  const emails = useMemo(() => new Set(resolveIdentity(identity, data).flatMap(i => i.emails)), [identity, data]);
+
+  // Oldest bucket first, then by component
+  const groups = useMemo(() => [...AGE_BUCKETS].reverse().map(bucket => {
+    const inBucket = mine.filter(pkg => bucket.matches(pkg.ageInDays));
+    return {
+      bucket,
+      count: inBucket.length,
+      components: COMPONENT_ORDER
+        .map(component => ({
+          component,
+          packages: inBucket.filter(pkg => pkg.component === component).sort((a, b) => b.ageInDays - a.ageInDays)
+        }))
+        .filter(group => group.packages.length > 0)
+    };
+  }).filter(group => group.count > 0), [mine]);
+
+  const addIdentity = () => {
+    // Several entries can be pasted at once, separated by commas or new lines
+    const entries = draft.split(/[,\n]/).map(entry => entry.trim().replace(/^<|>$/g, '')).filter(Boolean);
+    if (entries.length === 0) return;
+    setIdentity([...identity, ...entries]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-6 font-ubuntu">
+      {/* Identity */}
+      <div className="bg-white p-5 rounded-sm shadow-sm border border-gray-100">
+        <h3 className="text-sm font-bold text-[#262626] mb-1 flex items-center uppercase tracking-wide">
+          <UserCircle className="w-4 h-4 mr-2 text-[#E95420]" />
+          Your Identity
+        </h3>
+        <p className="text-xs text-[#5D5D5D] mb-3">
+          Names and emails you upload with. They are matched against uploader identities, which fold the spellings and addresses of a person together.
+        </p>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {identity.map(entry => (
+            <span key={entry} className="inline-flex items-center pl-3 pr-1 py-1 rounded-full text-xs font-medium bg-[#F7F7F7] text-[#262626] border border-gray-200">
+              <span className={isEmail(entry) ? 'font-mono' : ''}>{entry}</span>
+              <button
+                onClick={() => setIdentity(identity.filter(e => e !== entry))}
+                className="ml-1 p-0.5 rounded-full text-gray-400 hover:text-[#C7162B] transition-colors"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2 max-w-lg">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addIdentity(); }}
+            placeholder="Jane Doe or jane@ubuntu.com"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-sm bg-white placeholder-gray-400 focus:outline-none focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm"
+          />
+          <button
+            onClick={addIdentity}
+            className="inline-flex items-center px-3 py-2 rounded-sm bg-[#E95420] text-white text-sm font-medium hover:bg-[#C7431A] transition-colors"
+          >
+            <Plus size={14} className="mr-1" />
+            Add
+          </button>
+        </div>
+        {emails.size > 0 && (
+          <p className="text-[11px] text-[#AEA79F] mt-3">
+            Matching uploads from <span className="font-mono">{Array.from(emails).sort().join(', ')}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Packages */}
+      {identity.length === 0 ? null : mine.length === 0 ? (
+        <div className="bg-white p-10 rounded-sm shadow-sm border border-gray-100 flex flex-col items-center text-center">
+          <Inbox className="h-10 w-10 text-[#AEA79F] mb-4" />
+          <h3 className="text-lg font-bold text-[#262626] mb-2">Nothing pending</h3>
+          <p className="text-sm text-[#5D5D5D] max-w-md">
+            None of the packages waiting for a merge were last uploaded by you.
+          </p>
+        </div>
+      ) : groups.map(({ bucket, count, components }) => (
+        <div key={bucket.id} className="bg-white rounded-sm shadow-sm border border-gray-100">
+          <div className="p-4 border-b border-gray-100 flex items-baseline">
+            <h3 className="text-sm font-bold text-[#262626] uppercase tracking-wide">{bucket.label}</h3>
+            <span className="ml-2 text-xs text-[#AEA79F]">{count} package{count === 1 ? '' : 's'}</span>
+          </div>
+          {components.map(({ component, packages }) => (
+            <div key={component}>
+              <p className="px-6 py-2 bg-[#FAFAFA] text-xs font-bold text-[#5D5D5D] uppercase tracking-wider border-b border-gray-100">
+                {component} <span className="font-normal text-[#AEA79F]">{packages.length}</span>
+              </p>
+              <ul className="divide-y divide-gray-100">
+                {packages.map(pkg => (
+                  <li
+                    key={pkg.id}
+                    onClick={() => onSelectPackage(pkg)}
+                    className="px-6 py-3 flex items-center justify-between cursor-pointer hover:bg-gray-50 transition-colors group"
+                  >
+                    <div className="flex items-center min-w-0 gap-3">
+                      <span className="text-sm font-medium text-[#262626] truncate">{pkg.name}</span>
+                      <StatusBadge status={pkg.status} title={pkg.statusText} />
+                      <span className="hidden md:inline"><VersionGapBadge gap={pkg.versionGap} /></span>
+                    </div>
+                    <div className="flex items-center shrink-0 ml-4">
+                      <span className="text-sm text-[#5D5D5D] mr-4">{pkg.age}</span>
+                      <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-[#E95420]" />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { MergePackage } from '../types';
+import { ChevronRight, ListOrdered } from 'lucide-react';
+import { ComponentBadge, PriorityBadge, VersionGapBadge } from './Badges';
+import { DEFAULT_LIST_STATE } from '../services/filters';
+import { encodeListState, navigate, pathForView } from '../services/router';
+import { getPriorityQueue, getScores } from '../services/scoring';
+
+interface NextUpPanelProps {
+  data: MergePackage[];
+  onSelectPackage: (pkg: MergePackage) => void;
+}
+
+const QUEUE_SIZE = 10;
+
+export const NextUpPanel: React.FC<NextUpPanelProps> = ({ data, onSelectPackage }) => {
+  const queue = useMemo(() => getPriorityQueue(data, QUEUE_SIZE), [data]);
+  const scores = getScores(data);
+
+  const openList = () =>
+    navigate(pathForView('list', encodeListState({ ...DEFAULT_LIST_STATE, sortField: 'priority', sortAsc: false })));
+
+  return (
+    <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-100 pb-4">
+        <div className="flex items-center">
+          <ListOrdered className="text-[#E95420] mr-2" size={20} />
+          <h3 className="text-xl font-light text-[#262626]">Next Up</h3>
+          <span className="ml-2 text-xs text-[#AEA79F]">by merge priority</span>
+        </div>
+        <button onClick={openList} className="text-sm text-[#0066CC] hover:underline">
+          Full queue
+        </button>
+      </div>
+
+      <ol className="divide-y divide-gray-100">
+        {queue.map((pkg, i) => {
+          const { score, factors } = scores.get(pkg.id)!;
+          // Biggest contributors, as a hint of why it ranks here
+          const reasons = [...factors].sort((a, b) => b.points - a.points).slice(0, 2).map(f => f.detail);
+          return (
+            <li
+              key={pkg.id}
+              onClick={() => onSelectPackage(pkg)}
+              className="py-2 flex items-center justify-between cursor-pointer group"
+            >
+              <div className="flex items-center min-w-0 gap-3">
+                <span className="w-5 text-right text-xs text-[#AEA79F] tabular-nums">{i + 1}</span>
+                <PriorityBadge score={score} />
+                <span className="text-sm font-medium text-[#262626] truncate group-hover:text-[#E95420]">{pkg.name}</span>
+                <span className="hidden md:inline"><ComponentBadge component={pkg.component} /></span>
+                <span className="hidden lg:inline"><VersionGapBadge gap={pkg.versionGap} /></span>
+              </div>
+              <div className="flex items-center shrink-0 ml-4">
+                <span className="hidden sm:inline text-xs text-[#AEA79F] mr-3">{reasons.join(' · ')}</span>
+                <ChevronRight className="h-4 w-4 text-gray-400 group-hover:text-[#E95420]" />
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
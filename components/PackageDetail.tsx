@@ -1,22 +1,37 @@
 
 import React, { useState, useEffect } from 'react';
-import { MergePackage, PackageSet } from '../types';
-import { X, ExternalLink, Users, User, FileText, ArrowRightLeft } from 'lucide-react';
+import { MergePackage, PackageSet, UbuntuDelta } from '../types';
+import { X, ExternalLink, Users, User, FileText, ArrowRightLeft, Star } from 'lucide-react';
 import { ChangelogModal } from './ChangelogModal';
 import { ComparisonModal } from './ComparisonModal';
+import { StatusBadge } from './Badges';
+import { UbuntuDeltaPanel } from './UbuntuDeltaPanel';
+import { PriorityPanel } from './PriorityPanel';
+import { ClaimPanel } from './ClaimPanel';
+import { LaunchpadPanel } from './LaunchpadPanel';
+import { DebianPanel } from './DebianPanel';
+import { MergeReportPanel } from './MergeReportPanel';
+import { isWatched, toggleWatched, usePreferences } from '../services/preferences';
+import { parseUploader } from '../services/uploaders';
+import { navigate, teamPath } from '../services/router';
+import { getDebianTrackerUrl, getLaunchpadSourceUrl, getPackageReportUrl } from '../services/upstream';
 
 interface PackageDetailProps {
   pkg: MergePackage | null;
+  data: MergePackage[]; // Full list, for the priority score
   onClose: () => void;
 }
 
-export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) => {
+export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, data, onClose }) => {
   const [changelogVariant, setChangelogVariant] = useState<'ubuntu' | 'debian' | null>(null);
   const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [delta, setDelta] = useState<UbuntuDelta | null>(null);
+  const prefs = usePreferences();
 
   useEffect(() => {
     setChangelogVariant(null);
     setIsCompareOpen(false);
+    setDelta(null);
   }, [pkg]);
 
   if (!pkg) return null;
@@ -36,22 +51,8 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
     }
   };
 
-  // Logic to determine prefix for merges.ubuntu.com URL (standard repo layout)
-  const getMergeReportUrl = () => {
-    const prefix = pkg.name.startsWith('lib') ? pkg.name.substring(0, 4) : pkg.name.substring(0, 1);
-    return `https://merges.ubuntu.com/${prefix}/${pkg.name}/REPORT`;
-  };
-
-  // Parse Uploader
-  const parseUploader = (raw: string) => {
-    if (!raw || raw === 'Unknown') return { name: 'Unknown', email: null };
-    const parts = raw.split('<');
-    const name = parts[0].trim();
-    const email = parts[1] ? parts[1].replace('>', '').trim() : null;
-    return { name, email };
-  };
-
   const { name: uploaderName, email: uploaderEmail } = parseUploader(pkg.uploader);
+  const watched = isWatched(prefs, pkg.name);
 
   return (
     <>
@@ -74,16 +75,29 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-sm text-xs font-bold uppercase tracking-wide ${getComponentBadgeClass(pkg.component)}`}>
                   {pkg.component}
                 </span>
+                <StatusBadge status={pkg.status} title={pkg.statusText} />
               </div>
             </div>
-            <button 
-              type="button" 
-              className="rounded-md text-[#AEA79F] hover:text-white focus:outline-none transition-colors"
-              onClick={onClose}
-            >
-              <span className="sr-only">Close panel</span>
-              <X className="h-6 w-6" />
-            </button>
+            <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                className={`rounded-md focus:outline-none transition-colors ${watched ? 'text-[#E95420] hover:text-[#F47A50]' : 'text-[#AEA79F] hover:text-white'}`}
+                onClick={() => toggleWatched(pkg.name)}
+                title={watched ? 'Remove from watchlist' : 'Add to watchlist'}
+                aria-pressed={watched}
+              >
+                <span className="sr-only">{watched ? 'Remove from watchlist' : 'Add to watchlist'}</span>
+                <Star className={`h-6 w-6 ${watched ? 'fill-current' : ''}`} />
+              </button>
+              <button 
+                type="button" 
+                className="rounded-md text-[#AEA79F] hover:text-white focus:outline-none transition-colors"
+                onClick={onClose}
+              >
+                <span className="sr-only">Close panel</span>
+                <X className="h-6 w-6" />
+              </button>
+            </div>
           </div>
 
           {/* Content */}
@@ -150,6 +164,24 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
               </div>
             </div>
 
+            {/* Who is working on it */}
+            <ClaimPanel pkg={pkg} />
+
+            {/* Priority score breakdown */}
+            <PriorityPanel pkg={pkg} data={data} delta={delta} />
+
+            {/* Base version, conflicts and generated files from merges.ubuntu.com */}
+            <MergeReportPanel pkg={pkg} />
+
+            {/* Ubuntu Delta Section */}
+            <UbuntuDeltaPanel pkg={pkg} onLoaded={setDelta} />
+
+            {/* Bugs, latest upload and merge proposals */}
+            <LaunchpadPanel pkg={pkg} />
+
+            {/* Testing migration, RC bugs and maintainer */}
+            <DebianPanel pkg={pkg} />
+
             {/* Teams Section */}
             {pkg.teams && pkg.teams.length > 0 && (
               <div className="mb-8">
@@ -159,9 +191,14 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
                 </h3>
                 <div className="flex flex-wrap gap-2">
                   {pkg.teams.map((team, idx) => (
-                    <span key={idx} className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-white text-[#5D5D5D] border border-gray-200 shadow-sm">
+                    <button
+                      key={idx}
+                      onClick={() => navigate(teamPath(team))}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-white text-[#5D5D5D] border border-gray-200 shadow-sm hover:text-[#77216F] hover:border-[#77216F] transition-colors"
+                      title="Open team workload"
+                    >
                       {team}
-                    </span>
+                    </button>
                   ))}
                 </div>
               </div>
@@ -172,7 +209,7 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
               <h3 className="text-sm font-bold text-[#262626] mb-3 uppercase tracking-wide">External Resources</h3>
               <div className="flex flex-col space-y-3">
                 <a 
-                  href={`https://launchpad.net/ubuntu/+source/${pkg.name}`} 
+                  href={getLaunchpadSourceUrl(pkg.name)} 
                   target="_blank" 
                   rel="noreferrer"
                   className="flex items-center text-sm text-[#0066CC] hover:underline decoration-1"
@@ -181,7 +218,7 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
                   View on Launchpad
                 </a>
                 <a 
-                  href={`https://tracker.debian.org/pkg/${pkg.name}`} 
+                  href={getDebianTrackerUrl(pkg.name)} 
                   target="_blank" 
                   rel="noreferrer"
                   className="flex items-center text-sm text-[#0066CC] hover:underline decoration-1"
@@ -190,7 +227,7 @@ export const PackageDetail: React.FC<PackageDetailProps> = ({ pkg, onClose }) =>
                   Debian Package Tracker
                 </a>
                 <a 
-                  href={getMergeReportUrl()}
+                  href={getPackageReportUrl(pkg.name)}
                   target="_blank" 
                   rel="noreferrer"
                   className="flex items-center text-sm text-[#0066CC] hover:underline decoration-1"
@@ -1,137 +1,171 @@
 
-import React, { useState, useMemo } from 'react';
-import { MergePackage, PackageSet } from '../types';
-import { Search, ChevronRight, Clock, Filter, ArrowUpDown, User, Layers } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { MergePackage } from '../types';
+import { ChevronRight, ArrowUpDown, Bookmark, Star, Loader2 } from 'lucide-react';
+import { FilterBar } from './FilterBar';
+import { ExportMenu } from './ExportMenu';
+import { COLUMN_LABELS, ColumnsMenu } from './ColumnsMenu';
+import { ClaimBadge, ComponentBadge, DebianStateBadge, PriorityBadge, StatusBadge, SyncCandidateBadge, VersionGapBadge } from './Badges';
+import { ListState, SortField, filterPackages, getFilterOptions, getUploaderName, sortPackages } from '../services/filters';
+import { compileQuery, mentionsField, setFieldSelection } from '../services/query';
+import { getScores } from '../services/scoring';
+import { OptionalColumn, isWatched, saveView, usePreferences } from '../services/preferences';
+import { useClaims } from '../services/claims';
+import { LaunchpadInfo, useLaunchpadInfos } from '../services/launchpad';
+import { DebianPackageInfo, getDebianState, useDebianMetadata } from '../services/debian';
+import { MergeReport, useMergeReports } from '../services/mergeReport';
+import { SyncAnalysis, getAnalysisKey, useSyncAnalyses } from '../services/syncCandidates';
 
 interface PackageListProps {
   data: MergePackage[];
   onSelectPackage: (pkg: MergePackage) => void;
-  initialFilterTeam?: string;
+  // Filters, sort and page are owned by the URL (see services/router.ts)
+  state: ListState;
+  onStateChange: (state: ListState, replace?: boolean) => void;
 }
 
 const ITEMS_PER_PAGE = 25;
 
-type SortField = 'name' | 'ageInDays' | 'ubuntuVersion' | 'debianVersion' | 'uploader';
+const LAUNCHPAD_COLUMNS: OptionalColumn[] = ['launchpadBugs', 'launchpadUpload', 'mergeProposals'];
 
-export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage, initialFilterTeam }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterComponent, setFilterComponent] = useState<PackageSet | 'All'>('All');
-  const [filterTeam, setFilterTeam] = useState<string>(initialFilterTeam || 'All');
-  const [filterAge, setFilterAge] = useState<string>('All');
-  const [filterUploader, setFilterUploader] = useState<string>('All');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [sortField, setSortField] = useState<SortField>('ageInDays');
-  const [sortAsc, setSortAsc] = useState(false); // Default descending for Age
-
-  // Helper to extract name from "First Last <email>" format
-  const getUploaderName = (fullString: string) => {
-    if (!fullString || fullString === 'Unknown') return 'Unknown';
-    // Split by '<' to separate name from email, then trim whitespace
-    return fullString.split('<')[0].trim();
-  };
-
-  // Extract Unique Teams
-  const uniqueTeams = useMemo(() => {
-    const teams = new Set<string>();
-    data.forEach(pkg => pkg.teams.forEach(t => teams.add(t)));
-    return Array.from(teams).sort();
-  }, [data]);
-
-  // Extract Unique Uploaders (Names only)
-  const uniqueUploaders = useMemo(() => {
-    const uploaders = new Set<string>();
-    data.forEach(pkg => {
-      if (pkg.uploader && pkg.uploader !== 'Unknown') {
-        const name = getUploaderName(pkg.uploader);
-        uploaders.add(name);
-      }
-    });
-    return Array.from(uploaders).sort();
-  }, [data]);
-
-  // Filter Logic
-  const filteredData = data.filter(pkg => {
-    const pkgName = pkg.name || ''; 
-    const matchesSearch = pkgName.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesComponent = filterComponent === 'All' || pkg.component === filterComponent;
-    const matchesTeam = filterTeam === 'All' || pkg.teams.includes(filterTeam);
-    
-    // For uploader filter, compare against the extracted name
-    const uploaderName = getUploaderName(pkg.uploader);
-    const matchesUploader = filterUploader === 'All' || uploaderName === filterUploader;
-    
-    let matchesAge = true;
-    if (filterAge !== 'All') {
-       if (filterAge === '< 1 Week') matchesAge = pkg.ageInDays < 7;
-       else if (filterAge === '1-4 Weeks') matchesAge = pkg.ageInDays >= 7 && pkg.ageInDays <= 30;
-       else if (filterAge === '1-6 Months') matchesAge = pkg.ageInDays > 30 && pkg.ageInDays <= 180;
-       else if (filterAge === '> 6 Months') matchesAge = pkg.ageInDays > 180;
+// Cell of an optional column. Launchpad info, reports and analyses are undefined while loading and null when unavailable.
+const renderOptionalCell = (
+  column: OptionalColumn,
+  pkg: MergePackage,
+  info: LaunchpadInfo | null | undefined,
+  debianInfo: DebianPackageInfo | undefined,
+  report: MergeReport | null | undefined,
+  analysis: SyncAnalysis | null | undefined
+) => {
+  if (column === 'debianStatus') return <DebianStateBadge state={getDebianState(pkg, debianInfo)} />;
+  if (column === 'deltaAbsorbed') {
+    if (analysis === undefined) return <Loader2 size={14} className="animate-spin text-gray-300" />;
+    if (analysis === null) return <span className="text-xs text-gray-400">-</span>;
+    if (analysis.verdict === 'unknown') return <span className="text-xs text-gray-400" title="No change could be read from the Ubuntu delta">?</span>;
+    const total = analysis.changes.length;
+    return (
+      <span
+        className={`text-sm ${analysis.verdict === 'candidate' ? 'text-[#0066CC] font-medium' : analysis.verdict === 'partial' ? 'text-[#5D5D5D]' : 'text-gray-400'}`}
+        title={analysis.changes.map(change => `${change.match ? '✓' : '✗'} ${change.text}`).join('\n')}
+      >
+        {analysis.absorbed}/{total}
+      </span>
+    );
+  }
+  if (column === 'conflicts') {
+    if (report === undefined) return <Loader2 size={14} className="animate-spin text-gray-300" />;
+    if (report === null) return <span className="text-xs text-gray-400">-</span>;
+    return report.conflicts.length > 0 ? (
+      <span className="text-sm text-[#C7162B] font-medium" title={report.conflicts.join('\n')}>{report.conflicts.length}</span>
+    ) : <span className="text-xs text-gray-400">0</span>;
+  }
+  if (info === undefined) return <Loader2 size={14} className="animate-spin text-gray-300" />;
+  if (info === null) return <span className="text-xs text-gray-400">-</span>;
+  switch (column) {
+    case 'launchpadBugs': {
+      const needsMerge = info.needsMergeBugs?.length ?? 0;
+      return (
+        <span className="text-sm text-[#5D5D5D]">
+          {info.openBugs ?? '-'}
+          {needsMerge > 0 && <span className="ml-1.5 text-xs text-[#E95420]" title="Needs-merge bugs">{needsMerge} merge</span>}
+        </span>
+      );
     }
+    case 'launchpadUpload':
+      return info.latestUpload ? (
+        <span className="text-xs text-[#5D5D5D]" title={`${info.latestUpload.series}-${info.latestUpload.pocket.toLowerCase()}, ${info.latestUpload.status}`}>
+          <span className="font-mono">{info.latestUpload.version}</span>
+          {info.latestUpload.date && <span className="ml-1.5 text-[#AEA79F]">{info.latestUpload.date.slice(0, 10)}</span>}
+        </span>
+      ) : <span className="text-xs text-gray-400">-</span>;
+    case 'mergeProposals':
+      return info.mergeProposals && info.mergeProposals.length > 0 ? (
+        <span className="text-sm text-[#77216F] font-medium" title={info.mergeProposals.map(mp => `${mp.source} (${mp.status})`).join('\n')}>
+          {info.mergeProposals.length}
+        </span>
+      ) : <span className="text-xs text-gray-400">{info.mergeProposals ? 0 : '-'}</span>;
+  }
+};
 
-    return matchesSearch && matchesComponent && matchesTeam && matchesAge && matchesUploader;
-  });
-
-  // Sort Logic
-  const sortedData = [...filteredData].sort((a, b) => {
-    let valA: any = a[sortField];
-    let valB: any = b[sortField];
+export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage, state, onStateChange }) => {
+  const { query, sortField, sortAsc } = state;
+  const prefs = usePreferences();
+  const claims = useClaims();
 
-    // Special handling for uploader sorting to sort by Name not full string
-    if (sortField === 'uploader') {
-      valA = getUploaderName(a.uploader);
-      valB = getUploaderName(b.uploader);
-    }
+  // Unique Teams and Uploaders (Names only) for the dropdowns
+  const { teams: uniqueTeams, uploaders: uniqueUploaders } = useMemo(() => getFilterOptions(data), [data]);
 
-    if (typeof valA === 'string') valA = valA.toLowerCase();
-    if (typeof valB === 'string') valB = valB.toLowerCase();
+  // Filter Logic
+  const parsedQuery = useMemo(() => compileQuery(query), [query]);
+  // Sorting by conflicts shows their column
+  const columns: OptionalColumn[] = sortField === 'conflicts' && !prefs.columns.includes('conflicts')
+    ? [...prefs.columns, 'conflicts']
+    : prefs.columns;
+  // Debian metadata is loaded for every package once the query filters on it
+  const usesDebian = !!parsedQuery.node && (mentionsField(parsedQuery.node, 'debian') || mentionsField(parsedQuery.node, 'maintainer'));
+  const allNames = useMemo(() => data.map(pkg => pkg.name), [data]);
+  const debian = useDebianMetadata(allNames, usesDebian);
+  // sync: matches the analyses made so far (visible pages, opened packages); the rest of the packages the
+  // query keeps are only analyzed on request, for as long as the query stays the same
+  const usesSync = !!parsedQuery.node && mentionsField(parsedQuery.node, 'sync');
+  const syncScope = useMemo(
+    () => usesSync ? filterPackages(data, compileQuery(setFieldSelection(query, 'sync', 'All')), { claims, debian }) : [],
+    [usesSync, data, query, claims, debian]
+  );
+  const [analyzeQuery, setAnalyzeQuery] = useState<string | null>(null);
+  const analyzing = usesSync && analyzeQuery === query;
+  const sync = useSyncAnalyses(syncScope, analyzing);
+  const analyzedCount = syncScope.filter(pkg => sync[getAnalysisKey(pkg)]).length;
+  const filteredData = useMemo(
+    () => filterPackages(data, parsedQuery, { claims, debian, sync }),
+    [data, parsedQuery, claims, debian, sync]
+  );
 
-    if (valA < valB) return sortAsc ? -1 : 1;
-    if (valA > valB) return sortAsc ? 1 : -1;
-    return 0;
-  });
+  // Sort Logic. Conflict counts come from the REPORTs loaded so far (the visible pages', see below, or
+  // every matching package's on request); other sorts don't re-run as they arrive.
+  const [loadReportsQuery, setLoadReportsQuery] = useState<string | null>(null);
+  const loadingReports = sortField === 'conflicts' && loadReportsQuery === query;
+  const filteredNames = useMemo(() => filteredData.map(pkg => pkg.name), [filteredData]);
+  const reports = useMergeReports(filteredNames, loadingReports);
+  const sortReports = sortField === 'conflicts' ? reports : null;
+  const reportCount = sortField === 'conflicts' ? filteredNames.filter(name => name in reports).length : 0;
+  const sortedData = useMemo(
+    () => sortPackages(filteredData, sortField, sortAsc, data, sortReports || {}),
+    [filteredData, sortField, sortAsc, data, sortReports]
+  );
+  const scores = getScores(data);
 
   // Pagination Logic
   const totalPages = Math.ceil(sortedData.length / ITEMS_PER_PAGE);
+  const currentPage = Math.min(state.page, Math.max(totalPages, 1));
+  const setCurrentPage = (update: (page: number) => number) => onStateChange({ ...state, page: update(currentPage) });
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
   const currentData = sortedData.slice(startIndex, startIndex + ITEMS_PER_PAGE);
+  const pageNames = currentData.map(pkg => pkg.name);
+
+  // Optional columns; Launchpad data is only loaded for the current page
+  const launchpad = useLaunchpadInfos(pageNames, columns.some(c => LAUNCHPAD_COLUMNS.includes(c)));
+  // and the Debian column only needs the current page
+  useDebianMetadata(pageNames, columns.includes('debianStatus'));
+  useMergeReports(pageNames, columns.includes('conflicts'));
+  useSyncAnalyses(currentData, columns.includes('deltaAbsorbed'));
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(e.target.value);
-    setCurrentPage(1);
+  const handleQueryChange = (next: string, typed?: boolean) => {
+    // Typing in the search box replaces the history entry instead of adding one per keystroke
+    onStateChange({ ...state, query: next, page: 1 }, typed);
+  };
+
+  const handleSaveView = () => {
+    const name = window.prompt('Name this view', '')?.trim();
+    if (name) saveView(name, { query, sortField, sortAsc });
   };
 
   const toggleSort = (field: SortField) => {
     if (sortField === field) {
-      setSortAsc(!sortAsc);
+      onStateChange({ ...state, sortAsc: !sortAsc });
     } else {
-      setSortField(field);
-      setSortAsc(true);
-    }
-  };
-
-  const getComponentBadge = (component: PackageSet) => {
-    let classes = "";
-    switch(component) {
-      case PackageSet.MAIN:
-        classes = "text-[#E95420] bg-orange-100";
-        break;
-      case PackageSet.UNIVERSE:
-        classes = "text-[#77216F] bg-purple-100";
-        break;
-      case PackageSet.RESTRICTED:
-        classes = "text-yellow-800 bg-yellow-200";
-        break;
-      case PackageSet.MULTIVERSE:
-        classes = "text-blue-800 bg-blue-200";
-        break;
-      default:
-        classes = "text-gray-700 bg-gray-100";
+      onStateChange({ ...state, sortField: field, sortAsc: true });
     }
-    return (
-      <span className={`inline-flex items-center px-2 py-0.5 rounded-sm text-xs font-medium ${classes}`}>
-        {component}
-      </span>
-    );
   };
 
   const getAgeRowClass = (days: number) => {
@@ -161,91 +195,57 @@ export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage,
   return (
     <div className="bg-white rounded-sm shadow-sm border border-gray-100 flex flex-col h-full font-ubuntu">
       {/* Filters Header */}
-      <div className="p-4 border-b border-gray-100 flex flex-col xl:flex-row xl:items-center justify-between gap-4 bg-[#FAFAFA]">
-        <div className="flex flex-1 gap-2 flex-col sm:flex-row flex-wrap">
-          <div className="relative flex-1 min-w-[200px] max-w-md">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <Search className="h-4 w-4 text-gray-400" />
-            </div>
-            <input
-              type="text"
-              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-sm leading-5 bg-white placeholder-gray-400 focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors"
-              placeholder="Search packages..."
-              value={searchTerm}
-              onChange={handleSearchChange}
-            />
-          </div>
+      <FilterBar
+        query={query}
+        onChange={handleQueryChange}
+        teams={uniqueTeams}
+        uploaders={uniqueUploaders}
+      >
+        <button
+          onClick={handleSaveView}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-sm bg-white text-sm text-[#5D5D5D] hover:text-[#262626] hover:border-[#AEA79F] transition-colors"
+          title="Save the current filters and sort order"
+        >
+          <Bookmark size={14} className="mr-1.5" />
+          Save view
+        </button>
+        <ColumnsMenu />
+        <ExportMenu packages={sortedData} data={data} />
+      </FilterBar>
 
-          <div className="flex gap-2 flex-wrap">
-             {/* Component Filter - Moved here as a dropdown */}
-            <div className="relative min-w-[150px]">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Layers className="h-4 w-4 text-gray-400" />
-              </div>
-              <select 
-                value={filterComponent}
-                onChange={(e) => { setFilterComponent(e.target.value as any); setCurrentPage(1); }}
-                className="block w-full pl-10 pr-8 py-2 border border-gray-300 rounded-sm leading-5 bg-white focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors appearance-none"
-              >
-                <option value="All">All Components</option>
-                <option value="Main">Main</option>
-                <option value="Universe">Universe</option>
-                <option value="Restricted">Restricted</option>
-                <option value="Multiverse">Multiverse</option>
-              </select>
-            </div>
-
-            <div className="relative min-w-[160px]">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Filter className="h-4 w-4 text-gray-400" />
-              </div>
-              <select 
-                value={filterTeam}
-                onChange={(e) => { setFilterTeam(e.target.value); setCurrentPage(1); }}
-                className="block w-full pl-10 pr-8 py-2 border border-gray-300 rounded-sm leading-5 bg-white focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors appearance-none"
-              >
-                <option value="All">All Teams</option>
-                {uniqueTeams.map(team => (
-                  <option key={team} value={team}>{team}</option>
-                ))}
-              </select>
-            </div>
-
-            <div className="relative min-w-[160px]">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <User className="h-4 w-4 text-gray-400" />
-              </div>
-              <select 
-                value={filterUploader}
-                onChange={(e) => { setFilterUploader(e.target.value); setCurrentPage(1); }}
-                className="block w-full pl-10 pr-8 py-2 border border-gray-300 rounded-sm leading-5 bg-white focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors appearance-none"
-              >
-                <option value="All">All Uploaders</option>
-                {uniqueUploaders.map(u => (
-                  <option key={u} value={u}>{u}</option>
-                ))}
-              </select>
-            </div>
+      {sortField === 'conflicts' && reportCount < filteredNames.length && (
+        <div className="flex items-center justify-between px-6 py-2 text-xs text-[#5D5D5D] bg-[#F7F7F7] border-b border-gray-200">
+          <span className="flex items-center">
+            {loadingReports && <Loader2 size={12} className="animate-spin mr-1.5" />}
+            Sorted by the {reportCount} of {filteredNames.length} REPORTs loaded so far; the other packages follow, conflicting merges first
+          </span>
+          <button
+            onClick={() => setLoadReportsQuery(loadingReports ? null : query)}
+            className="ml-4 text-[#E95420] hover:underline"
+            title="Reads the merge REPORT of every matching package, four at a time"
+          >
+            {loadingReports ? 'Stop' : 'Load all REPORTs'}
+          </button>
+        </div>
+      )}
 
-            <div className="relative min-w-[140px]">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Clock className="h-4 w-4 text-gray-400" />
-              </div>
-              <select 
-                value={filterAge}
-                onChange={(e) => { setFilterAge(e.target.value); setCurrentPage(1); }}
-                className="block w-full pl-10 pr-8 py-2 border border-gray-300 rounded-sm leading-5 bg-white focus:outline-none focus:bg-white focus:border-[#E95420] focus:ring-1 focus:ring-[#E95420] sm:text-sm transition-colors appearance-none"
-              >
-                <option value="All">Any Age</option>
-                <option value="< 1 Week">&lt; 1 Week</option>
-                <option value="1-4 Weeks">1-4 Weeks</option>
-                <option value="1-6 Months">1-6 Months</option>
-                <option value="> 6 Months">&gt; 6 Months</option>
-              </select>
-            </div>
-          </div>
+      {usesSync && syncScope.length > 0 && (
+        <div className="flex items-center justify-between px-6 py-2 text-xs text-[#5D5D5D] bg-[#F7F7F7] border-b border-gray-200">
+          <span className="flex items-center">
+            {analyzing && analyzedCount < syncScope.length && <Loader2 size={12} className="animate-spin mr-1.5" />}
+            Delta analyzed for {analyzedCount} of {syncScope.length} packages matching the rest of the query
+          </span>
+          {analyzedCount < syncScope.length && (
+            <button
+              onClick={() => setAnalyzeQuery(analyzing ? null : query)}
+              className="ml-4 text-[#E95420] hover:underline"
+              title="Each analysis reads the Ubuntu and Debian changelogs"
+            >
+              {analyzing ? 'Stop' : 'Analyze the rest'}
+            </button>
+          )}
         </div>
-      </div>
+      )}
 
       {/* Table */}
       <div className="overflow-x-auto">
@@ -253,12 +253,24 @@ export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage,
           <thead className="bg-[#F7F7F7]">
             <tr>
               <SortHeader field="name" label="Package" />
+              <SortHeader field="status" label="Status" hideOnMobile={true} />
               <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden md:table-cell">Component</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden xl:table-cell">Team</th>
               <SortHeader field="ubuntuVersion" label="Ubuntu" hideOnMobile={true} />
               <SortHeader field="debianVersion" label="Debian" hideOnMobile={true} />
+              <SortHeader field="versionGap" label="Gap" hideOnMobile={true} />
               <SortHeader field="ageInDays" label="Age" />
+              <SortHeader field="priority" label="Priority" hideOnMobile={true} />
               <SortHeader field="uploader" label="Uploader" hideOnMobile={true} />
+              {columns.map(column => column === 'conflicts' ? (
+                <React.Fragment key={column}>
+                  <SortHeader field="conflicts" label={COLUMN_LABELS[column]} hideOnMobile={true} />
+                </React.Fragment>
+              ) : (
+                <th key={column} scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden lg:table-cell">
+                  {COLUMN_LABELS[column]}
+                </th>
+              ))}
               <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>
             </tr>
           </thead>
@@ -273,12 +285,18 @@ export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage,
                     className={`cursor-pointer transition-colors group border-b border-gray-100 last:border-0 ${ageRowClass}`}
                   >
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className={`text-sm font-medium ${pkg.name.startsWith('Unknown (') ? 'text-red-500 font-mono text-xs' : 'text-[#262626]'}`}>
+                      <div className={`flex items-center text-sm font-medium ${pkg.name.startsWith('Unknown (') ? 'text-red-500 font-mono text-xs' : 'text-[#262626]'}`}>
                         {pkg.name}
+                        {isWatched(prefs, pkg.name) && <Star size={12} className="ml-1.5 text-[#E95420] fill-current" aria-label="Watched" />}
+                        {claims[pkg.name] && <span className="ml-2"><ClaimBadge claim={claims[pkg.name]} /></span>}
+                        {sync[getAnalysisKey(pkg)]?.verdict === 'candidate' && <span className="ml-2"><SyncCandidateBadge analysis={sync[getAnalysisKey(pkg)]!} /></span>}
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap hidden lg:table-cell">
+                      <StatusBadge status={pkg.status} title={pkg.statusText} />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap hidden md:table-cell">
-                      {getComponentBadge(pkg.component)}
+                      <ComponentBadge component={pkg.component} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap hidden xl:table-cell">
                       {pkg.teams.length > 0 ? (
@@ -295,14 +313,25 @@ export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage,
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[#5D5D5D] font-mono hidden sm:table-cell">
                       {pkg.debianVersion}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap hidden lg:table-cell">
+                      <VersionGapBadge gap={pkg.versionGap} />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#262626]">
                       {pkg.age}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap hidden lg:table-cell">
+                      <PriorityBadge score={scores.get(pkg.id)!.score} title="Merge priority, see the package details for the breakdown" />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[#5D5D5D] hidden lg:table-cell">
                       <span className="truncate max-w-[220px] inline-block align-middle" title={pkg.uploader}>
                         {pkg.uploader !== 'Unknown' ? getUploaderName(pkg.uploader) : <span className="text-gray-400">-</span>}
                       </span>
                     </td>
+                    {columns.map(column => (
+                      <td key={column} className="px-6 py-4 whitespace-nowrap hidden lg:table-cell">
+                        {renderOptionalCell(column, pkg, launchpad[pkg.name], debian[pkg.name], reports[pkg.name], sync[getAnalysisKey(pkg)])}
+                      </td>
+                    ))}
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-[#E95420]" />
                     </td>
@@ -311,7 +340,7 @@ export const PackageList: React.FC<PackageListProps> = ({ data, onSelectPackage,
               })
             ) : (
               <tr>
-                <td colSpan={8} className="px-6 py-10 text-center text-sm text-gray-500">
+                <td colSpan={11 + columns.length} className="px-6 py-10 text-center text-sm text-gray-500">
                   No packages found matching your criteria.
                 </td>
               </tr>
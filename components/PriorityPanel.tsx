@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { MergePackage, UbuntuDelta } from '../types';
+import { Gauge } from 'lucide-react';
+import { PriorityBadge } from './Badges';
+import { scorePackage } from '../services/scoring';
+
+interface PriorityPanelProps {
+  pkg: MergePackage;
+  data: MergePackage[];
+  delta: UbuntuDelta | null; // Refines the delta and uploader factors once the changelog has been read
+}
+
+export const PriorityPanel: React.FC<PriorityPanelProps> = ({ pkg, data, delta }) => {
+  const { score, factors } = useMemo(() => scorePackage(pkg, data, { delta: delta ?? undefined }), [pkg, data, delta]);
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-[#262626] mb-3 flex items-center uppercase tracking-wide">
+        <Gauge className="w-4 h-4 mr-2 text-[#E95420]" />
+        Merge Priority
+        <span className="ml-2"><PriorityBadge score={score} /></span>
+      </h3>
+      <div className="bg-white p-4 rounded-sm border border-gray-100 shadow-sm space-y-3">
+        {factors.map(factor => (
+          <div key={factor.id}>
+            <div className="flex items-baseline justify-between text-xs">
+              <span className="font-medium text-[#262626]">{factor.label}</span>
+              <span className="text-[#5D5D5D] tabular-nums">
+                {Math.round(factor.points)} / {factor.weight}
+              </span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full mt-1 overflow-hidden">
+              <div className="h-full bg-[#E95420] rounded-full" style={{ width: `${factor.value * 100}%` }}></div>
+            </div>
+            <p className="text-[11px] text-[#AEA79F] mt-0.5">{factor.detail}</p>
+          </div>
+        ))}
+        {!delta && (
+          <p className="text-[11px] text-[#5D5D5D] pt-1 border-t border-gray-100">
+            The list scores without the changelog; the delta and uploader factors are refined once the Ubuntu changelog is read.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
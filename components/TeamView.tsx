@@ -0,0 +1,243 @@
+import React, { useMemo } from 'react';
+import { ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Cell } from 'recharts';
+import { MergePackage, PackageSet } from '../types';
+import { ArrowLeft, ChevronRight, List, Users, UserCheck, Hourglass, BarChart3 } from 'lucide-react';
+import { ComponentBadge, StatusBadge } from './Badges';
+import { AGE_BUCKETS, normalizeQueryValue } from '../services/filters';
+import { setFieldSelection } from '../services/query';
+import { encodeFilters, navigate, pathForView, teamPath } from '../services/router';
+import { getTeamPackages, getWorkloadMatrix, summarizeTeams } from '../services/teams';
+import { summarizeUploaders } from '../services/uploaders';
+import { median } from '../services/history';
+
+interface TeamViewProps {
+  data: MergePackage[];
+  team?: string; // No team: overview of all teams
+  onSelectPackage: (pkg: MergePackage) => void;
+}
+
+const COMPARISON_SIZE = 15;
+
+// Package List filtered on the team, plus optional component / age bucket
+const openList = (team: string, component?: PackageSet, age?: string) => {
+  let query = setFieldSelection('', 'team', team);
+  if (component) query = setFieldSelection(query, 'component', normalizeQueryValue(component));
+  if (age) query = setFieldSelection(query, 'age', age);
+  navigate(pathForView('list', encodeFilters(query)));
+};
+
+const Stat: React.FC<{ label: string; value: string | number; subtext?: string }> = ({ label, value, subtext }) => (
+  <div className="bg-white p-5 rounded-sm shadow-sm border border-gray-100">
+    <p className="text-xs font-bold text-[#5D5D5D] uppercase tracking-wider mb-1">{label}</p>
+    <p className="text-2xl font-light text-[#262626]">{value}</p>
+    {subtext && <p className="text-xs text-[#AEA79F] mt-1">{subtext}</p>}
+  </div>
+);
+
+export const TeamView: React.FC<TeamViewProps> = ({ data, team, onSelectPackage }) => {
+  const teams = useMemo(() => summarizeTeams(data), [data]);
+  const packages = useMemo(() => team ? getTeamPackages(data, team) : [], [data, team]);
+  const matrix = useMemo(() => getWorkloadMatrix(packages), [packages]);
+  const uploaders = useMemo(() => summarizeUploaders(packages), [packages]);
+  const oldest = useMemo(() => [...packages].sort((a, b) => b.ageInDays - a.ageInDays).slice(0, 10), [packages]);
+
+  // All teams: pick one
+  if (!team) {
+    return (
+      <div className="bg-white rounded-sm shadow-sm border border-gray-100 font-ubuntu overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-[#F7F7F7]">
+            <tr className="text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">
+              <th className="px-6 py-3">Team</th>
+              <th className="px-6 py-3 text-right">Pending</th>
+              <th className="px-6 py-3 text-right hidden sm:table-cell">Median Age</th>
+              <th className="px-6 py-3 text-right hidden md:table-cell">&gt; 6 Months</th>
+              <th className="px-6 py-3 text-right">Age Debt</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {teams.map(t => (
+              <tr key={t.team} onClick={() => navigate(teamPath(t.team))} className="cursor-pointer hover:bg-gray-50 transition-colors text-sm">
+                <td className="px-6 py-3 font-medium text-[#262626]">{t.team}</td>
+                <td className="px-6 py-3 text-right">{t.pending}</td>
+                <td className="px-6 py-3 text-right hidden sm:table-cell">{Math.round(t.medianAgeInDays)}d</td>
+                <td className="px-6 py-3 text-right hidden md:table-cell">{t.overSixMonths}</td>
+                <td className="px-6 py-3 text-right">{t.ageDebt.toLocaleString()}d</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  const rank = teams.findIndex(t => t.team === team);
+  const summary = teams[rank];
+  const typicalMedian = Math.round(median(teams.map(t => t.medianAgeInDays)));
+
+  // Largest backlogs, always including this team
+  const comparison = teams.slice(0, COMPARISON_SIZE);
+  if (summary && rank >= COMPARISON_SIZE) comparison.push(summary);
+  const comparisonData = comparison.map(t => ({ name: t.team, pending: t.pending, median: Math.round(t.medianAgeInDays) }));
+
+  return (
+    <div className="space-y-6 font-ubuntu">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center">
+          <button onClick={() => navigate(pathForView('team'))} className="mr-3 p-1 rounded-sm text-[#5D5D5D] hover:text-[#262626] hover:bg-white transition-colors" title="All teams">
+            <ArrowLeft size={20} />
+          </button>
+          <Users className="h-5 w-5 mr-2 text-[#77216F]" />
+          <h2 className="text-2xl font-light text-[#262626]">{team}</h2>
+        </div>
+        <button
+          onClick={() => openList(team)}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-sm bg-white text-sm text-[#5D5D5D] hover:text-[#262626] hover:border-[#AEA79F] transition-colors"
+        >
+          <List size={14} className="mr-1.5" />
+          Open in Package List
+        </button>
+      </div>
+
+      {!summary ? (
+        <div className="bg-white p-10 rounded-sm shadow-sm border border-gray-100 text-center text-sm text-[#5D5D5D]">
+          No pending merges for this team.
+        </div>
+      ) : (
+        <>
+          {/* Headline numbers */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Stat label="Pending" value={summary.pending} subtext={`#${rank + 1} of ${teams.length} teams`} />
+            <Stat label="Median Age" value={`${Math.round(summary.medianAgeInDays)}d`} subtext={`Typical team: ${typicalMedian}d`} />
+            <Stat label="Over 6 Months" value={summary.overSixMonths} />
+            <Stat label="Age Debt" value={`${summary.ageDebt.toLocaleString()}d`} subtext="Sum of pending ages" />
+          </div>
+
+          {/* Component x age bucket */}
+          <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100 overflow-x-auto">
+            <h3 className="text-xl font-light text-[#262626] mb-4">Pending by Component and Age</h3>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">
+                  <th className="py-2 pr-4 text-left">Component</th>
+                  {AGE_BUCKETS.map(bucket => <th key={bucket.id} className="py-2 px-4 text-right">{bucket.label}</th>)}
+                  <th className="py-2 pl-4 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {Object.values(PackageSet).map(component => {
+                  const row = matrix[component];
+                  const total = AGE_BUCKETS.reduce((sum, b) => sum + row[b.id], 0);
+                  if (total === 0) return null;
+                  return (
+                    <tr key={component}>
+                      <td className="py-2 pr-4"><ComponentBadge component={component} /></td>
+                      {AGE_BUCKETS.map(bucket => (
+                        <td key={bucket.id} className="py-2 px-4 text-right">
+                          {row[bucket.id] > 0 ? (
+                            <button onClick={() => openList(team, component, bucket.query)} className="text-[#0066CC] hover:underline">
+                              {row[bucket.id]}
+                            </button>
+                          ) : <span className="text-gray-300">0</span>}
+                        </td>
+                      ))}
+                      <td className="py-2 pl-4 text-right font-medium">
+                        <button onClick={() => openList(team, component)} className="hover:underline">{total}</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Uploaders */}
+            <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+              <h3 className="text-xl font-light text-[#262626] mb-4 flex items-center">
+                <UserCheck className="h-5 w-5 mr-2 text-[#0066CC]" />
+                Uploaders Involved
+              </h3>
+              <ul className="divide-y divide-gray-100">
+                {uploaders.slice(0, 10).map(({ identity, pending, ageDebt }) => (
+                  <li key={identity.aliases[0]} className="py-2 flex items-center justify-between text-sm">
+                    <span className="text-[#262626] font-medium">{identity.name}</span>
+                    <span className="text-[#5D5D5D]">
+                      {pending} pending
+                      <span className="ml-3 text-xs text-[#AEA79F]">{ageDebt.toLocaleString()}d debt</span>
+                    </span>
+                  </li>
+                ))}
+                {uploaders.length === 0 && <li className="py-2 text-sm text-gray-400">No known uploaders.</li>}
+              </ul>
+              {uploaders.length > 10 && <p className="mt-2 text-xs text-[#AEA79F]">and {uploaders.length - 10} more</p>}
+            </div>
+
+            {/* Oldest packages */}
+            <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+              <h3 className="text-xl font-light text-[#262626] mb-4 flex items-center">
+                <Hourglass className="h-5 w-5 mr-2 text-[#E95420]" />
+                Oldest Packages
+              </h3>
+              <ul className="divide-y divide-gray-100">
+                {oldest.map(pkg => (
+                  <li
+                    key={pkg.id}
+                    onClick={() => onSelectPackage(pkg)}
+                    className="py-2 flex items-center justify-between text-sm cursor-pointer group"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium text-[#262626] truncate group-hover:text-[#E95420]">{pkg.name}</span>
+                      <StatusBadge status={pkg.status} title={pkg.statusText} />
+                    </span>
+                    <span className="flex items-center shrink-0 text-[#5D5D5D]">
+                      {pkg.age}
+                      <ChevronRight className="h-4 w-4 ml-2 text-gray-400 group-hover:text-[#E95420]" />
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          {/* Comparison with other teams */}
+          <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+            <h3 className="text-xl font-light text-[#262626] mb-6 flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2 text-[#77216F]" />
+              Compared with Other Teams
+            </h3>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={comparisonData} margin={{ top: 0, right: 0, left: 0, bottom: 60 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                  <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} interval={0} tick={{fontSize: 11, fill: '#5D5D5D'}} />
+                  <YAxis />
+                  <Tooltip
+                    cursor={{fill: '#f3f4f6'}}
+                    formatter={(value: number, name: string) => [value, name === 'pending' ? 'Pending' : name]}
+                    labelFormatter={(label: string) => {
+                      const t = comparisonData.find(d => d.name === label);
+                      return t ? `${label} (median age ${t.median}d)` : label;
+                    }}
+                  />
+                  <Bar
+                    dataKey="pending"
+                    radius={[4, 4, 0, 0]}
+                    barSize={40}
+                    cursor="pointer"
+                    onClick={(entry) => navigate(teamPath(entry.name))}
+                  >
+                    {comparisonData.map(d => (
+                      <Cell key={d.name} fill={d.name === team ? '#E95420' : '#AEA79F'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
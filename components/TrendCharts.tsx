@@ -0,0 +1,117 @@
+import React from 'react';
+import { ResponsiveContainer, Tooltip, LineChart, Line, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+import { PackageSet, SnapshotSummary } from '../types';
+import { TrendingUp } from 'lucide-react';
+
+interface TrendChartsProps {
+  history: SnapshotSummary[];
+}
+
+const COMPONENT_COLORS: Record<PackageSet, string> = {
+  [PackageSet.MAIN]: '#E95420', // Ubuntu Orange
+  [PackageSet.UNIVERSE]: '#77216F', // Ubuntu Aubergine
+  [PackageSet.RESTRICTED]: '#C7A100',
+  [PackageSet.MULTIVERSE]: '#0066CC'
+};
+
+const TEAM_COLORS = ['#77216F', '#E95420', '#0066CC', '#0E8420', '#AEA79F', '#333333'];
+const TOP_TEAMS_COUNT = 6;
+
+const formatTakenAt = (takenAt: string) =>
+  new Date(takenAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const TrendPanel: React.FC<{ title: string; children: React.ReactElement }> = ({ title, children }) => (
+  <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+    <h3 className="text-xl font-light mb-6 text-[#262626]">{title}</h3>
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        {children}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export const TrendCharts: React.FC<TrendChartsProps> = ({ history }) => {
+  // Teams with the largest backlog in the latest snapshot
+  const topTeams = React.useMemo(() => {
+    const latest = history[history.length - 1];
+    if (!latest) return [];
+    return (Object.entries(latest.byTeam) as [string, number][])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_TEAMS_COUNT)
+      .map(([team]) => team);
+  }, [history]);
+
+  const chartData = React.useMemo(() => history.map(h => {
+    const row: Record<string, string | number> = {
+      label: formatTakenAt(h.takenAt),
+      total: h.total,
+      medianAge: h.medianAgeInDays,
+      ...h.byComponent
+    };
+    topTeams.forEach(team => {
+      row[team] = h.byTeam[team] || 0;
+    });
+    return row;
+  }), [history, topTeams]);
+
+  if (history.length < 2) {
+    return (
+      <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100 flex items-center text-[#5D5D5D]">
+        <TrendingUp className="text-[#AEA79F] mr-3 shrink-0" size={20} />
+        <p className="text-sm">
+          Backlog trends appear once merge data has been fetched on more than one occasion.
+          {history.length === 1 && ` First snapshot recorded ${formatTakenAt(history[0].takenAt)}.`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <TrendingUp className="text-[#E95420] mr-2" size={20} />
+        <h2 className="text-xl font-light text-[#262626]">Backlog Trends</h2>
+        <span className="ml-3 text-xs text-[#AEA79F]">{history.length} snapshots</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <TrendPanel title="Pending by Component">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+            <XAxis dataKey="label" tick={{fontSize: 11, fill: '#5D5D5D'}} />
+            <YAxis />
+            <Tooltip />
+            <Legend />
+            {Object.values(PackageSet).map(set => (
+              <Line key={set} type="monotone" dataKey={set} stroke={COMPONENT_COLORS[set]} strokeWidth={2} dot={false} />
+            ))}
+          </LineChart>
+        </TrendPanel>
+
+        <TrendPanel title="Median Age (days)">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+            <XAxis dataKey="label" tick={{fontSize: 11, fill: '#5D5D5D'}} />
+            <YAxis />
+            <Tooltip />
+            <Line type="monotone" dataKey="medianAge" name="Median age" stroke="#0066CC" strokeWidth={2} dot={false} />
+          </LineChart>
+        </TrendPanel>
+      </div>
+
+      <TrendPanel title="Pending by Team">
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+          <XAxis dataKey="label" tick={{fontSize: 11, fill: '#5D5D5D'}} />
+          <YAxis />
+          <Tooltip />
+          <Legend />
+          {topTeams.map((team, idx) => (
+            <Line key={team} type="monotone" dataKey={team} stroke={TEAM_COLORS[idx % TEAM_COLORS.length]} strokeWidth={2} dot={false} />
+          ))}
+        </LineChart>
+      </TrendPanel>
+    </div>
+  );
+};
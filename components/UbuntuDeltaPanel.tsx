@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { MergePackage, UbuntuDelta } from '../types';
+import { GitMerge, Loader2, AlertTriangle, Lightbulb, RefreshCw } from 'lucide-react';
+import { SharedBadge } from './ChangelogEntries';
+import { fetchUbuntuDelta } from '../services/api';
+import { AbsorptionMatch, SyncAnalysis, fetchSyncAnalysis } from '../services/syncCandidates';
+
+const MATCH_TITLES: Record<AbsorptionMatch['kind'], string> = {
+  'debian-bug': 'closes the same Debian bug',
+  'launchpad-bug': 'references the same Launchpad bug',
+  'cve': 'fixes the same CVE',
+  'text': 'has a change worded alike'
+};
+
+const matchTitle = (match: AbsorptionMatch) =>
+  `The Debian ${match.debianVersion} entry ${MATCH_TITLES[match.kind]}: ${match.detail}`;
+
+interface UbuntuDeltaPanelProps {
+  pkg: MergePackage;
+  onLoaded?: (delta: UbuntuDelta) => void; // Lets the rest of the detail panel use the delta without fetching it again
+}
+
+export const UbuntuDeltaPanel: React.FC<UbuntuDeltaPanelProps> = ({ pkg, onLoaded }) => {
+  const [delta, setDelta] = useState<UbuntuDelta | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+  // Which changes Debian already has (services/syncCandidates.ts); needs the Debian changelog too
+  const [analysis, setAnalysis] = useState<SyncAnalysis | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(null);
+    fetchSyncAnalysis(pkg)
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(err => console.warn('Failed to compare the Ubuntu delta with Debian', err));
+    return () => { cancelled = true; };
+  }, [pkg]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    setDelta(null);
+
+    fetchUbuntuDelta(pkg)
+      .then(result => {
+        if (cancelled) return;
+        setDelta(result);
+        onLoaded?.(result);
+      })
+      .catch(err => {
+        console.error('Failed to extract Ubuntu delta', err);
+        if (!cancelled) setError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [pkg]);
+
+  const droppableCount = delta ? delta.entries.reduce((n, e) => n + e.bullets.filter(b => b.droppable).length, 0) : 0;
+  const findMatch = (version: string, text: string) =>
+    analysis?.changes.find(change => change.ubuntuVersion === version && change.text === text)?.match ?? null;
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-sm font-bold text-[#262626] mb-3 flex items-center uppercase tracking-wide">
+        <GitMerge className="w-4 h-4 mr-2 text-[#E95420]" />
+        Ubuntu Delta
+        {delta && (
+          <span className="ml-2 text-xs font-normal normal-case text-[#AEA79F]">
+            {delta.entries.length} upload{delta.entries.length === 1 ? '' : 's'}
+            {delta.baseVersion && <> since <span className="font-mono">{delta.baseVersion}</span></>}
+          </span>
+        )}
+      </h3>
+
+      {loading ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <Loader2 size={16} className="animate-spin mr-2 text-[#E95420]" />
+          Reading Ubuntu changelog...
+        </div>
+      ) : error ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 flex items-center text-sm text-[#5D5D5D]">
+          <AlertTriangle size={16} className="mr-2 text-gray-400" />
+          Ubuntu changelog unavailable, delta could not be extracted.
+        </div>
+      ) : delta && delta.entries.length === 0 ? (
+        <div className="bg-white p-5 rounded-sm border border-gray-100 text-sm text-[#5D5D5D]">
+          No Ubuntu-specific uploads found on top of Debian.
+        </div>
+      ) : delta && (
+        <div className="space-y-3">
+          {analysis && (analysis.absorbed > 0 || analysis.verdict === 'candidate') && (
+            <div className={`flex items-start text-xs rounded-sm px-3 py-2 border ${analysis.verdict === 'candidate' ? 'text-[#0066CC] bg-blue-50 border-blue-200' : 'text-[#5D5D5D] bg-[#F7F7F7] border-gray-200'}`}>
+              <RefreshCw size={14} className="mr-2 mt-0.5 shrink-0" />
+              {analysis.changes.length === 0
+                ? 'The Ubuntu uploads are only no-change rebuilds: this merge may be a sync.'
+                : analysis.verdict === 'candidate'
+                ? `Debian ${analysis.debianVersion} already has all ${analysis.changes.length} Ubuntu changes: this merge may be a sync.`
+                : `Debian ${analysis.debianVersion} already has ${analysis.absorbed} of the ${analysis.changes.length} Ubuntu changes.`}
+            </div>
+          )}
+          {droppableCount > 0 && (
+            <div className="flex items-start text-xs text-yellow-900 bg-yellow-50 border border-yellow-200 rounded-sm px-3 py-2">
+              <Lightbulb size={14} className="mr-2 mt-0.5 shrink-0" />
+              {droppableCount} change{droppableCount === 1 ? '' : 's'} mention dropping, upstream or a Debian bug and may no longer need to be carried.
+            </div>
+          )}
+          {delta.entries.map(entry => (
+            <div key={entry.version} className="bg-white p-4 rounded-sm border border-gray-100 shadow-sm">
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="text-sm font-mono font-bold text-[#262626]">{entry.version}</span>
+                <span className="text-[10px] text-[#AEA79F] ml-2 text-right">{entry.date}</span>
+              </div>
+              <p className="text-xs text-[#5D5D5D] mb-2">{entry.author}</p>
+              <ul className="space-y-1">
+                {entry.bullets.map((bullet, idx) => {
+                  const match = findMatch(entry.version, bullet.text);
+                  return (
+                    <li
+                      key={idx}
+                      className={`text-xs leading-relaxed pl-2 border-l-2 ${match ? 'border-green-300 text-[#5D5D5D]' : bullet.droppable ? 'border-yellow-400 bg-yellow-50 text-[#262626]' : 'border-gray-200 text-[#5D5D5D]'}`}
+                    >
+                      {bullet.text}
+                      {match && <SharedBadge version={match.debianVersion} title={matchTitle(match)} />}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { MergePackage } from '../types';
+import { UserCheck } from 'lucide-react';
+import { summarizeUploaders } from '../services/uploaders';
+
+interface UploadersPanelProps {
+  data: MergePackage[];
+  onUploaderClick: (name: string) => void;
+}
+
+type SortKey = 'ageDebt' | 'pending' | 'oldest';
+
+const SORTS: { id: SortKey; label: string }[] = [
+  { id: 'ageDebt', label: 'Age Debt' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'oldest', label: 'Oldest' }
+];
+
+const TOP_COUNT = 10;
+
+export const UploadersPanel: React.FC<UploadersPanelProps> = ({ data, onUploaderClick }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('ageDebt');
+  const [showAll, setShowAll] = useState(false);
+
+  const stats = useMemo(() => summarizeUploaders(data), [data]);
+  const sorted = useMemo(() => [...stats].sort((a, b) => {
+    if (sortKey === 'pending') return b.pending - a.pending || b.ageDebt - a.ageDebt;
+    if (sortKey === 'oldest') return b.oldest.ageInDays - a.oldest.ageInDays;
+    return b.ageDebt - a.ageDebt;
+  }), [stats, sortKey]);
+
+  const rows = showAll ? sorted : sorted.slice(0, TOP_COUNT);
+
+  return (
+    <div className="bg-white p-6 rounded-sm shadow-sm border border-gray-100">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 border-b border-gray-100 pb-4">
+        <div className="flex items-center">
+          <UserCheck className="text-[#0066CC] mr-2" size={20} />
+          <h3 className="text-xl font-light text-[#262626]">Uploaders</h3>
+          <span className="ml-2 text-xs text-[#AEA79F]">{stats.length} people</span>
+        </div>
+        <div className="flex space-x-1 bg-[#F7F7F7] rounded-sm p-1">
+          {SORTS.map(sort => (
+            <button
+              key={sort.id}
+              onClick={() => setSortKey(sort.id)}
+              className={`px-3 py-1 rounded-sm text-xs font-medium transition-colors ${sortKey === sort.id ? 'bg-white shadow-sm text-[#262626]' : 'text-[#5D5D5D] hover:text-[#262626]'}`}
+            >
+              {sort.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead>
+            <tr className="text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">
+              <th className="py-2 pr-4">Uploader</th>
+              <th className="py-2 pr-4 text-right">Pending</th>
+              <th className="py-2 pr-4 hidden md:table-cell">Oldest Item</th>
+              <th className="py-2 text-right" title="Sum of the ages of their pending merges">Age Debt</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map(({ identity, pending, oldest, ageDebt }) => (
+              <tr
+                key={identity.aliases[0]}
+                onClick={() => onUploaderClick(identity.name)}
+                className="cursor-pointer hover:bg-gray-50 transition-colors text-sm"
+              >
+                <td className="py-2 pr-4">
+                  <span className="font-medium text-[#262626]">{identity.name}</span>
+                  {identity.aliases.length > 1 && (
+                    <span className="ml-2 text-[11px] text-[#AEA79F]" title={identity.aliases.join('\n')}>
+                      {identity.aliases.length} aliases
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-right text-[#262626]">{pending}</td>
+                <td className="py-2 pr-4 hidden md:table-cell text-[#5D5D5D]">
+                  <span className="font-medium">{oldest.name}</span>
+                  <span className="ml-2 text-xs text-[#AEA79F]">{oldest.ageInDays}d</span>
+                </td>
+                <td className="py-2 text-right font-medium text-[#262626]">{ageDebt.toLocaleString()}d</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sorted.length > TOP_COUNT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-4 text-sm text-[#0066CC] hover:underline"
+        >
+          {showAll ? `Show top ${TOP_COUNT}` : `Show all ${sorted.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
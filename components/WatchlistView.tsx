@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import { MergePackage } from '../types';
+import { ChevronRight, Star, Bookmark, Download, Upload, Pencil, Trash2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { ComponentBadge, StatusBadge } from './Badges';
+import { deleteView, exportPreferences, importPreferences, renameView, toggleWatched, usePreferences } from '../services/preferences';
+import { navigate, savedViewPath } from '../services/router';
+import { downloadText } from '../services/export';
+
+interface WatchlistViewProps {
+  data: MergePackage[];
+  onSelectPackage: (pkg: MergePackage) => void;
+}
+
+const SORT_LABELS: Record<string, string> = {
+  name: 'Name',
+  status: 'Status',
+  ageInDays: 'Age',
+  ubuntuVersion: 'Ubuntu Version',
+  debianVersion: 'Debian Version',
+  versionGap: 'Version Gap',
+  uploader: 'Uploader',
+  priority: 'Priority'
+};
+
+const buttonClass = "inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-sm bg-white text-sm text-[#5D5D5D] hover:text-[#262626] hover:border-[#AEA79F] transition-colors";
+
+export const WatchlistView: React.FC<WatchlistViewProps> = ({ data, onSelectPackage }) => {
+  const prefs = usePreferences();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importResult, setImportResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  // Watched names without a pending merge have been merged or synced (or were never in the list)
+  const watched = prefs.watchlist.map(name => ({ name, packages: data.filter(pkg => pkg.name === name) }));
+
+  const handleExport = () => {
+    downloadText(exportPreferences(), 'ubuntu-merges-preferences.json', 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importPreferences(await file.text());
+      setImportResult({
+        ok: true,
+        message: `Imported ${imported.savedViews.length} saved view${imported.savedViews.length === 1 ? '' : 's'} and ${imported.watchlist.length} watched package${imported.watchlist.length === 1 ? '' : 's'}.`
+      });
+    } catch (err) {
+      setImportResult({ ok: false, message: `Import failed: ${(err as Error).message}` });
+    }
+  };
+
+  const handleRename = (id: string, current: string) => {
+    const name = window.prompt('Rename saved view', current)?.trim();
+    if (name && name !== current) renameView(id, name);
+  };
+
+  return (
+    <div className="space-y-6 font-ubuntu">
+      {/* Import / Export */}
+      <div className="bg-white p-4 rounded-sm shadow-sm border border-gray-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <p className="text-sm text-[#5D5D5D]">
+          Saved views and the watchlist are stored in this browser. Export them to back them up or move them to another machine.
+        </p>
+        <div className="flex space-x-2 shrink-0">
+          <button onClick={handleExport} className={buttonClass}>
+            <Download size={14} className="mr-1.5" />
+            Export JSON
+          </button>
+          <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+            <Upload size={14} className="mr-1.5" />
+            Import JSON
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importResult && (
+        <div className={`flex items-center text-sm px-4 py-3 rounded-sm border ${importResult.ok ? 'bg-green-50 border-green-200 text-green-900' : 'bg-red-50 border-red-200 text-red-900'}`}>
+          {importResult.ok ? <CheckCircle2 size={16} className="mr-2 shrink-0" /> : <AlertTriangle size={16} className="mr-2 shrink-0" />}
+          {importResult.message}
+        </div>
+      )}
+
+      {/* Watchlist */}
+      <div className="bg-white rounded-sm shadow-sm border border-gray-100">
+        <div className="p-4 border-b border-gray-100 flex items-center">
+          <Star className="h-4 w-4 mr-2 text-[#E95420]" />
+          <h3 className="text-sm font-bold text-[#262626] uppercase tracking-wide">Watchlist</h3>
+          <span className="ml-2 text-xs text-[#AEA79F]">{prefs.watchlist.length}</span>
+        </div>
+        {watched.length === 0 ? (
+          <p className="px-6 py-10 text-center text-sm text-gray-500">
+            No watched packages yet. Use the star in a package's detail panel to add it here.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-[#F7F7F7]">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">Package</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden md:table-cell">Component</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider hidden sm:table-cell">Debian</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-[#5D5D5D] uppercase tracking-wider">Age</th>
+                <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {watched.map(({ name, packages }) => packages.length > 0 ? packages.map(pkg => (
+                <tr
+                  key={pkg.id}
+                  onClick={() => onSelectPackage(pkg)}
+                  className="cursor-pointer transition-colors group hover:bg-gray-50"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#262626]">{pkg.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap"><StatusBadge status={pkg.status} title={pkg.statusText} /></td>
+                  <td className="px-6 py-4 whitespace-nowrap hidden md:table-cell"><ComponentBadge component={pkg.component} /></td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-[#5D5D5D] font-mono hidden sm:table-cell">{pkg.debianVersion}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#262626]">{pkg.age}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-[#E95420] inline" />
+                  </td>
+                </tr>
+              )) : (
+                <tr key={name}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-[#5D5D5D]">{name}</td>
+                  <td colSpan={4} className="px-6 py-4 whitespace-nowrap text-sm text-gray-400 italic">No pending merge</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => toggleWatched(name)}
+                      className="text-gray-400 hover:text-[#C7162B] transition-colors"
+                      title="Remove from watchlist"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Saved Views */}
+      <div className="bg-white rounded-sm shadow-sm border border-gray-100">
+        <div className="p-4 border-b border-gray-100 flex items-center">
+          <Bookmark className="h-4 w-4 mr-2 text-[#E95420]" />
+          <h3 className="text-sm font-bold text-[#262626] uppercase tracking-wide">Saved Views</h3>
+          <span className="ml-2 text-xs text-[#AEA79F]">{prefs.savedViews.length}</span>
+        </div>
+        {prefs.savedViews.length === 0 ? (
+          <p className="px-6 py-10 text-center text-sm text-gray-500">
+            No saved views yet. Set up filters in the Package List and use "Save view" to keep them.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {prefs.savedViews.map(view => (
+              <li key={view.id} className="px-6 py-4 flex items-center justify-between gap-4 group hover:bg-gray-50">
+                <button onClick={() => navigate(savedViewPath(view))} className="text-left min-w-0 flex-1">
+                  <span className="block text-sm font-medium text-[#262626] group-hover:text-[#E95420]">{view.name}</span>
+                  <span className="block text-xs text-[#5D5D5D] font-mono truncate mt-0.5">{view.query || 'All packages'}</span>
+                  <span className="block text-[11px] text-[#AEA79F] mt-0.5">
+                    Sorted by {SORT_LABELS[view.sortField] || view.sortField}, {view.sortAsc ? 'ascending' : 'descending'}
+                  </span>
+                </button>
+                <div className="flex items-center space-x-3 shrink-0 text-gray-400">
+                  <button onClick={() => handleRename(view.id, view.name)} className="hover:text-[#262626] transition-colors" title="Rename">
+                    <Pencil size={16} />
+                  </button>
+                  <button onClick={() => deleteView(view.id)} className="hover:text-[#C7162B] transition-colors" title="Delete">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,338 @@
+// Relay server: serves the built SPA (dist/) and fetches upstream data server-side,
+// so the browser never has to go through third-party CORS proxies.
+//
+//   GET /api/health                                         -> { status: 'ok' }
+//   GET /api/merges/:component                              -> merges.ubuntu.com/<component>.json
+//   GET /api/changelog/ubuntu/:component/:name/:version     -> full Ubuntu changelog
+//   GET /api/changelog/debian/:name/:version                -> full Debian changelog
+//   GET /api/report/:name                                   -> merges.ubuntu.com/<prefix>/<name>/REPORT
+//   GET /api/fetch?url=<upstream>                           -> generic relay (allowlisted hosts only)
+//   GET /api/claims                                         -> claims (services/claims.ts), from CLAIMS_FILE
+//   POST /api/claims, PUT /api/claims/:name                 -> create / replace a claim
+//   DELETE /api/claims/:name                                -> release a claim
+//
+// Run with `npm run serve` (after `npm run build`). It listens on 127.0.0.1 unless HOST says otherwise;
+// when exposing it (HOST=0.0.0.0), set CLAIMS_TOKEN so only holders of the token can change claims.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { timingSafeEqual } from 'node:crypto';
+import path from 'node:path';
+import {
+  MERGES_BASE_URL,
+  LAUNCHPAD_API_URL,
+  getMergeReportUrl,
+  getPackageReportUrl,
+  getUbuntuChangelogUrls,
+  getDebianChangelogUrls,
+  isMergeComponent,
+  isValidChangelog
+} from '../services/upstream';
+import { Claim, sanitizeClaim } from '../services/claims';
+
+const PORT = Number(process.env.PORT || 8080);
+const HOST = process.env.HOST || '127.0.0.1';
+const DIST_DIR = path.resolve(process.env.DIST_DIR || 'dist');
+const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS || 20000);
+const CLAIMS_FILE = path.resolve(process.env.CLAIMS_FILE || 'claims.json');
+// Shared secret for creating, replacing and releasing claims ("Authorization: Bearer <token>"); reads stay open
+const CLAIMS_TOKEN = process.env.CLAIMS_TOKEN || '';
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Merge reports (and per-package REPORTs) are regenerated a few times a day; changelogs for a given version never change.
+const MERGES_TTL_MS = 10 * 60 * 1000;
+const CHANGELOG_TTL_MS = 24 * 60 * 60 * 1000;
+const LIVE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+// Hosts the generic /api/fetch relay is allowed to reach
+const RELAY_ALLOWED_HOSTS = new Set([
+  new URL(MERGES_BASE_URL).hostname,
+  'merges.ubuntu.com',
+  'changelogs.ubuntu.com',
+  'metadata.ftp-master.debian.org',
+  'tracker.debian.org',
+  'api.ftp-master.debian.org',
+  'udd.debian.org',
+  new URL(LAUNCHPAD_API_URL).hostname
+]);
+
+// API hosts whose answers (bugs, merge proposals, suite versions) move during the day
+const LIVE_HOSTS = new Set([
+  new URL(LAUNCHPAD_API_URL).hostname,
+  'api.ftp-master.debian.org',
+  'udd.debian.org'
+]);
+
+// Source package names (Debian Policy 5.6.1), so REPORT requests stay inside the package directories
+const SOURCE_NAME_REGEX = /^[a-z0-9][a-z0-9.+-]+$/;
+// Package versions ([epoch:]upstream[-revision], Debian Policy 5.6.12), likewise for changelog requests
+const VERSION_REGEX = /^(\d+:)?[A-Za-z0-9][A-Za-z0-9.+~:-]*$/;
+
+const checkPackage = (name: string, version: string) => {
+  if (!SOURCE_NAME_REGEX.test(name)) throw new HttpError(400, `Invalid package name ${name}`);
+  if (!VERSION_REGEX.test(version)) throw new HttpError(400, `Invalid version ${version}`);
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.txt': 'text/plain; charset=utf-8',
+  '.woff2': 'font/woff2'
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- Upstream fetching with an in-memory TTL cache ---
+
+interface CacheEntry {
+  body: string;
+  expires: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+// Concurrent requests for the same URL share a single upstream fetch
+const inflight = new Map<string, Promise<string>>();
+
+const fetchUpstreamText = async (url: string, ttlMs: number): Promise<string> => {
+  const cached = cache.get(url);
+  if (cached && cached.expires > Date.now()) return cached.body;
+
+  const pending = inflight.get(url);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const res = await fetch(url, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) });
+    if (!res.ok) {
+      throw new HttpError(res.status === 404 ? 404 : 502, `Upstream ${url} responded ${res.status}`);
+    }
+    const body = await res.text();
+
+    // Evict the oldest entry once the cache is full (Map keeps insertion order)
+    if (cache.size >= MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(url, { body, expires: Date.now() + ttlMs });
+    return body;
+  })();
+
+  inflight.set(url, request);
+  try {
+    return await request;
+  } finally {
+    inflight.delete(url);
+  }
+};
+
+const fetchFirstValidChangelog = async (urls: string[]): Promise<string> => {
+  for (const url of urls) {
+    try {
+      const text = await fetchUpstreamText(url, CHANGELOG_TTL_MS);
+      if (isValidChangelog(text)) return text;
+    } catch (e) {
+      // Continue to next candidate
+    }
+  }
+  throw new HttpError(404, 'Changelog not found');
+};
+
+// --- Claims, kept in a JSON file ---
+
+const readClaims = async (): Promise<Claim[]> => {
+  try {
+    const raw = JSON.parse(await readFile(CLAIMS_FILE, 'utf8'));
+    return Array.isArray(raw) ? raw.map(sanitizeClaim).filter((c): c is Claim => c !== null) : [];
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+};
+
+// Writes are serialized, and go through a temporary file so a crash never leaves half a file behind
+let claimsWrite: Promise<unknown> = Promise.resolve();
+
+const updateClaims = <T>(update: (claims: Claim[]) => { claims: Claim[]; result: T }): Promise<T> => {
+  const next = claimsWrite.then(async () => {
+    const { claims, result } = update(await readClaims());
+    const tmp = `${CLAIMS_FILE}.tmp`;
+    await writeFile(tmp, JSON.stringify(claims, null, 2));
+    await rename(tmp, CLAIMS_FILE);
+    return result;
+  });
+  claimsWrite = next.catch(() => undefined);
+  return next;
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+const saveClaim = async (req: IncomingMessage, name?: string): Promise<Claim> => {
+  const body = await readJsonBody(req);
+  const claim = sanitizeClaim(name ? { ...body, package: name } : body);
+  if (!claim) throw new HttpError(400, 'A claim needs a package and a claimedBy name');
+  return updateClaims(claims => ({ claims: [...claims.filter(c => c.package !== claim.package), claim], result: claim }));
+};
+
+// --- Response helpers ---
+
+const send = (res: ServerResponse, status: number, body: string | Buffer, contentType: string) => {
+  res.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-cache' });
+  res.end(body);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) =>
+  send(res, status, JSON.stringify(body), MIME_TYPES['.json']);
+
+// --- Routes ---
+
+const hasClaimsToken = (req: IncomingMessage) => {
+  const given = Buffer.from((req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(CLAIMS_TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const handleClaims = async (req: IncomingMessage, rest: string[], res: ServerResponse) => {
+  const [name] = rest;
+  if (rest.length > 1) throw new HttpError(404, 'Not found');
+
+  if (!name && (req.method === 'GET' || req.method === 'HEAD')) return sendJson(res, 200, await readClaims());
+  if (CLAIMS_TOKEN && !hasClaimsToken(req)) throw new HttpError(401, 'Changing claims needs the CLAIMS_TOKEN');
+  if (!name && req.method === 'POST') return sendJson(res, 201, await saveClaim(req));
+  if (name && req.method === 'PUT') return sendJson(res, 200, await saveClaim(req, name));
+  if (name && req.method === 'DELETE') {
+    await updateClaims(claims => ({ claims: claims.filter(c => c.package !== name), result: undefined }));
+    res.writeHead(204);
+    return res.end();
+  }
+  throw new HttpError(405, 'Method not allowed');
+};
+
+const handleApi = async (req: IncomingMessage, segments: string[], url: URL, res: ServerResponse) => {
+  const [route, ...rest] = segments;
+
+  if (route === 'claims') {
+    return handleClaims(req, rest, res);
+  }
+  // Everything else is read-only
+  if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, 'Method not allowed');
+
+  if (route === 'health') {
+    return sendJson(res, 200, { status: 'ok' });
+  }
+
+  if (route === 'merges' && rest.length === 1) {
+    const component = rest[0].toLowerCase();
+    if (!isMergeComponent(component)) throw new HttpError(404, `Unknown component ${component}`);
+    const body = await fetchUpstreamText(getMergeReportUrl(component), MERGES_TTL_MS);
+    return send(res, 200, body, MIME_TYPES['.json']);
+  }
+
+  if (route === 'report' && rest.length === 1) {
+    if (!SOURCE_NAME_REGEX.test(rest[0])) throw new HttpError(400, `Invalid package name ${rest[0]}`);
+    const text = await fetchUpstreamText(getPackageReportUrl(rest[0]), MERGES_TTL_MS);
+    return send(res, 200, text, MIME_TYPES['.txt']);
+  }
+
+  if (route === 'changelog' && rest[0] === 'ubuntu' && rest.length === 4) {
+    const [, component, name, version] = rest;
+    if (!isMergeComponent(component.toLowerCase())) throw new HttpError(400, `Invalid component ${component}`);
+    checkPackage(name, version);
+    const text = await fetchFirstValidChangelog(getUbuntuChangelogUrls(component, name, version));
+    return send(res, 200, text, MIME_TYPES['.txt']);
+  }
+
+  if (route === 'changelog' && rest[0] === 'debian' && rest.length === 3) {
+    const [, name, version] = rest;
+    checkPackage(name, version);
+    const text = await fetchFirstValidChangelog(getDebianChangelogUrls(name, version));
+    return send(res, 200, text, MIME_TYPES['.txt']);
+  }
+
+  if (route === 'fetch' && rest.length === 0) {
+    const target = url.searchParams.get('url');
+    if (!target) throw new HttpError(400, 'Missing url parameter');
+    let targetUrl: URL;
+    try {
+      targetUrl = new URL(target);
+    } catch (e) {
+      throw new HttpError(400, 'Invalid url parameter');
+    }
+    if (!RELAY_ALLOWED_HOSTS.has(targetUrl.hostname)) throw new HttpError(403, `Host ${targetUrl.hostname} is not allowed`);
+    const live = LIVE_HOSTS.has(targetUrl.hostname);
+    const report = targetUrl.pathname.endsWith('.json') || targetUrl.pathname.endsWith('/REPORT');
+    const ttl = live ? LIVE_TTL_MS : report ? MERGES_TTL_MS : CHANGELOG_TTL_MS;
+    const body = await fetchUpstreamText(targetUrl.toString(), ttl);
+    const contentType = MIME_TYPES[path.extname(targetUrl.pathname)] || (live ? MIME_TYPES['.json'] : MIME_TYPES['.txt']);
+    return send(res, 200, body, contentType);
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+// Serves files from dist/, falling back to index.html for client-side routes
+const serveStatic = async (pathname: string, res: ServerResponse) => {
+  const filePath = path.join(DIST_DIR, path.normalize(pathname));
+  if (!filePath.startsWith(DIST_DIR)) throw new HttpError(403, 'Forbidden');
+
+  try {
+    const info = await stat(filePath);
+    if (info.isFile()) {
+      const contentType = MIME_TYPES[path.extname(filePath)] || 'application/octet-stream';
+      return send(res, 200, await readFile(filePath), contentType);
+    }
+  } catch (e) {
+    // Not a file: fall through to the SPA entry point
+  }
+
+  try {
+    return send(res, 200, await readFile(path.join(DIST_DIR, 'index.html')), MIME_TYPES['.html']);
+  } catch (e) {
+    throw new HttpError(404, `No build found in ${DIST_DIR}. Run "npm run build" first.`);
+  }
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  try {
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments[0] === 'api') {
+      await handleApi(req, segments.slice(1), url, res);
+    } else {
+      if (req.method !== 'GET' && req.method !== 'HEAD') throw new HttpError(405, 'Method not allowed');
+      await serveStatic(decodeURIComponent(url.pathname), res);
+    }
+  } catch (e: any) {
+    // URIError: a malformed percent-escape in the path
+    const status = e instanceof HttpError ? e.status : e instanceof URIError ? 400 : (e?.name === 'TimeoutError' ? 504 : 502);
+    if (status >= 500) console.warn(`${req.method} ${url.pathname} failed`, e);
+    sendJson(res, status, { error: e?.message || 'Upstream request failed' });
+  }
+};
+
+createServer((req, res) => {
+  handleRequest(req, res);
+}).listen(PORT, HOST, () => {
+  console.log(`Ubuntu Merges Tracker relay listening on http://${HOST}:${PORT} (serving ${DIST_DIR})`);
+});
@@ -1,61 +1,57 @@
 
-import { MergePackage, PackageSet } from '../types';
-
-const MAIN_URL = 'https://merges.ubuntu.com/main.json';
-const UNIVERSE_URL = 'https://merges.ubuntu.com/universe.json';
-const RESTRICTED_URL = 'https://merges.ubuntu.com/restricted.json';
-const MULTIVERSE_URL = 'https://merges.ubuntu.com/multiverse.json';
-
-// Use a rotating set of CORS proxies to ensure reliability. 
-// corsproxy.io is prioritized as it handles large files better.
-const PROXIES = [
-  (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
-  (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-  (url: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`
-];
-
-// Fetches AND parses the JSON. If either network or parsing fails, it tries the next proxy.
-const fetchDataWithFallback = async (targetUrl: string): Promise<any> => {
-  let lastError: any;
-  for (const proxyGen of PROXIES) {
-    try {
-      const url = proxyGen(targetUrl);
-      const res = await fetch(url);
-      
-      if (!res.ok) {
-        throw new Error(`Proxy response status: ${res.status}`);
-      }
-
-      // We await the json() here to catch "Content-Length mismatch" or malformed JSON errors
-      // within the try block, so we can fail over to the next proxy.
-      return await res.json(); 
-    } catch (e) {
-      console.warn(`Proxy request/parse failed for ${targetUrl} via proxy. Trying next...`, e);
-      lastError = e;
-    }
+import { ChangelogEntry, MergePackage, MergeStatus, PackageSet, UbuntuDelta } from '../types';
+import { getDataSource } from './dataSource';
+import { loadCachedChangelog, saveChangelog, saveMergeData } from './cache';
+import { classifyVersionGap } from './debVersion';
+import { extractUbuntuDeltaFromEntries } from './delta';
+import { parseChangelog } from './changelogParser';
+import {
+  MergeComponent,
+  getMergeReportUrl,
+  getPackageReportUrl,
+  getUbuntuChangelogUrls,
+  getDebianChangelogUrls,
+  isValidChangelog,
+  stripEpoch
+} from './upstream';
+
+// Base path of the bundled relay server (server/index.ts). Empty string disables it.
+const RELAY_BASE_URL = process.env.RELAY_URL ?? '/api';
+
+// Fetches AND parses the JSON through the configured data source (see services/dataSource.ts)
+const fetchDataWithFallback = (targetUrl: string): Promise<any> => getDataSource().fetchJson(targetUrl);
+
+// Fetches raw TEXT. Used for changelogs and merge REPORTs.
+const fetchTextWithFallback = (targetUrl: string): Promise<string> => getDataSource().fetchText(targetUrl);
+
+// Probes the relay once per session. When the SPA is served by something else (Vite dev server,
+// static hosting) /api/health is missing or returns index.html, and we stay on the data source.
+let relayProbe: Promise<boolean> | null = null;
+const isRelayAvailable = (): Promise<boolean> => {
+  if (!RELAY_BASE_URL) return Promise.resolve(false);
+  if (!relayProbe) {
+    relayProbe = fetch(`${RELAY_BASE_URL}/health`)
+      .then(res => res.ok ? res.json() : null)
+      .then(body => body?.status === 'ok')
+      .catch(() => false);
   }
-  throw lastError || new Error(`Unable to fetch and parse ${targetUrl} from any proxy.`);
+  return relayProbe;
 };
 
-// Fetches raw TEXT. Used for changelogs.
-const fetchTextWithFallback = async (targetUrl: string): Promise<string> => {
-  let lastError: any;
-  for (const proxyGen of PROXIES) {
-    try {
-      const url = proxyGen(targetUrl);
-      const res = await fetch(url);
-      
-      if (!res.ok) {
-        throw new Error(`Proxy response status: ${res.status}`);
-      }
-
-      return await res.text(); 
-    } catch (e) {
-      console.warn(`Proxy text request failed for ${targetUrl} via proxy. Trying next...`, e);
-      lastError = e;
+// Fetches from the relay if it is running, resolving to null when it is not (or when the relay fails),
+// so callers can fall back to the regular data source.
+const fetchFromRelay = async <T>(path: string, read: (res: Response) => Promise<T>): Promise<T | null> => {
+  if (!(await isRelayAvailable())) return null;
+  try {
+    const res = await fetch(`${RELAY_BASE_URL}${path}`);
+    if (!res.ok) {
+      throw new Error(`Relay response status: ${res.status}`);
     }
+    return await read(res);
+  } catch (e) {
+    console.warn(`Relay request failed for ${path}. Falling back to data source...`, e);
+    return null;
   }
-  throw lastError || new Error(`Unable to fetch text from ${targetUrl}`);
 };
 
 // Helper to parse age string to days
@@ -76,7 +72,18 @@ const parseAgeToDays = (ageInput: string | number | undefined): number => {
   return isNaN(num) ? 0 : Math.round(num);
 };
 
-const normalizeData = (rawData: any, component: PackageSet): MergePackage[] => {
+// Helper to map the upstream status string onto MergeStatus
+const normalizeStatus = (statusInput: string | undefined): MergeStatus => {
+  const str = (statusInput || '').toLowerCase();
+  if (!str) return MergeStatus.UNKNOWN;
+  if (str.includes('conflict')) return MergeStatus.CONFLICTS;
+  if (str.includes('fail') || str.includes('error')) return MergeStatus.FAILED;
+  if (str.includes('sync')) return MergeStatus.SYNC_POSSIBLE;
+  if (str.includes('merge') || str.includes('outstanding') || str.includes('needs')) return MergeStatus.NEEDS_MERGE;
+  return MergeStatus.UNKNOWN;
+};
+
+export const normalizeData = (rawData: any, component: PackageSet): MergePackage[] => {
   let list: any[] = [];
 
   // Handle Dictionary (Object) format: { "pkgName": { ... }, "pkgName2": { ... } }
@@ -100,6 +107,7 @@ const normalizeData = (rawData: any, component: PackageSet): MergePackage[] => {
       let teams: string[] = [];
       let age = '0d';
       let uploader = 'Unknown';
+      let statusText: string | undefined;
 
       // Strategy 1: Handle if item is an Array [name, ubuntu, debian, ...]
       if (Array.isArray(item)) {
@@ -134,6 +142,12 @@ const normalizeData = (rawData: any, component: PackageSet): MergePackage[] => {
         // Extract Uploader (check 'uploader', then 'user', then 'changed_by')
         uploader = lowerKeys.uploader || lowerKeys.user || lowerKeys.changed_by || 'Unknown';
 
+        // Extract merge status (e.g. "Needs merge", "Sync possible", "Conflicts")
+        const rawStatus = lowerKeys.status || lowerKeys.merge_status || lowerKeys.state;
+        if (rawStatus) {
+          statusText = String(rawStatus);
+        }
+
         // Fallback: If still unknown, dump keys for debugging in the UI
         if (name === 'Unknown') {
           const keys = Object.keys(item).slice(0, 5).join(', ');
@@ -151,19 +165,27 @@ const normalizeData = (rawData: any, component: PackageSet): MergePackage[] => {
         age: age,
         ageInDays: parseAgeToDays(age),
         uploader: String(uploader),
+        versionGap: classifyVersionGap(String(ubuntu), String(debian)),
+        status: normalizeStatus(statusText),
+        statusText,
         lastUpdated: new Date().toISOString()
       };
     });
 };
 
+// Fetches one component report, preferring the relay over the configured data source
+const fetchComponentData = async (component: MergeComponent): Promise<any> => {
+  const relayed = await fetchFromRelay(`/merges/${component}`, res => res.json());
+  return relayed ?? fetchDataWithFallback(getMergeReportUrl(component));
+};
+
 export const fetchMergeData = async (): Promise<MergePackage[]> => {
   // Use Promise.all to fetch all datasets in parallel
-  // Note: We use fetchDataWithFallback which handles the JSON parsing
   const [mainData, universeData, restrictedData, multiverseData] = await Promise.all([
-    fetchDataWithFallback(MAIN_URL),
-    fetchDataWithFallback(UNIVERSE_URL),
-    fetchDataWithFallback(RESTRICTED_URL),
-    fetchDataWithFallback(MULTIVERSE_URL)
+    fetchComponentData('main'),
+    fetchComponentData('universe'),
+    fetchComponentData('restricted'),
+    fetchComponentData('multiverse')
   ]);
 
   const normalizedMain = normalizeData(mainData, PackageSet.MAIN);
@@ -171,153 +193,99 @@ export const fetchMergeData = async (): Promise<MergePackage[]> => {
   const normalizedRestricted = normalizeData(restrictedData, PackageSet.RESTRICTED);
   const normalizedMultiverse = normalizeData(multiverseData, PackageSet.MULTIVERSE);
 
-  return [...normalizedMain, ...normalizedUniverse, ...normalizedRestricted, ...normalizedMultiverse];
+  const packages = [...normalizedMain, ...normalizedUniverse, ...normalizedRestricted, ...normalizedMultiverse];
+
+  // Keep the last good dataset for offline use. saveMergeData swallows its own errors, so persistence
+  // problems never fail the fetch. The snapshot history is recorded by the caller once the data is shown.
+  await saveMergeData(packages);
+
+  return packages;
 };
 
-// Helper to extract the single changelog block for the requested version
-const extractChangelogEntry = (fullText: string, targetVersion: string): string => {
-  const lines = fullText.split('\n');
-  let startLine = -1;
-  let endLine = -1;
-  
-  // Clean target version for comparison (remove epoch if present for loose matching)
-  const cleanTarget = targetVersion.includes(':') ? targetVersion.split(':').pop()! : targetVersion;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    // Match Debian changelog header: package (version) distribution; urgency=...
-    // We check if line starts with a non-whitespace char to avoid matching indented content
-    const match = line.match(/^(\S+)\s+\((.+?)\)/);
-    
-    if (match) {
-      const foundVersion = match[2];
-      const cleanFound = foundVersion.includes(':') ? foundVersion.split(':').pop()! : foundVersion;
-
-      // Logic:
-      // 1. If we haven't found our start block yet, check if this line matches our target version.
-      // 2. If we HAVE found our start block, this new header means the previous block ended.
-      
-      if (startLine === -1) {
-        // We match if exact match, or if cleaned versions match (handling epoch differences)
-        if (foundVersion === targetVersion || cleanFound === cleanTarget) {
-          startLine = i;
-        }
-      } else {
-        // We found a new header after finding our start, so this is the end.
-        endLine = i;
-        break;
+// Tries each candidate URL in turn and returns the first text that looks like a changelog
+const fetchFirstValidChangelog = async (urls: string[]): Promise<string | null> => {
+  for (const url of urls) {
+    try {
+      const text = await fetchTextWithFallback(url);
+      if (isValidChangelog(text)) {
+        return text;
       }
+    } catch (e) {
+      // Continue to next candidate
     }
   }
+  return null;
+};
 
-  // If we found the start, slice it.
-  if (startLine !== -1) {
-    if (endLine === -1) endLine = lines.length;
-    return lines.slice(startLine, endLine).join('\n').trim();
-  }
-  
-  // Fallback: If we couldn't find the specific version, return the FIRST entry (latest)
-  // This handles cases where the version string format might slightly differ or be missing
-  // Scan for the first header and second header
-  let firstHeaderIndex = -1;
-  let secondHeaderIndex = -1;
-  
-  for (let i = 0; i < lines.length; i++) {
-     if (lines[i].match(/^(\S+)\s+\((.+?)\)/)) {
-       if (firstHeaderIndex === -1) firstHeaderIndex = i;
-       else {
-         secondHeaderIndex = i;
-         break;
-       }
-     }
-  }
-  
-  if (firstHeaderIndex !== -1) {
-    const end = secondHeaderIndex !== -1 ? secondHeaderIndex : lines.length;
-    return lines.slice(firstHeaderIndex, end).join('\n').trim();
-  }
-
-  // Absolute fallback: return full text if no structure recognized
-  return fullText;
+const fetchRelayedChangelog = async (path: string): Promise<string | null> => {
+  const text = await fetchFromRelay(path, res => res.text());
+  return text && isValidChangelog(text) ? text : null;
 };
 
-// Helper to check if text looks like a valid changelog (not HTML 404)
-const isValidChangelog = (text: string) => {
-  const trimmed = text.trim().toLowerCase();
-  return !trimmed.startsWith('<!doctype') && !trimmed.startsWith('<html') && trimmed.length > 50;
+// Serves the changelog from the offline cache if we have it, otherwise fetches and caches it
+const withChangelogCache = async (key: string, fetcher: () => Promise<string | null>): Promise<string | null> => {
+  const cached = await loadCachedChangelog(key);
+  if (cached) return cached;
+
+  const text = await fetcher();
+  if (text) {
+    saveChangelog(key, text);
+  }
+  return text;
 };
 
-export const fetchChangelog = async (pkg: MergePackage): Promise<string> => {
-  // Construct Ubuntu Changelog URL
-  // Format: https://changelogs.ubuntu.com/changelogs/pool/{component}/{prefix}/{package}/{package}_{version}/changelog
-  
+// Full Ubuntu changelog file (all entries) for the package's Ubuntu version
+export const fetchFullChangelog = async (pkg: MergePackage): Promise<string> => {
   const component = pkg.component.toLowerCase();
-  const name = pkg.name;
   const version = pkg.ubuntuVersion;
-  const prefix = name.startsWith('lib') ? name.substring(0, 4) : name.substring(0, 1);
-  const poolBase = `https://changelogs.ubuntu.com/changelogs/pool/${component}/${prefix}/${name}`;
 
-  // Candidate versions to try for the URL construction
-  const candidates = [
-    version,
-    version.replace(/:/g, '%3a'),
-    version.includes(':') ? version.split(':').pop() : undefined
-  ].filter(Boolean) as string[];
+  const text = await withChangelogCache(`ubuntu/${pkg.name}/${version}`, async () =>
+    await fetchRelayedChangelog(`/changelog/ubuntu/${component}/${encodeURIComponent(pkg.name)}/${encodeURIComponent(version)}`) ??
+    await fetchFirstValidChangelog(getUbuntuChangelogUrls(component, pkg.name, version))
+  );
 
-  // Remove duplicates
-  const uniqueCandidates = Array.from(new Set(candidates));
-
-  for (const candVersion of uniqueCandidates) {
-    const url = `${poolBase}/${name}_${candVersion}/changelog`;
-    try {
-      const text = await fetchTextWithFallback(url);
-      if (isValidChangelog(text)) {
-        return extractChangelogEntry(text, version);
-      }
-    } catch (e) {
-      // Continue to next candidate
-    }
+  if (!text) {
+    throw new Error("Changelog not found after trying multiple URL variations");
   }
-
-  throw new Error("Changelog not found after trying multiple URL variations");
+  return text;
 };
 
-export const fetchDebianChangelog = async (pkg: MergePackage): Promise<string> => {
-  const name = pkg.name;
+// Full Debian changelog file (all entries) for the package's Debian version
+export const fetchFullDebianChangelog = async (pkg: MergePackage): Promise<string> => {
   const version = pkg.debianVersion;
-  const prefix = name.startsWith('lib') ? name.substring(0, 4) : name.substring(0, 1);
-  
-  // Clean version: Remove epoch (e.g., 1:2.3 -> 2.3)
-  const cleanVersion = version.includes(':') ? version.split(':').pop()! : version;
 
-  // Components to try on ftp-master
-  const components = ['main', 'contrib', 'non-free'];
+  const text = await withChangelogCache(`debian/${pkg.name}/${version}`, async () =>
+    await fetchRelayedChangelog(`/changelog/debian/${encodeURIComponent(pkg.name)}/${encodeURIComponent(stripEpoch(version))}`) ??
+    await fetchFirstValidChangelog(getDebianChangelogUrls(pkg.name, version))
+  );
 
-  // Try metadata.ftp-master.debian.org first (more reliable for special chars)
-  for (const comp of components) {
-    // Format: https://metadata.ftp-master.debian.org/changelogs/{component}/{prefix}/{package}/{package}_{version}_changelog
-    const url = `https://metadata.ftp-master.debian.org/changelogs/${comp}/${prefix}/${name}/${name}_${cleanVersion}_changelog`;
-    
-    try {
-      const text = await fetchTextWithFallback(url);
-      if (isValidChangelog(text)) {
-        return extractChangelogEntry(text, version);
-      }
-    } catch (e) {
-      // Continue to next component
-    }
+  if (!text) {
+    throw new Error("Debian changelog not found");
   }
+  return text;
+};
 
-  // Fallback to tracker.debian.org if ftp-master fails
-  try {
-    const trackerUrl = `https://tracker.debian.org/media/packages/${prefix}/${name}/changelog-${cleanVersion}`;
-    const text = await fetchTextWithFallback(trackerUrl);
-    if (isValidChangelog(text)) {
-      return extractChangelogEntry(text, version);
-    }
-  } catch (e) {
-    console.warn("Failed to fetch Debian changelog from tracker fallback", e);
-  }
+// Per-package merge REPORT text (parsed by services/mergeReport.ts). Not cached offline: it changes
+// with every run of the merge tool.
+export const fetchPackageReport = async (name: string): Promise<string> => {
+  const text = await fetchFromRelay(`/report/${encodeURIComponent(name)}`, res => res.text()) ??
+    await fetchTextWithFallback(getPackageReportUrl(name));
 
-  throw new Error("Debian changelog not found");
+  // Proxies answer a missing file with their own HTML error page
+  if (/^\s*<(!doctype|html)/i.test(text)) {
+    throw new Error(`No merge report for ${name}`);
+  }
+  return text;
 };
+
+// Parsed entries of the Ubuntu changelog, newest first
+export const fetchChangelogEntries = async (pkg: MergePackage): Promise<ChangelogEntry[]> =>
+  parseChangelog(await fetchFullChangelog(pkg));
+
+// Parsed entries of the Debian changelog, newest first
+export const fetchDebianChangelogEntries = async (pkg: MergePackage): Promise<ChangelogEntry[]> =>
+  parseChangelog(await fetchFullDebianChangelog(pkg));
+
+// Ubuntu-specific changes carried on top of the last Debian version
+export const fetchUbuntuDelta = async (pkg: MergePackage): Promise<UbuntuDelta> =>
+  extractUbuntuDeltaFromEntries(await fetchChangelogEntries(pkg));
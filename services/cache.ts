@@ -0,0 +1,154 @@
+import { MergePackage } from '../types';
+
+// Persistent offline cache (IndexedDB).
+// Outside the browser (relay server, scripts) IndexedDB is missing and every call becomes a no-op.
+
+const DB_NAME = 'ubuntu-merges-tracker';
+const DB_VERSION = 3;
+
+// Bumping DB_VERSION creates any store listed here that does not exist yet
+const STORES = ['datasets', 'changelogs', 'snapshots', 'snapshotSummaries', 'syncAnalyses'] as const;
+export type StoreName = typeof STORES[number];
+
+const MERGE_DATA_KEY = 'merges';
+
+export interface CachedMergeData {
+  packages: MergePackage[];
+  fetchedAt: string;
+}
+
+interface CachedChangelog {
+  text: string;
+  fetchedAt: string;
+}
+
+// Wraps an IDBRequest into a Promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Past this the app starts without the cache rather than waiting on IndexedDB
+const OPEN_TIMEOUT_MS = 5000;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>(resolve => {
+      let settled = false;
+      const giveUp = (message: string, error?: unknown) => {
+        if (settled) return;
+        settled = true;
+        console.warn(message, error);
+        resolve(null);
+      };
+      const timer = setTimeout(() => giveUp('IndexedDB did not open in time, offline cache disabled'), OPEN_TIMEOUT_MS);
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(store => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+        });
+      };
+      request.onsuccess = () => {
+        clearTimeout(timer);
+        const db = request.result;
+        // Let another tab upgrade the database; the next call here reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        if (settled) {
+          // Opened after giving up (a blocking tab was closed): use it from now on
+          dbPromise = Promise.resolve(db);
+          return;
+        }
+        settled = true;
+        resolve(db);
+      };
+      // A tab still holding an older version stops the upgrade until it closes
+      request.onblocked = () => giveUp('IndexedDB upgrade blocked by another tab, offline cache disabled for now');
+      request.onerror = () => {
+        clearTimeout(timer);
+        // Private browsing modes may refuse IndexedDB; the app keeps working without a cache
+        giveUp('IndexedDB unavailable, offline cache disabled', request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const readRecord = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return promisify<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const readAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  if (!db) return [];
+  return promisify<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const listKeys = async (store: StoreName): Promise<string[]> => {
+  const db = await openDb();
+  if (!db) return [];
+  return (await promisify(db.transaction(store, 'readonly').objectStore(store).getAllKeys())).map(String);
+};
+
+export const writeRecord = async (store: StoreName, key: string, value: unknown): Promise<void> => {
+  const db = await openDb();
+  if (!db) return;
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const deleteRecords = async (store: StoreName, keys: string[]): Promise<void> => {
+  const db = await openDb();
+  if (!db || keys.length === 0) return;
+  const tx = db.transaction(store, 'readwrite');
+  await Promise.all(keys.map(key => promisify(tx.objectStore(store).delete(key))));
+};
+
+// --- Merge datasets ---
+
+export const loadCachedMergeData = async (): Promise<CachedMergeData | null> => {
+  try {
+    return (await readRecord<CachedMergeData>('datasets', MERGE_DATA_KEY)) || null;
+  } catch (e) {
+    console.warn('Failed to read cached merge data', e);
+    return null;
+  }
+};
+
+export const saveMergeData = async (packages: MergePackage[]): Promise<void> => {
+  try {
+    await writeRecord('datasets', MERGE_DATA_KEY, { packages, fetchedAt: new Date().toISOString() });
+  } catch (e) {
+    console.warn('Failed to cache merge data', e);
+  }
+};
+
+// --- Changelogs ---
+// Keyed by distro/package/version. A published changelog never changes, so entries do not expire.
+
+export const loadCachedChangelog = async (key: string): Promise<string | null> => {
+  try {
+    const record = await readRecord<CachedChangelog>('changelogs', key);
+    return record ? record.text : null;
+  } catch (e) {
+    console.warn(`Failed to read cached changelog ${key}`, e);
+    return null;
+  }
+};
+
+export const saveChangelog = async (key: string, text: string): Promise<void> => {
+  try {
+    await writeRecord('changelogs', key, { text, fetchedAt: new Date().toISOString() });
+  } catch (e) {
+    console.warn(`Failed to cache changelog ${key}`, e);
+  }
+};
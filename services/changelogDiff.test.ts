@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseChangelog } from './changelogParser';
+import { DiffLine, diffLines, diffWords, findChangesInDebian, foldUnchanged } from './changelogDiff';
+
+const text = (line: DiffLine) => line.segments.map(segment => segment.text).join('');
+
+describe('diffLines', () => {
+  it('rebuilds both inputs from its context, removed and added lines', () => {
+    const oldLines = ['a', 'b', 'c', 'd', 'e'];
+    const newLines = ['a', 'c', 'x', 'd', 'e', 'f'];
+    const lines = diffLines(oldLines, newLines);
+    assert.deepEqual(lines.filter(line => line.kind !== 'added').map(text), oldLines);
+    assert.deepEqual(lines.filter(line => line.kind !== 'removed').map(text), newLines);
+    assert.deepEqual(lines.filter(line => line.kind !== 'added').map(line => line.oldIndex), [0, 1, 2, 3, 4]);
+    assert.deepEqual(lines.filter(line => line.kind !== 'removed').map(line => line.newIndex), [0, 1, 2, 3, 4, 5]);
+  });
+
+  it('highlights the changed words of a modified line', () => {
+    const [removed, added] = diffLines(['  * Fix the build with GCC 13.'], ['  * Fix the build with GCC 14.']);
+    assert.deepEqual(removed.segments.filter(segment => segment.changed).map(segment => segment.text), ['13']);
+    assert.deepEqual(added.segments.filter(segment => segment.changed).map(segment => segment.text), ['14']);
+  });
+});
+
+describe('diffWords', () => {
+  it('keeps every token of both lines', () => {
+    const words = diffWords('Update Standards-Version to 4.6.2', 'Update Standards-Version to 4.7.0')!;
+    assert.equal(words.old.map(segment => segment.text).join(''), 'Update Standards-Version to 4.6.2');
+    assert.equal(words.new.map(segment => segment.text).join(''), 'Update Standards-Version to 4.7.0');
+  });
+
+  it('returns null for lines below the similarity threshold', () => {
+    assert.equal(diffWords('New upstream release.', 'Drop obsolete patches, applied upstream'), null);
+  });
+});
+
+describe('foldUnchanged', () => {
+  const fold = (items: string) => foldUnchanged([...items], item => item === '.', 1).map(block =>
+    block.kind === 'folded' ? `(${block.id}:${block.items.length})` : block.items.join(''));
+
+  it('folds leading and trailing runs without context beyond the change', () => {
+    assert.deepEqual(fold('....x....'), ['(0:3)', '.x.', '(6:3)']);
+  });
+
+  it('keeps context on both sides of a fold between changes', () => {
+    assert.deepEqual(fold('x.....y'), ['x.', '(2:3)', '.y']);
+  });
+
+  it('leaves runs too short to fold', () => {
+    assert.deepEqual(fold('..x..'), ['..x..']);
+    assert.deepEqual(fold('x...y'), ['x...y']);
+  });
+});
+
+describe('findChangesInDebian', () => {
+  const entry = (version: string, ...changes: string[]) => `hello (${version}) unstable; urgency=medium
+
+${changes.map(change => `  * ${change}`).join('\n')}
+
+ -- Jane Doe <jane@example.com>  Mon, 01 Jan 2024 00:00:00 +0000
+`;
+
+  it('flags a cherry-picked change with a different bug reference as already in Debian', () => {
+    const ubuntu = parseChangelog(entry('2.10-3ubuntu1', 'Fix the locale fallback for unknown locales (LP: #2002).', 'Keep the Ubuntu greeting.'));
+    const debian = parseChangelog(entry('2.10-4', 'Fix the locale fallback for unknown locales. Closes: #1001'));
+    const shared = findChangesInDebian(ubuntu, debian);
+    assert.deepEqual([...shared].map(([change, version]) => [change.text, version]), [
+      ['Fix the locale fallback for unknown locales (LP: #2002).', '2.10-4']
+    ]);
+  });
+
+  it('ignores Debian entries in the Ubuntu changelog and short changes', () => {
+    const ubuntu = parseChangelog([entry('2.10-3ubuntu1', 'Team upload.'), entry('2.10-3', 'Fix the locale fallback for unknown locales.')].join('\n'));
+    const debian = parseChangelog(entry('2.10-4', 'Team upload.', 'Fix the locale fallback for unknown locales.'));
+    assert.equal(findChangesInDebian(ubuntu, debian).size, 0);
+  });
+});
@@ -0,0 +1,290 @@
+import { ChangelogChange, ChangelogEntry } from '../types';
+import { isUbuntuVersion } from './changelogParser';
+
+// Line and word diffs between the Ubuntu and Debian changelogs (components/ComparisonModal.tsx).
+// Myers' O((N+M)D) algorithm on lines, then again on the words of each changed line pair.
+
+type EditKind = 'equal' | 'delete' | 'insert';
+
+interface Edit {
+  kind: EditKind;
+  a: number; // Index in the old sequence (equal, delete)
+  b: number; // Index in the new sequence (equal, insert)
+}
+
+// Beyond this many edits the two texts have little in common; they are shown as replaced wholesale
+// rather than spending time and memory on the trace.
+const MAX_EDITS = 1000;
+
+const myers = <T>(a: T[], b: T[]): Edit[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, MAX_EDITS);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m, offset);
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number, offset: number): Edit[] => {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--; y--;
+      edits.push({ kind: 'equal', a: x, b: y });
+    }
+    if (prevK === k + 1) edits.push({ kind: 'insert', a: x, b: prevY });
+    else edits.push({ kind: 'delete', a: prevX, b: y });
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    x--; y--;
+    edits.push({ kind: 'equal', a: x, b: y });
+  }
+  return edits.reverse();
+};
+
+// Edit script with the common head and tail trimmed first (changelogs share most of their history)
+const diffSequences = <T>(a: T[], b: T[]): Edit[] => {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  const middle = myers(midA, midB) ?? [
+    ...midA.map((_, i) => ({ kind: 'delete' as const, a: i, b: 0 })),
+    ...midB.map((_, i) => ({ kind: 'insert' as const, a: midA.length, b: i }))
+  ];
+
+  return [
+    ...Array.from({ length: head }, (_, i): Edit => ({ kind: 'equal', a: i, b: i })),
+    ...middle.map(edit => ({ ...edit, a: edit.a + head, b: edit.b + head })),
+    ...Array.from({ length: tail }, (_, i): Edit => ({ kind: 'equal', a: a.length - tail + i, b: b.length - tail + i }))
+  ];
+};
+
+// --- Line diff ---
+
+export type DiffLineKind = 'context' | 'removed' | 'added';
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean; // Word-level highlight
+}
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  oldIndex: number | null; // 0-based line index in the old text
+  newIndex: number | null;
+  segments: DiffSegment[];
+}
+
+// Words, runs of whitespace and single punctuation characters
+const tokenize = (line: string) => line.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) || [];
+
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] =>
+  segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.changed === segment.changed) last.text += segment.text;
+    else merged.push({ ...segment });
+    return merged;
+  }, []);
+
+// Below this share of unchanged characters the two lines are unrelated and highlighting words is noise
+const MIN_WORD_SIMILARITY = 0.4;
+
+export const diffWords = (oldLine: string, newLine: string): { old: DiffSegment[]; new: DiffSegment[] } | null => {
+  const a = tokenize(oldLine);
+  const b = tokenize(newLine);
+  const edits = diffSequences(a, b);
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+  let common = 0;
+  edits.forEach(edit => {
+    if (edit.kind === 'equal') {
+      common += a[edit.a].length;
+      oldSegments.push({ text: a[edit.a], changed: false });
+      newSegments.push({ text: b[edit.b], changed: false });
+    } else if (edit.kind === 'delete') {
+      oldSegments.push({ text: a[edit.a], changed: true });
+    } else {
+      newSegments.push({ text: b[edit.b], changed: true });
+    }
+  });
+  if (common / Math.max(oldLine.length, newLine.length, 1) < MIN_WORD_SIMILARITY) return null;
+  return { old: mergeSegments(oldSegments), new: mergeSegments(newSegments) };
+};
+
+const plain = (text: string): DiffSegment[] => [{ text, changed: false }];
+
+// Unified diff of two texts, line by line. Each run of removed lines is followed by its added lines;
+// removed and added lines at the same position within a run get word-level highlights.
+export const diffLines = (oldLines: string[], newLines: string[]): DiffLine[] => {
+  const result: DiffLine[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    removed.forEach((line, i) => {
+      const pair = added[i];
+      if (!pair) return;
+      const words = diffWords(oldLines[line.oldIndex!], newLines[pair.newIndex!]);
+      if (words) {
+        line.segments = words.old;
+        pair.segments = words.new;
+      }
+    });
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  diffSequences(oldLines, newLines).forEach(edit => {
+    if (edit.kind === 'equal') {
+      flush();
+      result.push({ kind: 'context', oldIndex: edit.a, newIndex: edit.b, segments: plain(oldLines[edit.a]) });
+    } else if (edit.kind === 'delete') {
+      removed.push({ kind: 'removed', oldIndex: edit.a, newIndex: null, segments: plain(oldLines[edit.a]) });
+    } else {
+      added.push({ kind: 'added', oldIndex: null, newIndex: edit.b, segments: plain(newLines[edit.b]) });
+    }
+  });
+  flush();
+  return result;
+};
+
+// Side-by-side rows: context lines on both sides, removed lines next to the added lines of the same run
+export interface SplitRow {
+  old: DiffLine | null;
+  new: DiffLine | null;
+}
+
+export const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].kind === 'context') {
+      rows.push({ old: lines[i], new: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].kind === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].kind === 'added') added.push(lines[i++]);
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ old: removed[j] ?? null, new: added[j] ?? null });
+    }
+  }
+  return rows;
+};
+
+// --- Collapsing unchanged regions ---
+
+export type FoldedBlock<T> =
+  | { kind: 'shown'; items: T[] }
+  | { kind: 'folded'; id: number; items: T[] }; // id: index of the first hidden item, stable while the diff is
+
+// Hides runs of unchanged items longer than twice the context, keeping `context` items around each change
+export const foldUnchanged = <T>(items: T[], isUnchanged: (item: T) => boolean, context: number = 3): FoldedBlock<T>[] => {
+  const blocks: FoldedBlock<T>[] = [];
+  const show = (slice: T[]) => {
+    if (slice.length === 0) return;
+    const last = blocks[blocks.length - 1];
+    if (last?.kind === 'shown') last.items.push(...slice);
+    else blocks.push({ kind: 'shown', items: slice });
+  };
+
+  for (let i = 0; i < items.length;) {
+    if (!isUnchanged(items[i])) {
+      show([items[i]]);
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < items.length && isUnchanged(items[end])) end++;
+    // No context is needed before the first change or after the last one
+    const before = i === 0 ? 0 : context;
+    const after = end === items.length ? 0 : context;
+    if (end - i > before + after + 1) {
+      show(items.slice(i, i + before));
+      blocks.push({ kind: 'folded', id: i + before, items: items.slice(i + before, end - after) });
+      show(items.slice(end - after, end));
+    } else {
+      show(items.slice(i, end));
+    }
+    i = end;
+  }
+  return blocks;
+};
+
+// --- Changes shared by both changelogs ---
+
+// Bug references, punctuation and case differ between a cherry-pick and its Debian counterpart
+export const normalizeChangeText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/\(?\s*(closes:\s*(bug)?#?\s?\d+(,\s*(bug)?#?\s?\d+)*|lp:\s*#\d+(,\s*#\d+)*)\s*\)?/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Changes of the Ubuntu uploads (ubuntuN entries) that a Debian entry has too, mapped to that Debian version
+export const findChangesInDebian = (ubuntuEntries: ChangelogEntry[], debianEntries: ChangelogEntry[]): Map<ChangelogChange, string> => {
+  const debianChanges = new Map<string, string>();
+  debianEntries.forEach(entry => entry.changes.forEach(change => {
+    const key = normalizeChangeText(change.text);
+    // Bare words ("New upstream release") say nothing about a cherry-pick
+    if (key.split(' ').length >= 3 && !debianChanges.has(key)) debianChanges.set(key, entry.version);
+  }));
+
+  const shared = new Map<ChangelogChange, string>();
+  ubuntuEntries.filter(entry => isUbuntuVersion(entry.version)).forEach(entry => entry.changes.forEach(change => {
+    const version = debianChanges.get(normalizeChangeText(change.text));
+    if (version) shared.set(change, version);
+  }));
+  return shared;
+};
+
+// --- Diff input ---
+
+export interface ChangelogLine {
+  text: string;
+  sharedWith?: string; // Debian version that has the change starting on this line
+}
+
+const BULLET_REGEX = /^\s+[*+-]\s+(.*)$/;
+
+// The raw text of the entries, one item per line, with bullets that start a shared change marked
+export const toChangelogLines = (entries: ChangelogEntry[], shared: Map<ChangelogChange, string> = new Map()): ChangelogLine[] =>
+  entries.flatMap((entry, idx) => {
+    let next = 0; // Changes appear in the raw text in order
+    const lines: ChangelogLine[] = entry.raw.split('\n').map(text => {
+      const bullet = text.match(BULLET_REGEX);
+      if (!bullet) return { text };
+      const index = entry.changes.findIndex((change, i) => i >= next && change.text.startsWith(bullet[1].trim()));
+      if (index === -1) return { text };
+      next = index + 1;
+      return { text, sharedWith: shared.get(entry.changes[index]) };
+    });
+    return idx < entries.length - 1 ? [...lines, { text: '' }] : lines;
+  });
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isUbuntuVersion, parseChangelog, splitUbuntuDelta } from './changelogParser';
+
+const entry = (version: string, change: string) => `hello (${version}) unstable; urgency=medium
+
+  * ${change}
+
+ -- Jane Doe <jane@example.com>  Mon, 01 Jan 2024 00:00:00 +0000
+`;
+
+const changelog = (...entries: [string, string][]) => entries.map(([version, change]) => entry(version, change)).join('\n');
+
+describe('isUbuntuVersion', () => {
+  it('recognizes ubuntuN and buildN versions', () => {
+    assert.ok(isUbuntuVersion('2.10-3ubuntu1'));
+    assert.ok(isUbuntuVersion('2.10-3ubuntu1~22.04.1'));
+    assert.ok(isUbuntuVersion('2.10-3build1'));
+    assert.ok(isUbuntuVersion('1:2.10-3build2'));
+  });
+
+  it('leaves Debian versions alone, "build" in the upstream part included', () => {
+    assert.ok(!isUbuntuVersion('2.10-3'));
+    assert.ok(!isUbuntuVersion('1.0+build5-1'));
+  });
+});
+
+describe('splitUbuntuDelta', () => {
+  it('splits the Ubuntu uploads from the Debian base', () => {
+    const { delta, baseVersion } = splitUbuntuDelta(parseChangelog(changelog(
+      ['2.10-3ubuntu2', 'Fix the build.'],
+      ['2.10-3ubuntu1', 'Keep the greeting.'],
+      ['2.10-3', 'New packaging.'],
+      ['2.10-2', 'Older.']
+    )));
+    assert.deepEqual(delta.map(e => e.version), ['2.10-3ubuntu2', '2.10-3ubuntu1']);
+    assert.equal(baseVersion, '2.10-3');
+  });
+
+  it('skips buildN rebuilds when looking for the base', () => {
+    const { delta, baseVersion } = splitUbuntuDelta(parseChangelog(changelog(
+      ['2.10-3ubuntu1', 'Keep the greeting.'],
+      ['2.10-2build1', 'No-change rebuild for the libfoo transition.'],
+      ['2.10-2', 'New packaging.']
+    )));
+    assert.deepEqual(delta.map(e => e.version), ['2.10-3ubuntu1', '2.10-2build1']);
+    assert.equal(baseVersion, '2.10-2');
+  });
+
+  it('has no base when every entry is an Ubuntu upload', () => {
+    const { delta, baseVersion } = splitUbuntuDelta(parseChangelog(changelog(['1.0-0ubuntu1', 'Initial release.'])));
+    assert.equal(delta.length, 1);
+    assert.equal(baseVersion, undefined);
+  });
+});
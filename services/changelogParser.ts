@@ -0,0 +1,171 @@
+import { ChangelogChange, ChangelogEntry } from '../types';
+import { compareDebianVersions, parseDebianVersion } from './debVersion';
+
+// Parser for the debian/changelog format (Debian Policy 4.4):
+//
+//   package (version) distribution(s); urgency=urgency
+//
+//     [ Optional Author ]
+//     * change details
+//       - more change details
+//
+//    -- maintainer name <email address>  date
+
+const HEADER_REGEX = /^(\S+)\s+\(([^)]+)\)\s*([^;]*);?\s*(.*)$/;
+const TRAILER_REGEX = /^ -- (.+?)\s{2,}(.+?)\s*$/;
+const AUTHOR_REGEX = /^\s+\[\s*(.+?)\s*\]\s*$/;
+const CHANGE_REGEX = /^(\s+)([*+-])\s+(.*)$/;
+
+// Closes: #123, #456 / Closes: bug#123 (Debian Policy 4.4)
+const CLOSES_REGEX = /closes:\s*(?:bug)?#?\s?\d+(?:,\s*(?:bug)?#?\s?\d+)*/gi;
+// LP: #123, #456 (Launchpad)
+const LP_REGEX = /lp:\s*#\d+(?:,\s*#\d+)*/gi;
+
+const collectBugs = (text: string, regex: RegExp): string[] => {
+  const bugs: string[] = [];
+  (text.match(regex) || []).forEach(match => {
+    (match.match(/\d+/g) || []).forEach(num => bugs.push(num));
+  });
+  return bugs;
+};
+
+// Indentation of "*" is 2 spaces, of "-" 4, of "+" 6...
+const changeLevel = (indent: string, marker: string) => {
+  if (marker === '*') return 0;
+  return Math.max(1, Math.floor((indent.length - 2) / 2));
+};
+
+interface PendingEntry {
+  source: string;
+  version: string;
+  distributions: string[];
+  urgency: string;
+  changes: ChangelogChange[];
+  lines: string[];
+  author?: string;
+}
+
+export const parseChangelog = (text: string): ChangelogEntry[] => {
+  const entries: ChangelogEntry[] = [];
+  let current: PendingEntry | null = null;
+
+  const finish = (maintainer: string, date: string) => {
+    if (!current) return;
+    const body = current.changes.map(c => c.text).join('\n');
+    entries.push({
+      source: current.source,
+      version: current.version,
+      distributions: current.distributions,
+      urgency: current.urgency,
+      changes: current.changes,
+      closes: Array.from(new Set(collectBugs(body, CLOSES_REGEX))),
+      launchpadBugs: Array.from(new Set(collectBugs(body, LP_REGEX))),
+      maintainer,
+      date,
+      raw: current.lines.join('\n').trim()
+    });
+    current = null;
+  };
+
+  for (const line of text.split('\n')) {
+    const header = line.match(HEADER_REGEX);
+    if (header && !/^\s/.test(line)) {
+      // A header without a preceding trailer: keep the unfinished entry rather than losing it
+      finish('', '');
+      const urgency = (header[4].match(/urgency=(\S+)/i) || [])[1] || '';
+      current = {
+        source: header[1],
+        version: header[2].trim(),
+        distributions: header[3].trim().split(/\s+/).filter(Boolean),
+        urgency: urgency.replace(/,$/, ''),
+        changes: [],
+        lines: [line]
+      };
+      continue;
+    }
+    if (!current) continue;
+    current.lines.push(line);
+
+    const trailer = line.match(TRAILER_REGEX);
+    if (trailer) {
+      finish(trailer[1].trim(), trailer[2].trim());
+      continue;
+    }
+
+    const author = line.match(AUTHOR_REGEX);
+    if (author) {
+      current.author = author[1];
+      continue;
+    }
+
+    const change = line.match(CHANGE_REGEX);
+    if (change) {
+      current.changes.push({
+        text: change[3].trim(),
+        level: changeLevel(change[1], change[2]),
+        author: current.author
+      });
+    } else if (line.trim() && current.changes.length > 0) {
+      // Continuation of a wrapped change line
+      current.changes[current.changes.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+
+  // Truncated file: keep the entry we were reading
+  finish('', '');
+  return entries;
+};
+
+// --- Entry selection ---
+
+// Versions match if equal, ignoring the epoch (URLs and some reports drop it)
+const sameVersion = (a: string, b: string) => {
+  const pa = parseDebianVersion(a);
+  const pb = parseDebianVersion(b);
+  if (!pa || !pb) return a === b;
+  return pa.upstream === pb.upstream && pa.revision === pb.revision;
+};
+
+export const findEntryIndex = (entries: ChangelogEntry[], version: string) =>
+  entries.findIndex(e => sameVersion(e.version, version));
+
+// Entries with baseVersion < version <= upToVersion (newest first). Without a known upper bound, everything
+// newer than the base is returned.
+export const selectEntriesBetween = (entries: ChangelogEntry[], baseVersion: string | undefined, upToVersion?: string): ChangelogEntry[] =>
+  entries.filter(e =>
+    (!baseVersion || compareDebianVersions(e.version, baseVersion) > 0) &&
+    (!upToVersion || !parseDebianVersion(upToVersion) || compareDebianVersions(e.version, upToVersion) <= 0)
+  );
+
+// "ubuntuN" uploads, and "buildN" no-change rebuilds (a suffix only: "1.0+build5-1" is a Debian version)
+export const isUbuntuVersion = (version: string) => /ubuntu/i.test(version) || /build\d[\w.+~]*$/i.test(version);
+
+// The uploads Ubuntu carries on top of Debian: leading "ubuntuN" and "buildN" entries, and the Debian version they start from
+export const splitUbuntuDelta = (entries: ChangelogEntry[]): { delta: ChangelogEntry[]; baseVersion?: string } => {
+  const baseIndex = entries.findIndex(e => !isUbuntuVersion(e.version));
+  if (baseIndex === -1) return { delta: entries };
+  return { delta: entries.slice(0, baseIndex), baseVersion: entries[baseIndex].version };
+};
+
+// Which entries a changelog view shows:
+// - current:   the entry of the version in question (falls back to the latest entry)
+// - sinceBase: everything newer than the Debian version Ubuntu is based on, up to the version in question
+// - all:       the whole file
+export type ChangelogRange = 'current' | 'sinceBase' | 'all';
+
+export const selectChangelogRange = (
+  entries: ChangelogEntry[],
+  range: ChangelogRange,
+  version: string,
+  baseVersion?: string
+): ChangelogEntry[] => {
+  if (range === 'all') return entries;
+  if (range === 'sinceBase' && baseVersion) return selectEntriesBetween(entries, baseVersion, version);
+
+  const index = findEntryIndex(entries, version);
+  return index !== -1 ? [entries[index]] : entries.slice(0, 1);
+};
+
+// Distinct Debian bugs closed across the given entries
+export const collectClosedBugs = (entries: ChangelogEntry[]): string[] =>
+  Array.from(new Set(entries.flatMap(e => e.closes)));
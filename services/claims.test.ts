@@ -0,0 +1,53 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Claim, ClaimStore, claimPackage, loadClaims, releaseClaim, sanitizeClaim, setClaimStore } from './claims';
+
+// In-memory store, so claimPackage runs as in the browser
+const createMemoryStore = (initial: Claim[] = []): ClaimStore => {
+  let claims = [...initial];
+  return {
+    kind: 'local',
+    label: 'Memory',
+    load: async () => claims,
+    save: async (claim) => {
+      claims = [...claims.filter(c => c.package !== claim.package), claim];
+      return claim;
+    },
+    remove: async (name) => {
+      claims = claims.filter(c => c.package !== name);
+    }
+  };
+};
+
+const OLD = '2024-01-01T00:00:00.000Z';
+
+describe('claimPackage', () => {
+  afterEach(() => releaseClaim('hello'));
+
+  it('keeps claimedAt when the claimant edits their claim', async () => {
+    setClaimStore(createMemoryStore([{ package: 'hello', claimedBy: 'Jane Doe', claimedAt: OLD }]));
+    await loadClaims();
+    const saved = await claimPackage({ package: 'hello', claimedBy: 'jane doe', note: 'Waiting on upstream' });
+    assert.equal(saved.claimedAt, OLD);
+    assert.equal(saved.note, 'Waiting on upstream');
+  });
+
+  it('restarts claimedAt when someone else takes over', async () => {
+    setClaimStore(createMemoryStore([{ package: 'hello', claimedBy: 'Jane Doe', claimedAt: OLD }]));
+    await loadClaims();
+    const saved = await claimPackage({ package: 'hello', claimedBy: 'John Smith' });
+    assert.notEqual(saved.claimedAt, OLD);
+  });
+});
+
+describe('sanitizeClaim', () => {
+  it('drops claims without a package or claimant and bad target dates', () => {
+    assert.equal(sanitizeClaim({ package: ' ', claimedBy: 'Jane' }), null);
+    assert.equal(sanitizeClaim({ package: 'hello' }), null);
+    assert.deepEqual(sanitizeClaim({ package: 'hello', claimedBy: ' Jane ', claimedAt: OLD, targetDate: 'soon', note: ' ' }), {
+      package: 'hello',
+      claimedBy: 'Jane',
+      claimedAt: OLD
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+
+// Claims: "I'm working on this merge", so two people don't start the same one.
+// They go through a pluggable store, like upstream data goes through a DataSource (services/dataSource.ts):
+//   local   localStorage, this browser only (default)
+//   server  the relay's JSON file (server/index.ts, /api/claims), shared by everyone using it
+
+export interface Claim {
+  package: string; // Source package name
+  claimedBy: string;
+  note?: string;
+  targetDate?: string; // YYYY-MM-DD
+  claimedAt: string;
+}
+
+export type Claims = Record<string, Claim>; // By package name
+
+export type ClaimStoreKind = 'local' | 'server';
+
+export interface ClaimStore {
+  kind: ClaimStoreKind;
+  label: string;
+  load: () => Promise<Claim[]>;
+  save: (claim: Claim) => Promise<Claim>;
+  remove: (name: string) => Promise<void>;
+}
+
+const STORAGE_KEY = 'ubuntu-merges-tracker:claims';
+const CHANGE_EVENT = 'merges:claims';
+
+// Drops anything malformed, from storage and from the server alike
+export const sanitizeClaim = (raw: any): Claim | null => {
+  if (!raw || typeof raw.package !== 'string' || !raw.package.trim()) return null;
+  if (typeof raw.claimedBy !== 'string' || !raw.claimedBy.trim()) return null;
+  const claim: Claim = {
+    package: raw.package.trim(),
+    claimedBy: raw.claimedBy.trim(),
+    claimedAt: typeof raw.claimedAt === 'string' ? raw.claimedAt : new Date().toISOString()
+  };
+  if (typeof raw.note === 'string' && raw.note.trim()) claim.note = raw.note.trim();
+  if (typeof raw.targetDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.targetDate)) claim.targetDate = raw.targetDate;
+  return claim;
+};
+
+const sanitizeList = (raw: any): Claim[] =>
+  Array.isArray(raw) ? raw.map(sanitizeClaim).filter((c): c is Claim => c !== null) : [];
+
+export const createLocalClaimStore = (key: string = STORAGE_KEY): ClaimStore => {
+  const read = (): Claim[] => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? sanitizeList(JSON.parse(stored)) : [];
+    } catch (e) {
+      console.warn('Failed to read claims', e);
+      return [];
+    }
+  };
+  const write = (claims: Claim[]) => localStorage.setItem(key, JSON.stringify(claims));
+
+  return {
+    kind: 'local',
+    label: 'This browser',
+    load: async () => read(),
+    save: async (claim) => {
+      write([...read().filter(c => c.package !== claim.package), claim]);
+      return claim;
+    },
+    remove: async (name) => write(read().filter(c => c.package !== name))
+  };
+};
+
+export const createServerClaimStore = (
+  baseUrl: string = `${process.env.RELAY_URL ?? '/api'}/claims`,
+  token: string = process.env.CLAIMS_TOKEN || ''
+): ClaimStore => {
+  const request = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const res = await fetch(url, token ? { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } } : init);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error || `Claims server responded ${res.status}`);
+    }
+    return res;
+  };
+  const itemUrl = (name: string) => `${baseUrl}/${encodeURIComponent(name)}`;
+
+  return {
+    kind: 'server',
+    label: `Server (${baseUrl})`,
+    load: async () => sanitizeList(await (await request(baseUrl)).json()),
+    save: async (claim) => {
+      const res = await request(itemUrl(claim.package), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(claim)
+      });
+      return sanitizeClaim(await res.json()) ?? claim;
+    },
+    remove: async (name) => {
+      await request(itemUrl(name), { method: 'DELETE' });
+    }
+  };
+};
+
+// Configuration is read from the environment (injected by vite.config.ts):
+//   CLAIMS_STORE  local | server   (default: local)
+//   CLAIMS_URL    claims endpoint of the server store (default: <RELAY_URL>/claims)
+//   CLAIMS_TOKEN  the relay's CLAIMS_TOKEN, sent with every change (it ends up in the bundle: serve the
+//                 app to the people who may change claims only)
+export const createClaimStoreFromConfig = (kind?: string, location?: string): ClaimStore => {
+  switch ((kind || '').toLowerCase()) {
+    case 'server':
+      return createServerClaimStore(location || undefined);
+    case 'local':
+    case '':
+      return createLocalClaimStore();
+    default:
+      console.warn(`Unknown CLAIMS_STORE "${kind}", keeping claims in this browser`);
+      return createLocalClaimStore();
+  }
+};
+
+let activeStore: ClaimStore | null = null;
+// Last loaded claims, shared by every useClaims() caller
+let current: Claims | null = null;
+
+export const getClaimStore = (): ClaimStore => {
+  if (!activeStore) {
+    activeStore = createClaimStoreFromConfig(process.env.CLAIMS_STORE, process.env.CLAIMS_URL);
+  }
+  return activeStore;
+};
+
+// Overrides the configured store (embedding, scripts)
+export const setClaimStore = (store: ClaimStore) => {
+  activeStore = store;
+  current = null;
+};
+
+// --- Shared state ---
+
+const publish = (claims: Claim[]) => {
+  current = Object.fromEntries(claims.map(c => [c.package, c]));
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+let loading: Promise<Claims> | null = null;
+
+// Concurrent callers (several components mounting at once) share one request
+export const loadClaims = (): Promise<Claims> => {
+  if (!loading) {
+    loading = getClaimStore().load()
+      .then(publish)
+      .catch(e => {
+        console.warn('Failed to load claims', e);
+        if (!current) current = {};
+      })
+      .then(() => current!)
+      .finally(() => { loading = null; });
+  }
+  return loading;
+};
+
+const sameClaimant = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Editing your own claim (its note or target date) keeps the time it was first claimed
+export const claimPackage = async (input: Omit<Claim, 'claimedAt'>): Promise<Claim> => {
+  const existing = current?.[input.package?.trim()];
+  const claimedAt = existing && sameClaimant(existing.claimedBy, input.claimedBy || '') ? existing.claimedAt : new Date().toISOString();
+  const claim = sanitizeClaim({ ...input, claimedAt });
+  if (!claim) {
+    throw new Error('A claim needs a package and a name');
+  }
+  const saved = await getClaimStore().save(claim);
+  publish([...Object.values(current || {}).filter(c => c.package !== saved.package), saved]);
+  return saved;
+};
+
+export const releaseClaim = async (name: string): Promise<void> => {
+  await getClaimStore().remove(name);
+  publish(Object.values(current || {}).filter(c => c.package !== name));
+};
+
+// Past its target date
+export const isClaimOverdue = (claim: Claim, now: Date = new Date()) =>
+  !!claim.targetDate && claim.targetDate < now.toISOString().slice(0, 10);
+
+export const useClaims = (): Claims => {
+  const [claims, setClaims] = useState<Claims>(current || {});
+
+  useEffect(() => {
+    const update = () => setClaims(current || {});
+    // Other tabs writing the local store
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY && getClaimStore().kind === 'local') loadClaims();
+    };
+    window.addEventListener(CHANGE_EVENT, update);
+    window.addEventListener('storage', onStorage);
+    if (!current) loadClaims(); else update();
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, update);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return claims;
+};
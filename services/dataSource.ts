@@ -0,0 +1,130 @@
+// Pluggable data-source layer.
+// Every upstream request (merge reports, changelogs, ...) goes through the active DataSource,
+// so the app can run against public CORS proxies, a self-hosted relay or recorded fixtures.
+
+export type DataSourceKind = 'direct' | 'proxy' | 'relay' | 'local';
+
+export interface DataSource {
+  kind: DataSourceKind;
+  label: string;
+  fetchJson: (targetUrl: string) => Promise<any>;
+  fetchText: (targetUrl: string) => Promise<string>;
+}
+
+export type ProxyGenerator = (url: string) => string;
+
+// Use a rotating set of CORS proxies to ensure reliability.
+// corsproxy.io is prioritized as it handles large files better.
+export const DEFAULT_PROXIES: ProxyGenerator[] = [
+  (url: string) => `https://corsproxy.io/?${encodeURIComponent(url)}`,
+  (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
+  (url: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(url)}`
+];
+
+// Host of the merge reports. Requests for it are mapped to the root of a local fixture directory.
+export const MERGES_HOST = 'merges.ubuntu.com';
+
+const fetchOk = async (url: string): Promise<Response> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Response status: ${res.status}`);
+  }
+  return res;
+};
+
+// Plain fetch, for environments without CORS restrictions (Node, browser extensions, same-origin mirrors)
+export const createDirectSource = (): DataSource => ({
+  kind: 'direct',
+  label: 'Direct',
+  fetchJson: async (targetUrl) => (await fetchOk(targetUrl)).json(),
+  fetchText: async (targetUrl) => (await fetchOk(targetUrl)).text()
+});
+
+// Tries each proxy in turn. If either network or parsing fails, it moves on to the next one.
+export const createProxyChainSource = (proxies: ProxyGenerator[] = DEFAULT_PROXIES): DataSource => {
+  const tryEach = async <T>(targetUrl: string, read: (res: Response) => Promise<T>): Promise<T> => {
+    let lastError: any;
+    for (const proxyGen of proxies) {
+      try {
+        const res = await fetchOk(proxyGen(targetUrl));
+        // We await the body here to catch "Content-Length mismatch" or malformed JSON errors
+        // within the try block, so we can fail over to the next proxy.
+        return await read(res);
+      } catch (e) {
+        console.warn(`Proxy request failed for ${targetUrl}. Trying next...`, e);
+        lastError = e;
+      }
+    }
+    throw lastError || new Error(`Unable to fetch ${targetUrl} from any proxy.`);
+  };
+
+  return {
+    kind: 'proxy',
+    label: 'CORS Proxy Chain',
+    fetchJson: (targetUrl) => tryEach(targetUrl, res => res.json()),
+    fetchText: (targetUrl) => tryEach(targetUrl, res => res.text())
+  };
+};
+
+// Same-origin relay: `${relayUrl}?url=<target>` is fetched server-side by a relay we control
+export const createRelaySource = (relayUrl: string = '/api/fetch'): DataSource => {
+  const toRelayUrl = (targetUrl: string) => `${relayUrl}?url=${encodeURIComponent(targetUrl)}`;
+  return {
+    kind: 'relay',
+    label: `Relay (${relayUrl})`,
+    fetchJson: async (targetUrl) => (await fetchOk(toRelayUrl(targetUrl))).json(),
+    fetchText: async (targetUrl) => (await fetchOk(toRelayUrl(targetUrl))).text()
+  };
+};
+
+// Maps an upstream URL onto a static file layout:
+//   https://merges.ubuntu.com/main.json             -> {baseDir}/main.json
+//   https://changelogs.ubuntu.com/changelogs/pool/… -> {baseDir}/changelogs.ubuntu.com/changelogs/pool/…
+export const toLocalPath = (targetUrl: string, baseDir: string): string => {
+  const url = new URL(targetUrl);
+  const base = baseDir.replace(/\/+$/, '');
+  const path = decodeURIComponent(url.pathname);
+  return url.hostname === MERGES_HOST ? `${base}${path}` : `${base}/${url.hostname}${path}`;
+};
+
+// Static JSON/text files (recorded snapshots), e.g. for offline use and tests
+export const createLocalSource = (baseDir: string = '/fixtures'): DataSource => ({
+  kind: 'local',
+  label: `Local files (${baseDir})`,
+  fetchJson: async (targetUrl) => (await fetchOk(toLocalPath(targetUrl, baseDir))).json(),
+  fetchText: async (targetUrl) => (await fetchOk(toLocalPath(targetUrl, baseDir))).text()
+});
+
+// Configuration is read from the environment (injected by vite.config.ts in the browser):
+//   DATA_SOURCE      direct | proxy | relay | local   (default: proxy)
+//   DATA_SOURCE_URL  relay endpoint or fixture directory, depending on the kind
+export const createDataSourceFromConfig = (kind?: string, location?: string): DataSource => {
+  switch ((kind || '').toLowerCase()) {
+    case 'direct':
+      return createDirectSource();
+    case 'relay':
+      return createRelaySource(location || undefined);
+    case 'local':
+      return createLocalSource(location || undefined);
+    case 'proxy':
+    case '':
+      return createProxyChainSource();
+    default:
+      console.warn(`Unknown DATA_SOURCE "${kind}", falling back to the CORS proxy chain`);
+      return createProxyChainSource();
+  }
+};
+
+let activeSource: DataSource | null = null;
+
+export const getDataSource = (): DataSource => {
+  if (!activeSource) {
+    activeSource = createDataSourceFromConfig(process.env.DATA_SOURCE, process.env.DATA_SOURCE_URL);
+  }
+  return activeSource;
+};
+
+// Overrides the configured source (embedding, scripts, tests)
+export const setDataSource = (source: DataSource) => {
+  activeSource = source;
+};
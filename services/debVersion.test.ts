@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { VersionGap } from '../types';
+import { classifyVersionGap, compareDebianVersions, getUbuntuBaseVersion, parseDebianVersion } from './debVersion';
+
+describe('parseDebianVersion', () => {
+  it('splits epoch, upstream and revision', () => {
+    assert.deepEqual(parseDebianVersion('1:2.3-4ubuntu1'), { epoch: 1, upstream: '2.3', revision: '4ubuntu1' });
+    assert.deepEqual(parseDebianVersion('2.3'), { epoch: 0, upstream: '2.3', revision: '' });
+  });
+
+  it('takes the revision after the last hyphen', () => {
+    assert.deepEqual(parseDebianVersion('1.0-beta-2'), { epoch: 0, upstream: '1.0-beta', revision: '2' });
+  });
+
+  it('rejects empty versions and bad epochs', () => {
+    assert.equal(parseDebianVersion(''), null);
+    assert.equal(parseDebianVersion('N/A'), null);
+    assert.equal(parseDebianVersion('x:1.0-1'), null);
+  });
+});
+
+describe('compareDebianVersions', () => {
+  it('sorts a tilde before anything, even the end of the version', () => {
+    assert.equal(compareDebianVersions('1.0~rc1-1', '1.0-1'), -1);
+    assert.equal(compareDebianVersions('1.0~rc1', '1.0~rc2'), -1);
+    assert.equal(compareDebianVersions('1.0~~', '1.0~'), -1);
+    assert.equal(compareDebianVersions('1.0-1~bpo1', '1.0-1'), -1);
+  });
+
+  it('lets the epoch win over everything else', () => {
+    assert.equal(compareDebianVersions('1:1.0-1', '9.9-9'), 1);
+    assert.equal(compareDebianVersions('2.0-1', '1:1.0-1'), -1);
+    assert.equal(compareDebianVersions('0:1.0-1', '1.0-1'), 0);
+  });
+
+  it('compares digit runs as numbers', () => {
+    assert.equal(compareDebianVersions('1.10', '1.9'), 1);
+    assert.equal(compareDebianVersions('1.9', '1.10'), -1);
+    assert.equal(compareDebianVersions('1.01', '1.1'), 0);
+    assert.equal(compareDebianVersions('2.10-3ubuntu10', '2.10-3ubuntu9'), 1);
+  });
+
+  it('sorts letters before other characters and "+" after the end', () => {
+    assert.equal(compareDebianVersions('1.0a', '1.0+'), -1);
+    assert.equal(compareDebianVersions('1.0+dfsg-1', '1.0-1'), 1);
+  });
+
+  it('puts Ubuntu revisions between the Debian ones', () => {
+    assert.equal(compareDebianVersions('2.10-3ubuntu1', '2.10-3'), 1);
+    assert.equal(compareDebianVersions('2.10-3ubuntu1', '2.10-4'), -1);
+    assert.equal(compareDebianVersions('2.10-3build1', '2.10-3ubuntu1'), -1);
+  });
+
+  it('sorts unparsable versions first', () => {
+    assert.equal(compareDebianVersions('N/A', '0-1'), -1);
+    assert.equal(compareDebianVersions('1.0-1', 'N/A'), 1);
+    assert.equal(compareDebianVersions('N/A', ''), 0);
+  });
+});
+
+describe('classifyVersionGap', () => {
+  it('tells the kind of merge apart', () => {
+    assert.equal(classifyVersionGap('2.10-3ubuntu1', '2.11-1'), VersionGap.UPSTREAM_BUMP);
+    assert.equal(classifyVersionGap('2.10-3ubuntu1', '2.10-4'), VersionGap.DEBIAN_REVISION);
+    assert.equal(classifyVersionGap('2.10-3ubuntu1', '1:2.10-4'), VersionGap.EPOCH_CHANGE);
+    assert.equal(classifyVersionGap('2.10-4ubuntu1', '2.10-4'), VersionGap.UBUNTU_AHEAD);
+    assert.equal(classifyVersionGap('N/A', '2.10-4'), VersionGap.UNKNOWN);
+  });
+});
+
+describe('getUbuntuBaseVersion', () => {
+  it('strips the ubuntuN and buildN suffixes', () => {
+    assert.equal(getUbuntuBaseVersion('2.10-3ubuntu2'), '2.10-3');
+    assert.equal(getUbuntuBaseVersion('1:1.2-3build1'), '1:1.2-3');
+    assert.equal(getUbuntuBaseVersion('1.2-3ubuntu0.1'), '1.2-3');
+    assert.equal(getUbuntuBaseVersion('1.2-3ubuntu1~22.04.1'), '1.2-3');
+  });
+
+  it('is undefined without an Ubuntu suffix', () => {
+    assert.equal(getUbuntuBaseVersion('2.10-3'), undefined);
+    assert.equal(getUbuntuBaseVersion(''), undefined);
+  });
+});
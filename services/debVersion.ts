@@ -0,0 +1,115 @@
+import { VersionGap } from '../types';
+
+// Debian version parsing and comparison, following dpkg's algorithm
+// (see deb-version(7) and lib/dpkg/version.c).
+
+export interface DebianVersion {
+  epoch: number;
+  upstream: string;
+  revision: string;
+}
+
+// [epoch:]upstream_version[-debian_revision]
+// The epoch is everything before the first colon, the revision everything after the last hyphen.
+export const parseDebianVersion = (version: string): DebianVersion | null => {
+  const str = (version || '').trim();
+  if (!str || str === 'N/A') return null;
+
+  let epoch = 0;
+  let rest = str;
+  const colon = str.indexOf(':');
+  if (colon !== -1) {
+    const epochStr = str.substring(0, colon);
+    if (!/^\d+$/.test(epochStr)) return null;
+    epoch = parseInt(epochStr, 10);
+    rest = str.substring(colon + 1);
+  }
+
+  const hyphen = rest.lastIndexOf('-');
+  const upstream = hyphen === -1 ? rest : rest.substring(0, hyphen);
+  const revision = hyphen === -1 ? '' : rest.substring(hyphen + 1);
+
+  if (!upstream || !/^[0-9]/.test(upstream)) return null;
+  return { epoch, upstream, revision };
+};
+
+const isDigit = (c: string) => c >= '0' && c <= '9';
+const isLetter = (c: string) => /[A-Za-z]/.test(c);
+
+// Sort weight of a character in the non-digit part: '~' sorts before everything, even the end of the string,
+// letters sort before non-letters.
+const order = (c: string | undefined): number => {
+  if (c === undefined || isDigit(c)) return 0;
+  if (c === '~') return -1;
+  if (isLetter(c)) return c.charCodeAt(0);
+  return c.charCodeAt(0) + 256;
+};
+
+// dpkg's verrevcmp: alternately compares non-digit parts (lexically, with `order`) and digit parts (numerically)
+const compareFragment = (a: string, b: string): number => {
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    let firstDiff = 0;
+
+    while ((i < a.length && !isDigit(a[i])) || (j < b.length && !isDigit(b[j]))) {
+      const ac = order(a[i]);
+      const bc = order(b[j]);
+      if (ac !== bc) return ac - bc;
+      i++;
+      j++;
+    }
+
+    while (a[i] === '0') i++;
+    while (b[j] === '0') j++;
+
+    while (i < a.length && isDigit(a[i]) && j < b.length && isDigit(b[j])) {
+      if (!firstDiff) firstDiff = a.charCodeAt(i) - b.charCodeAt(j);
+      i++;
+      j++;
+    }
+
+    if (i < a.length && isDigit(a[i])) return 1;
+    if (j < b.length && isDigit(b[j])) return -1;
+    if (firstDiff) return firstDiff;
+  }
+
+  return 0;
+};
+
+const sign = (n: number) => n < 0 ? -1 : n > 0 ? 1 : 0;
+
+export const compareParsedVersions = (a: DebianVersion, b: DebianVersion): number => {
+  if (a.epoch !== b.epoch) return sign(a.epoch - b.epoch);
+  const upstream = compareFragment(a.upstream, b.upstream);
+  if (upstream) return sign(upstream);
+  return sign(compareFragment(a.revision, b.revision));
+};
+
+// Returns -1, 0 or 1. Unparsable versions ("N/A", garbage) sort before any valid version.
+export const compareDebianVersions = (a: string, b: string): number => {
+  const pa = parseDebianVersion(a);
+  const pb = parseDebianVersion(b);
+  if (!pa || !pb) return pa ? 1 : pb ? -1 : 0;
+  return compareParsedVersions(pa, pb);
+};
+
+// What kind of merge the package needs, based on how Debian's version differs from Ubuntu's
+export const classifyVersionGap = (ubuntuVersion: string, debianVersion: string): VersionGap => {
+  const ubuntu = parseDebianVersion(ubuntuVersion);
+  const debian = parseDebianVersion(debianVersion);
+  if (!ubuntu || !debian) return VersionGap.UNKNOWN;
+
+  if (compareParsedVersions(ubuntu, debian) >= 0) return VersionGap.UBUNTU_AHEAD;
+  if (ubuntu.epoch !== debian.epoch) return VersionGap.EPOCH_CHANGE;
+  if (compareFragment(ubuntu.upstream, debian.upstream) !== 0) return VersionGap.UPSTREAM_BUMP;
+  return VersionGap.DEBIAN_REVISION;
+};
+
+// Debian version an Ubuntu version is based on: "1.2-3ubuntu2" -> "1.2-3", "1:1.2-3build1" -> "1:1.2-3".
+// Undefined when the version carries no Ubuntu suffix.
+export const getUbuntuBaseVersion = (ubuntuVersion: string): string | undefined => {
+  const match = (ubuntuVersion || '').match(/^(.*?)(?:ubuntu|build)\d[\w.+~]*$/i);
+  return match && match[1] ? match[1] : undefined;
+};
@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { MergePackage } from '../types';
+import { getDataSource } from './dataSource';
+import { compareDebianVersions } from './debVersion';
+import { DEBIAN_RC_BUGS_URL, getMadisonUrl } from './upstream';
+
+// Debian-side facts about the packages we merge: versions per suite (has the new version migrated to
+// testing?), release-critical bugs and maintainers. Two sources, picked like the data source:
+//   json  a UDD-style export, { packages: { <name>: DebianPackageInfo } }, e.g. the offline fixture
+//         <dir>/debian/metadata.json or a file regenerated by a cron job
+//   live  ftp-master's madison (versions) and UDD's RC bug list, fetched through the active DataSource.
+//         Neither publishes maintainers, so they stay unknown with this source.
+
+export type DebianSuite = 'unstable' | 'testing' | 'experimental';
+
+export const DEBIAN_SUITES: DebianSuite[] = ['unstable', 'testing', 'experimental'];
+
+export interface DebianRcBug {
+  id: number;
+  title: string;
+  severity: string; // serious, grave or critical
+}
+
+export interface DebianPackageInfo {
+  package: string;
+  maintainer: string | null;
+  uploaders: string[];
+  versions: Partial<Record<DebianSuite, string>>;
+  rcBugs: DebianRcBug[] | null; // null: not known
+  excuses: string[]; // Testing migration excuses, when the source has them
+}
+
+export type DebianMetadata = Record<string, DebianPackageInfo>; // By source package name
+
+export type DebianMetadataSourceKind = 'json' | 'live';
+
+export interface DebianMetadataSource {
+  kind: DebianMetadataSourceKind;
+  label: string;
+  // Info for the given packages; packages Debian does not know are left out
+  fetchPackages: (names: string[]) => Promise<DebianMetadata>;
+}
+
+// --- Migration state ---
+
+// Where the Debian version we would merge stands:
+//   migrated         testing has it (or newer)
+//   unstable-only    still waiting in unstable, possibly blocked
+//   not-in-unstable  neither suite has it (experimental only, removed, or the data is older than the report)
+export type MigrationState = 'migrated' | 'unstable-only' | 'not-in-unstable' | 'unknown';
+
+export interface DebianState {
+  migration: MigrationState;
+  rcBugs: number | null;
+}
+
+const hasVersion = (suiteVersion: string | undefined, version: string) =>
+  !!suiteVersion && compareDebianVersions(suiteVersion, version) >= 0;
+
+export const getDebianState = (pkg: MergePackage, info: DebianPackageInfo | undefined): DebianState => {
+  if (!info) return { migration: 'unknown', rcBugs: null };
+  const migration: MigrationState = hasVersion(info.versions.testing, pkg.debianVersion) ? 'migrated'
+    : hasVersion(info.versions.unstable, pkg.debianVersion) ? 'unstable-only'
+    : 'not-in-unstable';
+  return { migration, rcBugs: info.rcBugs ? info.rcBugs.length : null };
+};
+
+// Values of the `debian:` query term (services/filters.ts)
+export const getDebianTags = (pkg: MergePackage, info: DebianPackageInfo | undefined): string[] => {
+  const { migration, rcBugs } = getDebianState(pkg, info);
+  const tags: string[] = [migration];
+  if (rcBugs !== null) tags.push(rcBugs > 0 ? 'rc-bugs' : 'no-rc-bugs');
+  return tags;
+};
+
+// --- Sources ---
+
+const sanitizeBug = (raw: any): DebianRcBug | null => {
+  const id = Number(raw?.id);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  return { id, title: typeof raw.title === 'string' ? raw.title : '', severity: typeof raw.severity === 'string' ? raw.severity : 'serious' };
+};
+
+export const sanitizeDebianInfo = (name: string, raw: any): DebianPackageInfo => {
+  const versions: Partial<Record<DebianSuite, string>> = {};
+  DEBIAN_SUITES.forEach(suite => {
+    if (typeof raw?.versions?.[suite] === 'string') versions[suite] = raw.versions[suite];
+  });
+  return {
+    package: name,
+    maintainer: typeof raw?.maintainer === 'string' ? raw.maintainer : null,
+    uploaders: Array.isArray(raw?.uploaders) ? raw.uploaders.filter((u: unknown) => typeof u === 'string') : [],
+    versions,
+    rcBugs: Array.isArray(raw?.rcBugs) ? raw.rcBugs.map(sanitizeBug).filter((b: DebianRcBug | null): b is DebianRcBug => b !== null) : null,
+    excuses: Array.isArray(raw?.excuses) ? raw.excuses.filter((e: unknown) => typeof e === 'string') : []
+  };
+};
+
+const fetchJsonFile = async (url: string): Promise<any> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Response status: ${res.status}`);
+  }
+  return res.json();
+};
+
+// One file for every package, read once
+export const createJsonDebianSource = (
+  url: string = '/fixtures/debian/metadata.json',
+  readJson: (url: string) => Promise<any> = fetchJsonFile
+): DebianMetadataSource => {
+  let file: Promise<any> | null = null;
+  return {
+    kind: 'json',
+    label: `Metadata file (${url})`,
+    fetchPackages: async (names) => {
+      if (!file) {
+        file = readJson(url);
+        file.catch(() => { file = null; });
+      }
+      const packages = (await file)?.packages || {};
+      return Object.fromEntries(names.filter(name => packages[name]).map(name => [name, sanitizeDebianInfo(name, packages[name])]));
+    }
+  };
+};
+
+// madison takes several packages per request
+const MADISON_BATCH_SIZE = 50;
+
+const MADISON_SUITES: Record<string, DebianSuite> = {
+  unstable: 'unstable',
+  sid: 'unstable',
+  testing: 'testing',
+  experimental: 'experimental',
+  'rc-buggy': 'experimental'
+};
+
+// madison's JSON output: [{ <package>: { <suite>: { <version>: {...} } } }]
+const parseMadison = (raw: any): Record<string, Partial<Record<DebianSuite, string>>> => {
+  const result: Record<string, Partial<Record<DebianSuite, string>>> = {};
+  (Array.isArray(raw) ? raw : [raw]).forEach(block => {
+    Object.entries(block || {}).forEach(([name, suites]) => {
+      const versions = result[name] || (result[name] = {});
+      Object.entries(suites || {}).forEach(([suiteName, byVersion]) => {
+        const suite = MADISON_SUITES[suiteName];
+        if (!suite) return;
+        // Several versions can coexist in a suite for a while: keep the newest
+        Object.keys(byVersion || {}).forEach(version => {
+          if (!versions[suite] || compareDebianVersions(version, versions[suite]!) > 0) versions[suite] = version;
+        });
+      });
+    });
+  });
+  return result;
+};
+
+export const createLiveDebianSource = (
+  fetchJson: (url: string) => Promise<any> = (url) => getDataSource().fetchJson(url)
+): DebianMetadataSource => {
+  // The RC bug list covers all of unstable and is fetched once per session
+  let rcBugs: Promise<Map<string, DebianRcBug[]>> | null = null;
+  const getRcBugs = () => {
+    if (!rcBugs) {
+      rcBugs = fetchJson(DEBIAN_RC_BUGS_URL).then(list => {
+        const bySource = new Map<string, DebianRcBug[]>();
+        (Array.isArray(list) ? list : []).forEach((raw: any) => {
+          const bug = sanitizeBug(raw);
+          const source = raw?.source || raw?.package;
+          if (!bug || typeof source !== 'string') return;
+          bySource.set(source, [...(bySource.get(source) || []), bug]);
+        });
+        return bySource;
+      });
+      rcBugs.catch(() => { rcBugs = null; });
+    }
+    return rcBugs;
+  };
+
+  return {
+    kind: 'live',
+    label: 'ftp-master madison + UDD',
+    fetchPackages: async (names) => {
+      const bugsRequest = getRcBugs().catch(e => {
+        console.warn('Failed to load the Debian RC bug list', e);
+        return null;
+      });
+
+      const versions: Record<string, Partial<Record<DebianSuite, string>>> = {};
+      for (let i = 0; i < names.length; i += MADISON_BATCH_SIZE) {
+        const batch = names.slice(i, i + MADISON_BATCH_SIZE);
+        Object.assign(versions, parseMadison(await fetchJson(getMadisonUrl(batch))));
+      }
+
+      const bugs = await bugsRequest;
+      return Object.fromEntries(Object.entries(versions).map(([name, suiteVersions]) => [name, {
+        package: name,
+        maintainer: null,
+        uploaders: [],
+        versions: suiteVersions,
+        rcBugs: bugs ? bugs.get(name) || [] : null,
+        excuses: []
+      }]));
+    }
+  };
+};
+
+// Configuration is read from the environment (injected by vite.config.ts):
+//   DEBIAN_SOURCE      json | live   (default: json when DATA_SOURCE is local, live otherwise)
+//   DEBIAN_SOURCE_URL  file of the json source (default: <DATA_SOURCE_URL or /fixtures>/debian/metadata.json)
+export const createDebianSourceFromConfig = (kind?: string, location?: string): DebianMetadataSource => {
+  const fixture = () => createJsonDebianSource(
+    location || `${(process.env.DATA_SOURCE_URL || '/fixtures').replace(/\/+$/, '')}/debian/metadata.json`
+  );
+  switch ((kind || '').toLowerCase()) {
+    case 'json':
+      return fixture();
+    case 'live':
+      return createLiveDebianSource();
+    case '':
+      return (process.env.DATA_SOURCE || '').toLowerCase() === 'local' ? fixture() : createLiveDebianSource();
+    default:
+      console.warn(`Unknown DEBIAN_SOURCE "${kind}", using the live Debian services`);
+      return createLiveDebianSource();
+  }
+};
+
+let activeSource: DebianMetadataSource | null = null;
+
+export const getDebianSource = (): DebianMetadataSource => {
+  if (!activeSource) {
+    activeSource = createDebianSourceFromConfig(process.env.DEBIAN_SOURCE, process.env.DEBIAN_SOURCE_URL);
+  }
+  return activeSource;
+};
+
+// Overrides the configured source (embedding, scripts)
+export const setDebianSource = (source: DebianMetadataSource) => {
+  activeSource = source;
+  current = {};
+  requested = new Set();
+};
+
+// --- Shared state ---
+
+const CHANGE_EVENT = 'merges:debian';
+
+// Everything loaded so far, shared by every useDebianMetadata() caller
+let current: DebianMetadata = {};
+// Names asked for (loaded or in flight), so each package is fetched once
+let requested = new Set<string>();
+
+export const loadDebianMetadata = async (names: string[]): Promise<DebianMetadata> => {
+  const missing = names.filter(name => !requested.has(name));
+  if (missing.length > 0) {
+    missing.forEach(name => requested.add(name));
+    try {
+      const loaded = await getDebianSource().fetchPackages(missing);
+      current = { ...current, ...loaded };
+      if (typeof window !== 'undefined') window.dispatchEvent(new Event(CHANGE_EVENT));
+    } catch (e) {
+      // Retried on the next request
+      missing.forEach(name => requested.delete(name));
+      throw e;
+    }
+  }
+  return current;
+};
+
+export const fetchDebianInfo = async (name: string): Promise<DebianPackageInfo | null> =>
+  (await loadDebianMetadata([name]))[name] ?? null;
+
+// Debian metadata of the given packages, loaded when `enabled` (the list only needs it for Debian filters and columns)
+export const useDebianMetadata = (names: string[], enabled: boolean): DebianMetadata => {
+  const [metadata, setMetadata] = useState<DebianMetadata>(current);
+
+  useEffect(() => {
+    const update = () => setMetadata(current);
+    window.addEventListener(CHANGE_EVENT, update);
+    return () => window.removeEventListener(CHANGE_EVENT, update);
+  }, []);
+
+  const key = enabled ? names.join('\n') : '';
+  useEffect(() => {
+    if (!key) return;
+    loadDebianMetadata(key.split('\n')).catch(e => console.warn('Failed to load Debian metadata', e));
+  }, [key]);
+
+  return metadata;
+};
@@ -0,0 +1,25 @@
+import { ChangelogEntry, DeltaEntry, UbuntuDelta } from '../types';
+import { parseChangelog, splitUbuntuDelta } from './changelogParser';
+
+// Extracts the Ubuntu delta from a full Ubuntu changelog: every "ubuntuN" (or "buildN") upload since the last
+// Debian-origin entry, i.e. the changes that have to be carried forward by the merge.
+
+// Wording that suggests the Ubuntu change is (or can be) dropped in favour of upstream or Debian
+const DROPPABLE_HINT_REGEX = /\b(drop|dropped|upstream)\b|debian bug #?\d*/i;
+
+export const isDroppableHint = (text: string) => DROPPABLE_HINT_REGEX.test(text);
+
+const toDeltaEntry = (entry: ChangelogEntry): DeltaEntry => ({
+  version: entry.version,
+  author: entry.maintainer,
+  date: entry.date,
+  bullets: entry.changes.map(change => ({ text: change.text, droppable: isDroppableHint(change.text) }))
+});
+
+export const extractUbuntuDeltaFromEntries = (entries: ChangelogEntry[]): UbuntuDelta => {
+  const { delta, baseVersion } = splitUbuntuDelta(entries);
+  return { baseVersion, entries: delta.map(toDeltaEntry) };
+};
+
+export const extractUbuntuDelta = (fullText: string): UbuntuDelta =>
+  extractUbuntuDeltaFromEntries(parseChangelog(fullText));
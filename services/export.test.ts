@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsvTable } from './export';
+
+describe('toCsvTable', () => {
+  it('quotes separators, quotes and line breaks', () => {
+    assert.equal(toCsvTable(['a', 'b'], [['x,y', 'say "hi"'], ['line\nbreak', 3]]), 'a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",3\r\n');
+  });
+
+  it('joins lists', () => {
+    assert.equal(toCsvTable(['teams'], [[['desktop', 'foundations']]]), 'teams\r\ndesktop; foundations\r\n');
+  });
+
+  it('keeps text from starting a spreadsheet formula', () => {
+    assert.equal(
+      toCsvTable(['v'], [['=HYPERLINK("http://x")'], ['+1'], ['-cmd'], ['@SUM(A1)'], ['\tx']]),
+      'v\r\n"\'=HYPERLINK(""http://x"")"\r\n\'+1\r\n\'-cmd\r\n\'@SUM(A1)\r\n\'\tx\r\n'
+    );
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    assert.equal(toCsvTable(['v'], [[-3], ['glibc'], ['a-b']]), 'v\r\n-3\r\nglibc\r\na-b\r\n');
+  });
+});
@@ -0,0 +1,132 @@
+import { MergePackage } from '../types';
+import { getIdentityIndex, parseUploader } from './uploaders';
+import { getScores } from './scoring';
+import { getDebianTrackerUrl, getLaunchpadSourceUrl, getPackageReportUrl } from './upstream';
+
+// Serializers for a package list (the filtered + sorted Package List, or the CLI's `list`).
+// Every MergePackage field is exported, plus columns derived from it.
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+type Value = string | number | string[];
+
+interface ExportColumn {
+  key: string;
+  label: string; // Markdown table header
+  value: (pkg: MergePackage, derived: { uploaderName: string; priority: number }) => Value;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'ID', value: pkg => pkg.id },
+  { key: 'name', label: 'Package', value: pkg => pkg.name },
+  { key: 'component', label: 'Component', value: pkg => pkg.component },
+  { key: 'status', label: 'Status', value: pkg => pkg.status },
+  { key: 'statusText', label: 'Upstream Status', value: pkg => pkg.statusText ?? '' },
+  { key: 'ubuntuVersion', label: 'Ubuntu', value: pkg => pkg.ubuntuVersion },
+  { key: 'debianVersion', label: 'Debian', value: pkg => pkg.debianVersion },
+  { key: 'versionGap', label: 'Gap', value: pkg => pkg.versionGap },
+  { key: 'age', label: 'Age', value: pkg => pkg.age },
+  { key: 'ageInDays', label: 'Age (days)', value: pkg => pkg.ageInDays },
+  { key: 'teams', label: 'Teams', value: pkg => pkg.teams },
+  { key: 'uploader', label: 'Uploader (raw)', value: pkg => pkg.uploader },
+  { key: 'lastUpdated', label: 'Last Updated', value: pkg => pkg.lastUpdated ?? '' },
+  // Derived
+  { key: 'uploaderName', label: 'Uploader', value: (_, derived) => derived.uploaderName },
+  { key: 'uploaderEmail', label: 'Email', value: pkg => parseUploader(pkg.uploader).email ?? '' },
+  { key: 'priority', label: 'Priority', value: (_, derived) => derived.priority },
+  { key: 'launchpadUrl', label: 'Launchpad', value: pkg => getLaunchpadSourceUrl(pkg.name) },
+  { key: 'debianTrackerUrl', label: 'Debian Tracker', value: pkg => getDebianTrackerUrl(pkg.name) },
+  { key: 'mergeReportUrl', label: 'Merge Report', value: pkg => getPackageReportUrl(pkg.name) }
+];
+
+// The columns worth reading in a Markdown table; links go on the package name instead
+const MARKDOWN_COLUMNS = ['name', 'status', 'component', 'ubuntuVersion', 'debianVersion', 'versionGap', 'age', 'priority', 'uploaderName', 'teams'];
+
+// One record per package, uploader names folded onto identities (services/uploaders.ts) and scored over `data`
+export const toExportRecords = (packages: MergePackage[], data: MergePackage[] = packages): Record<string, Value>[] => {
+  const index = getIdentityIndex(data);
+  const scores = getScores(data);
+  return packages.map(pkg => {
+    const uploaderName = pkg.uploader === 'Unknown' ? '' : (index.lookup(pkg.uploader)?.name ?? parseUploader(pkg.uploader).name);
+    const derived = { uploaderName, priority: scores.get(pkg.id)?.score ?? 0 };
+    const record: Record<string, Value> = {};
+    EXPORT_COLUMNS.forEach(column => { record[column.key] = column.value(pkg, derived); });
+    return record;
+  });
+};
+
+// Lists (teams) are kept as arrays in JSON only
+const flatten = (value: Value) => Array.isArray(value) ? value.join('; ') : String(value);
+
+// Spreadsheets run cells starting with these as formulas; names and changelog text come from outside
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks. Text that would start a formula
+// gets a leading "'" (numbers are left alone).
+const csvField = (value: Value) => {
+  const flat = flatten(value);
+  const text = typeof value !== 'number' && FORMULA_PREFIX.test(flat) ? `'${flat}` : flat;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Any table as CSV, header row first
+export const toCsvTable = (headers: string[], rows: Value[][]) =>
+  [headers, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+export const toCsv = (records: Record<string, Value>[]) => {
+  const keys = EXPORT_COLUMNS.map(column => column.key);
+  return toCsvTable(keys, records.map(record => keys.map(key => record[key])));
+};
+
+export const toJson = (records: Record<string, Value>[]) => JSON.stringify(records, null, 2) + '\n';
+
+const markdownCell = (value: Value) => flatten(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+// Markdown table; with `links`, package names point at their Launchpad page and the merge report is linked
+export const toMarkdown = (records: Record<string, Value>[], { links = false }: { links?: boolean } = {}) => {
+  const columns = MARKDOWN_COLUMNS.map(key => EXPORT_COLUMNS.find(column => column.key === key)!);
+  const headers = columns.map(column => column.label);
+  if (links) headers.push('Report');
+
+  const rows = records.map(record => {
+    const cells = columns.map(column => {
+      const cell = markdownCell(record[column.key]);
+      return links && column.key === 'name' ? `[${cell}](${record.launchpadUrl})` : cell;
+    });
+    if (links) cells.push(`[REPORT](${record.mergeReportUrl})`);
+    return `| ${cells.join(' | ')} |`;
+  });
+
+  return [`| ${headers.join(' | ')} |`, `|${headers.map(() => ' --- ').join('|')}|`, ...rows].join('\n') + '\n';
+};
+
+export const formatPackages = (packages: MergePackage[], format: ExportFormat, data?: MergePackage[]) => {
+  const records = toExportRecords(packages, data);
+  if (format === 'csv') return toCsv(records);
+  if (format === 'json') return toJson(records);
+  return toMarkdown(records, { links: true });
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  markdown: 'text/markdown'
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md'
+};
+
+// Saves text as a file through a temporary link (browser only)
+export const downloadText = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MergePackage, MergeStatus, PackageSet, VersionGap } from '../types';
+import { MergeReport } from './mergeReport';
+import { sortPackages } from './filters';
+
+const pkg = (name: string, status = MergeStatus.NEEDS_MERGE): MergePackage => ({
+  id: name,
+  name,
+  ubuntuVersion: '1.0-1ubuntu1',
+  debianVersion: '1.0-2',
+  component: PackageSet.MAIN,
+  teams: [],
+  age: '1d',
+  ageInDays: 1,
+  uploader: 'Jane Doe <jane@example.com>',
+  versionGap: VersionGap.DEBIAN_REVISION,
+  status
+});
+
+const report = (conflicts: number) => ({ conflicts: Array(conflicts).fill('debian/control') }) as unknown as MergeReport;
+
+describe('sortPackages by conflicts', () => {
+  const data = [pkg('a'), pkg('b', MergeStatus.CONFLICTS), pkg('c'), pkg('d'), pkg('e', MergeStatus.CONFLICTS)];
+  const names = (sortAsc: boolean, reports: Record<string, MergeReport | null>) =>
+    sortPackages(data, 'conflicts', sortAsc, data, reports).map(p => p.name);
+
+  it('orders the loaded REPORTs by count and keeps the rest last, conflicting merges first', () => {
+    const reports = { c: report(1), d: report(3), a: null };
+    assert.deepEqual(names(false, reports), ['d', 'c', 'b', 'e', 'a']);
+    assert.deepEqual(names(true, reports), ['c', 'd', 'b', 'e', 'a']);
+  });
+
+  it('only moves the rows whose REPORT arrives', () => {
+    assert.deepEqual(names(false, {}), ['b', 'e', 'a', 'c', 'd']);
+    assert.deepEqual(names(false, { e: report(2) }), ['e', 'b', 'a', 'c', 'd']);
+  });
+});
@@ -0,0 +1,219 @@
+import { MergePackage, MergeStatus } from '../types';
+import { ParsedQuery, QueryNode, QueryTerm, parseAgeValue } from './query';
+import { IdentityIndex, getIdentityIndex, parseUploader } from './uploaders';
+import { compareDebianVersions } from './debVersion';
+import { getScores } from './scoring';
+import { Claims } from './claims';
+import { DebianMetadata, getDebianTags } from './debian';
+import { MergeReport } from './mergeReport';
+import { SyncAnalysis, getAnalysisKey, getSyncTag } from './syncCandidates';
+
+// Filter state shared by the package list and the other views built on it
+
+export type AgeBucket = 'lt1w' | '1to4w' | '1to6m' | 'gt6m';
+
+// `query` is the age term the dropdown writes into the search query (age:<query>)
+export const AGE_BUCKETS: { id: AgeBucket; label: string; query: string; matches: (days: number) => boolean }[] = [
+  { id: 'lt1w', label: '< 1 Week', query: '<7', matches: days => days < 7 },
+  { id: '1to4w', label: '1-4 Weeks', query: '7..30', matches: days => days >= 7 && days <= 30 },
+  { id: '1to6m', label: '1-6 Months', query: '31..180', matches: days => days > 30 && days <= 180 },
+  { id: 'gt6m', label: '> 6 Months', query: '>180', matches: days => days > 180 }
+];
+
+export type SortField = 'name' | 'status' | 'ageInDays' | 'ubuntuVersion' | 'debianVersion' | 'versionGap' | 'uploader' | 'priority' | 'conflicts';
+
+// Everything that defines what the package list shows.
+// `query` is the search box text (services/query.ts); the dropdowns are views over it.
+export interface ListState {
+  query: string;
+  sortField: SortField;
+  sortAsc: boolean;
+  page: number;
+}
+
+export const DEFAULT_LIST_STATE: ListState = {
+  query: '',
+  sortField: 'ageInDays',
+  sortAsc: false, // Default descending for Age
+  page: 1
+};
+
+// Short sort names, used in URLs (sort=-age) and by the CLI (--sort -age)
+export const SORT_KEYS: Record<SortField, string> = {
+  name: 'name',
+  status: 'status',
+  ageInDays: 'age',
+  ubuntuVersion: 'ubuntu',
+  debianVersion: 'debian',
+  versionGap: 'gap',
+  uploader: 'uploader',
+  priority: 'priority',
+  conflicts: 'conflicts'
+};
+
+// "-age" is "age, descending". Undefined for unknown names.
+export const parseSortKey = (value: string): { sortField: SortField; sortAsc: boolean } | undefined => {
+  const sortField = (Object.keys(SORT_KEYS) as SortField[]).find(f => SORT_KEYS[f] === value.replace(/^-/, ''));
+  return sortField ? { sortField, sortAsc: !value.startsWith('-') } : undefined;
+};
+
+export const formatSortKey = (sortField: SortField, sortAsc: boolean) => `${sortAsc ? '' : '-'}${SORT_KEYS[sortField]}`;
+
+// Helper to extract name from "First Last <email>" format
+export const getUploaderName = (fullString: string) => parseUploader(fullString).name;
+
+// Case-insensitive, spaces and dashes interchangeable: "needs merge" matches "Needs Merge"
+export const normalizeQueryValue = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '-');
+
+const globToRegExp = (glob: string) =>
+  new RegExp(`^${glob.split('').map(c => c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('')}$`, 'i');
+
+const matchesText = (term: QueryTerm, candidate: string): boolean => {
+  if (term.kind === 'regex') return new RegExp(term.value, term.flags).test(candidate);
+  if (term.implicit) return candidate.toLowerCase().includes(term.value.toLowerCase());
+  if (/[*?]/.test(term.value)) return globToRegExp(normalizeQueryValue(term.value)).test(normalizeQueryValue(candidate));
+  return normalizeQueryValue(candidate) === normalizeQueryValue(term.value);
+};
+
+const matchesAge = (term: QueryTerm, days: number): boolean => {
+  if (term.op === ':' || term.op === '=') {
+    const [from, to] = term.value.split('..').map(parseAgeValue) as number[];
+    return to === undefined ? days === from : days >= from && days <= to;
+  }
+  const value = parseAgeValue(term.value)!;
+  switch (term.op) {
+    case '>': return days > value;
+    case '>=': return days >= value;
+    case '<': return days < value;
+    default: return days <= value;
+  }
+};
+
+// Data kept outside the merge report that some query fields look at
+export interface FilterExtras {
+  claims?: Claims; // claimed: (services/claims.ts)
+  debian?: DebianMetadata; // debian: and maintainer: (services/debian.ts)
+  sync?: Record<string, SyncAnalysis | null>; // sync: (services/syncCandidates.ts)
+}
+
+// What a query is evaluated against besides the package itself
+interface MatchContext {
+  uploaders: IdentityIndex;
+  claims: Claims;
+  debian: DebianMetadata;
+  sync: Record<string, SyncAnalysis | null>;
+}
+
+// claimed:yes / claimed:no, or the name of whoever claimed it
+const matchesClaim = (term: QueryTerm, claims: Claims, name: string): boolean => {
+  const claim = claims[name];
+  const value = term.kind === 'text' ? term.value.toLowerCase() : '';
+  if (value === 'yes' || value === 'true') return !!claim;
+  if (value === 'no' || value === 'false') return !claim;
+  return !!claim && matchesText(term, claim.claimedBy);
+};
+
+const matchesTerm = (pkg: MergePackage, term: QueryTerm, { uploaders, claims, debian, sync }: MatchContext): boolean => {
+  switch (term.field) {
+    case 'name': return matchesText(term, pkg.name || '');
+    case 'team': return pkg.teams.some(team => matchesText(term, team));
+    case 'component': return matchesText(term, pkg.component);
+    // Uploaders match on any name or email of the person (services/uploaders.ts folds the aliases)
+    case 'uploader': {
+      const identity = uploaders.lookup(pkg.uploader);
+      const candidates = identity ? [identity.name, ...identity.names, ...identity.emails] : [getUploaderName(pkg.uploader)];
+      return candidates.some(candidate => matchesText(term, candidate));
+    }
+    case 'age': return matchesAge(term, pkg.ageInDays);
+    case 'gap': return matchesText(term, pkg.versionGap);
+    case 'status': return matchesText(term, pkg.status);
+    case 'claimed': return matchesClaim(term, claims, pkg.name);
+    // migrated, unstable-only, not-in-unstable, unknown, rc-bugs, no-rc-bugs
+    case 'debian': return getDebianTags(pkg, debian[pkg.name]).some(tag => matchesText(term, tag));
+    // Debian maintainer or uploaders, by name or email
+    case 'maintainer': {
+      const info = debian[pkg.name];
+      const people = info ? [info.maintainer, ...info.uploaders].filter((m): m is string => !!m).map(parseUploader) : [];
+      return people.some(({ name, email }) => matchesText(term, name) || (!!email && matchesText(term, email)));
+    }
+    // candidate, partial, carried, or unknown until the delta has been analyzed (or when it could not be read)
+    case 'sync': return matchesText(term, getSyncTag(sync[getAnalysisKey(pkg)]));
+  }
+};
+
+export const matchesQuery = (pkg: MergePackage, node: QueryNode | null, context: MatchContext): boolean => {
+  if (!node) return true;
+  switch (node.type) {
+    case 'term': return matchesTerm(pkg, node.term, context);
+    case 'not': return !matchesQuery(pkg, node.child, context);
+    case 'and': return node.children.every(child => matchesQuery(pkg, child, context));
+    case 'or': return node.children.some(child => matchesQuery(pkg, child, context));
+  }
+};
+
+// A query that does not parse matches nothing, the search box shows the error
+export const filterPackages = (data: MergePackage[], query: ParsedQuery, extras: FilterExtras = {}): MergePackage[] => {
+  if (query.error) return [];
+  const context = { uploaders: getIdentityIndex(data), claims: extras.claims || {}, debian: extras.debian || {}, sync: extras.sync || {} };
+  return data.filter(pkg => matchesQuery(pkg, query.node, context));
+};
+
+// `all` is the unfiltered list the priority scores are computed over (services/scoring.ts)
+// `reports` are the merge REPORTs loaded so far (services/mergeReport.ts), for sorting by conflict count
+export const sortPackages = (
+  data: MergePackage[],
+  sortField: SortField,
+  sortAsc: boolean,
+  all: MergePackage[] = data,
+  reports: Record<string, MergeReport | null> = {}
+): MergePackage[] => {
+  const scores = sortField === 'priority' ? getScores(all) : null;
+  return [...data].sort((a, b) => {
+    if (sortField === 'priority') {
+      const cmp = scores!.get(a.id)!.score - scores!.get(b.id)!.score;
+      return sortAsc ? cmp : -cmp;
+    }
+
+    // Packages whose REPORT is known, by conflict count. The others (not loaded yet, or unavailable) follow
+    // in a fixed order, conflicting merges first, so only rows whose report arrives change place.
+    if (sortField === 'conflicts') {
+      const countA = reports[a.name]?.conflicts.length ?? -1;
+      const countB = reports[b.name]?.conflicts.length ?? -1;
+      if (countA >= 0 && countB >= 0) return sortAsc ? countA - countB : countB - countA;
+      if (countA >= 0 || countB >= 0) return countB - countA;
+      return (b.status === MergeStatus.CONFLICTS ? 1 : 0) - (a.status === MergeStatus.CONFLICTS ? 1 : 0);
+    }
+
+    // Versions are ordered the way dpkg does (epochs, ~ and numeric parts)
+    if (sortField === 'ubuntuVersion' || sortField === 'debianVersion') {
+      const cmp = compareDebianVersions(a[sortField], b[sortField]);
+      return sortAsc ? cmp : -cmp;
+    }
+
+    let valA: any = a[sortField];
+    let valB: any = b[sortField];
+
+    // Special handling for uploader sorting to sort by Name not full string
+    if (sortField === 'uploader') {
+      valA = getUploaderName(a.uploader);
+      valB = getUploaderName(b.uploader);
+    }
+
+    if (typeof valA === 'string') valA = valA.toLowerCase();
+    if (typeof valB === 'string') valB = valB.toLowerCase();
+
+    if (valA < valB) return sortAsc ? -1 : 1;
+    if (valA > valB) return sortAsc ? 1 : -1;
+    return 0;
+  });
+};
+
+// Values offered by the filter dropdowns. Uploaders are listed once per person, not per spelling.
+export const getFilterOptions = (data: MergePackage[]) => {
+  const teams = new Set<string>();
+  data.forEach(pkg => pkg.teams.forEach(t => teams.add(t)));
+  return {
+    teams: Array.from(teams).sort(),
+    uploaders: Array.from(new Set(getIdentityIndex(data).identities.map(i => i.name))).sort()
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MergePackage, MergeStatus, PackageSet, VersionGap } from '../types';
+import { SNAPSHOT_RETENTION, fromSnapshotPackage, selectExpiredSnapshots, toSnapshotPackage } from './history';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2024-06-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS).toISOString();
+
+describe('selectExpiredSnapshots', () => {
+  it('keeps at most maxSnapshots, the newest included', () => {
+    const takenAt = Array.from({ length: SNAPSHOT_RETENTION.maxSnapshots + 1 }, (_, i) => hoursAgo(i));
+    assert.deepEqual(selectExpiredSnapshots(takenAt, now), [hoursAgo(SNAPSHOT_RETENTION.maxSnapshots)]);
+  });
+
+  it('thins snapshots older than keepAllDays to one per day', () => {
+    const day = 24;
+    const old = (SNAPSHOT_RETENTION.keepAllDays + 2) * day;
+    assert.deepEqual(selectExpiredSnapshots([hoursAgo(1), hoursAgo(old), hoursAgo(old + 1)], now), [hoursAgo(old + 1)]);
+  });
+
+  it('drops snapshots past maxAgeDays', () => {
+    const tooOld = hoursAgo((SNAPSHOT_RETENTION.maxAgeDays + 1) * 24);
+    assert.deepEqual(selectExpiredSnapshots([hoursAgo(1), tooOld], now), [tooOld]);
+  });
+});
+
+describe('snapshot packages', () => {
+  it('store the fields the views read and derive the rest', () => {
+    const pkg: MergePackage = {
+      id: 'main-hello-3',
+      name: 'hello',
+      ubuntuVersion: '2.10-3ubuntu1',
+      debianVersion: '2.10-4',
+      component: PackageSet.MAIN,
+      teams: ['desktop-packages'],
+      age: '12d',
+      ageInDays: 12,
+      uploader: 'Jane Doe <jane@example.com>',
+      versionGap: VersionGap.DEBIAN_REVISION,
+      status: MergeStatus.NEEDS_MERGE,
+      statusText: 'Needs merge',
+      lastUpdated: now.toISOString()
+    };
+    const stored = toSnapshotPackage(pkg);
+    assert.ok(!('statusText' in stored) && !('id' in stored));
+
+    const restored = fromSnapshotPackage(stored, now.toISOString());
+    assert.equal(restored.versionGap, VersionGap.DEBIAN_REVISION);
+    assert.deepEqual({ ...restored, id: pkg.id, statusText: pkg.statusText }, pkg);
+  });
+});
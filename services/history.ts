@@ -0,0 +1,140 @@
+import { MergePackage, MergeSnapshot, PackageSet, SnapshotPackage, SnapshotSummary } from '../types';
+import { deleteRecords, listKeys, readAllRecords, readRecord, writeRecord } from './cache';
+import { classifyVersionGap } from './debVersion';
+
+// Snapshot retention policy:
+// - fetches closer together than MIN_INTERVAL_HOURS replace the latest snapshot instead of adding one
+// - everything from the last KEEP_ALL_DAYS is kept, older snapshots are thinned to one per day
+// - snapshots older than MAX_AGE_DAYS are dropped, and at most MAX_SNAPSHOTS are kept overall
+export const SNAPSHOT_RETENTION = {
+  minIntervalHours: 1,
+  keepAllDays: 7,
+  maxAgeDays: 365,
+  maxSnapshots: 120
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+export const summarizeSnapshot = (snapshot: MergeSnapshot): SnapshotSummary => {
+  const byComponent: Record<PackageSet, number> = {
+    [PackageSet.MAIN]: 0,
+    [PackageSet.UNIVERSE]: 0,
+    [PackageSet.RESTRICTED]: 0,
+    [PackageSet.MULTIVERSE]: 0
+  };
+  const byTeam: Record<string, number> = {};
+
+  snapshot.packages.forEach(p => {
+    byComponent[p.component]++;
+    p.teams.forEach(team => {
+      byTeam[team] = (byTeam[team] || 0) + 1;
+    });
+  });
+
+  return {
+    takenAt: snapshot.takenAt,
+    total: snapshot.packages.length,
+    byComponent,
+    byTeam,
+    medianAgeInDays: median(snapshot.packages.map(p => p.ageInDays))
+  };
+};
+
+// Snapshots keep only what the trend charts and the Changes view read (a full list is ~1 MB)
+export const toSnapshotPackage = (pkg: MergePackage): SnapshotPackage => ({
+  name: pkg.name,
+  ubuntuVersion: pkg.ubuntuVersion,
+  debianVersion: pkg.debianVersion,
+  component: pkg.component,
+  teams: pkg.teams,
+  age: pkg.age,
+  ageInDays: pkg.ageInDays,
+  uploader: pkg.uploader,
+  status: pkg.status
+});
+
+export const fromSnapshotPackage = (pkg: SnapshotPackage, takenAt: string): MergePackage => ({
+  ...pkg,
+  id: `${pkg.component}-${pkg.name}-${takenAt}`,
+  versionGap: classifyVersionGap(pkg.ubuntuVersion, pkg.debianVersion),
+  lastUpdated: takenAt
+});
+
+// Returns the snapshot timestamps (ISO strings) that the retention policy discards
+export const selectExpiredSnapshots = (takenAt: string[], now: Date = new Date()): string[] => {
+  const newestFirst = [...takenAt].sort().reverse();
+  const kept: string[] = [];
+  const expired: string[] = [];
+  const keptDays = new Set<string>();
+
+  newestFirst.forEach(ts => {
+    const age = now.getTime() - new Date(ts).getTime();
+    const day = ts.substring(0, 10);
+
+    if (age > SNAPSHOT_RETENTION.maxAgeDays * DAY_MS || kept.length >= SNAPSHOT_RETENTION.maxSnapshots) {
+      expired.push(ts);
+    } else if (age > SNAPSHOT_RETENTION.keepAllDays * DAY_MS && keptDays.has(day)) {
+      // Already kept a newer snapshot from that day
+      expired.push(ts);
+    } else {
+      kept.push(ts);
+      keptDays.add(day);
+    }
+  });
+
+  return expired;
+};
+
+export const recordSnapshot = async (packages: MergePackage[]): Promise<void> => {
+  try {
+    const now = new Date();
+    const existing = await listKeys('snapshots');
+
+    // Replace the latest snapshot if it is too recent to be worth a separate data point
+    const latest = [...existing].sort().pop();
+    const replaced = latest && now.getTime() - new Date(latest).getTime() < SNAPSHOT_RETENTION.minIntervalHours * 60 * 60 * 1000
+      ? [latest]
+      : [];
+
+    const snapshot: MergeSnapshot = { takenAt: now.toISOString(), packages: packages.map(toSnapshotPackage) };
+    await writeRecord('snapshots', snapshot.takenAt, snapshot);
+    await writeRecord('snapshotSummaries', snapshot.takenAt, summarizeSnapshot(snapshot));
+
+    // The new snapshot counts towards the cap too
+    const retained = [...existing.filter(ts => !replaced.includes(ts)), snapshot.takenAt];
+    const expired = [...replaced, ...selectExpiredSnapshots(retained, now)];
+    await deleteRecords('snapshots', expired);
+    await deleteRecords('snapshotSummaries', expired);
+  } catch (e) {
+    console.warn('Failed to record merge snapshot', e);
+  }
+};
+
+// Summaries of all retained snapshots, oldest first
+export const loadSnapshotSummaries = async (): Promise<SnapshotSummary[]> => {
+  try {
+    const summaries = await readAllRecords<SnapshotSummary>('snapshotSummaries');
+    return summaries.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  } catch (e) {
+    console.warn('Failed to load snapshot history', e);
+    return [];
+  }
+};
+
+// The recorded package list, as MergePackages
+export const loadSnapshot = async (takenAt: string): Promise<MergePackage[] | null> => {
+  try {
+    const snapshot = await readRecord<MergeSnapshot>('snapshots', takenAt);
+    return snapshot ? snapshot.packages.map(pkg => fromSnapshotPackage(pkg, snapshot.takenAt)) : null;
+  } catch (e) {
+    console.warn(`Failed to load snapshot ${takenAt}`, e);
+    return null;
+  }
+};
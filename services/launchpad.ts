@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import { getDataSource } from './dataSource';
+import { LAUNCHPAD_API_URL } from './upstream';
+
+// Launchpad facts about a source package: open bugs, "needs merge" bug tasks, the latest upload to the
+// development series and the merge proposals against its git repository.
+// Two clients, picked like the data source (services/dataSource.ts):
+//   api    the Launchpad REST API, fetched through the active DataSource (proxy, relay or direct)
+//   local  recorded summaries, <dir>/launchpad/<name>.json (same shape as LaunchpadInfo)
+
+export interface LaunchpadBugTask {
+  id: number;
+  title: string;
+  status: string;
+  importance: string;
+  url: string;
+}
+
+export interface LaunchpadUpload {
+  version: string;
+  series: string;
+  pocket: string;
+  status: string;
+  date: string | null;
+  creator: string | null; // Launchpad user name of whoever uploaded it
+  url: string;
+}
+
+export interface LaunchpadMergeProposal {
+  url: string;
+  status: string;
+  source: string; // Branch, e.g. merge-2.12-1
+  registrant: string | null;
+  createdAt: string | null;
+}
+
+// Parts the API could not provide are null, so a failing call only hides its own section
+export interface LaunchpadInfo {
+  package: string;
+  openBugs: number | null;
+  needsMergeBugs: LaunchpadBugTask[] | null;
+  latestUpload: LaunchpadUpload | null; // Also null when nothing is published in the series
+  mergeProposals: LaunchpadMergeProposal[] | null;
+  fetchedAt: string;
+}
+
+export type LaunchpadClientKind = 'api' | 'local';
+
+export interface LaunchpadClient {
+  kind: LaunchpadClientKind;
+  label: string;
+  fetchInfo: (name: string) => Promise<LaunchpadInfo>;
+}
+
+// Bug tag the Ubuntu developers put on merge requests
+const NEEDS_MERGE_TAG = 'needs-merge';
+
+// "~ubuntu-core-dev" from https://api.launchpad.net/devel/~ubuntu-core-dev
+const personName = (link: unknown): string | null =>
+  typeof link === 'string' && link ? link.split('/').pop()!.replace(/^~/, '') : null;
+
+const lastSegment = (link: string) => link.split('/').filter(Boolean).pop() || link;
+
+// "refs/heads/merge-2.12-1" -> "merge-2.12-1"
+const branchName = (path: unknown) => typeof path === 'string' ? path.replace(/^refs\/heads\//, '') : '';
+
+// Bug task titles read 'Bug #123 in hello (Ubuntu): "Please merge 2.12-1"'
+const bugTitle = (title: unknown) => {
+  const text = typeof title === 'string' ? title : '';
+  return text.match(/:\s+"(.*)"$/)?.[1] ?? text;
+};
+
+const query = (params: Record<string, string | number | boolean>) =>
+  Object.entries(params).map(([k, v]) => `${k}=${encodeURIComponent(String(v))}`).join('&');
+
+// The REST API, devel version. `fetchJson` defaults to the active data source, so it works through the relay.
+export const createApiLaunchpadClient = (
+  fetchJson: (url: string) => Promise<any> = (url) => getDataSource().fetchJson(url)
+): LaunchpadClient => {
+  // The development series changes twice a year, one lookup per session is enough
+  let develSeries: Promise<string> | null = null;
+  const getDevelSeriesLink = (): Promise<string> => {
+    if (!develSeries) {
+      develSeries = fetchJson(`${LAUNCHPAD_API_URL}/ubuntu`).then(distro => {
+        if (!distro?.current_series_link) throw new Error('Launchpad did not return the development series');
+        return distro.current_series_link as string;
+      });
+      develSeries.catch(() => { develSeries = null; });
+    }
+    return develSeries;
+  };
+
+  const sourceUrl = (name: string) => `${LAUNCHPAD_API_URL}/ubuntu/+source/${encodeURIComponent(name)}`;
+
+  // searchTasks defaults to the open statuses
+  const fetchOpenBugs = async (name: string): Promise<number> => {
+    const total = await fetchJson(`${sourceUrl(name)}?${query({ 'ws.op': 'searchTasks', 'ws.show': 'total_size' })}`);
+    if (typeof total !== 'number') throw new Error('Unexpected bug count');
+    return total;
+  };
+
+  const fetchNeedsMergeBugs = async (name: string): Promise<LaunchpadBugTask[]> => {
+    const tasks = await fetchJson(`${sourceUrl(name)}?${query({ 'ws.op': 'searchTasks', tags: NEEDS_MERGE_TAG })}`);
+    return (tasks?.entries || []).map((task: any) => ({
+      id: Number(lastSegment(task.bug_link || '')),
+      title: bugTitle(task.title),
+      status: task.status || 'Unknown',
+      importance: task.importance || 'Undecided',
+      url: task.web_link || ''
+    }));
+  };
+
+  const fetchLatestUpload = async (name: string): Promise<LaunchpadUpload | null> => {
+    const series = await getDevelSeriesLink();
+    const publications = await fetchJson(`${LAUNCHPAD_API_URL}/ubuntu/+archive/primary?${query({
+      'ws.op': 'getPublishedSources',
+      source_name: name,
+      exact_match: true,
+      distro_series: series,
+      order_by_date: true,
+      'ws.size': 1
+    })}`);
+    const latest = publications?.entries?.[0];
+    if (!latest) return null;
+    return {
+      version: latest.source_package_version,
+      series: lastSegment(series),
+      pocket: latest.pocket || 'Release',
+      status: latest.status || 'Unknown',
+      date: latest.date_published || latest.date_created || null,
+      creator: personName(latest.package_creator_link),
+      url: `https://launchpad.net/ubuntu/+source/${name}/${latest.source_package_version}`
+    };
+  };
+
+  // Merge proposals target the package's default repository (the git-ubuntu import)
+  const fetchMergeProposals = async (name: string): Promise<LaunchpadMergeProposal[]> => {
+    const repository = await fetchJson(`${LAUNCHPAD_API_URL}/+git?${query({ 'ws.op': 'getByPath', path: `ubuntu/+source/${name}` })}`);
+    if (!repository?.landing_candidates_collection_link) return [];
+    const proposals = await fetchJson(repository.landing_candidates_collection_link);
+    return (proposals?.entries || []).map((mp: any) => ({
+      url: mp.web_link || '',
+      status: mp.queue_status || 'Unknown',
+      source: branchName(mp.source_git_path),
+      registrant: personName(mp.registrant_link),
+      createdAt: mp.date_created || null
+    }));
+  };
+
+  const settle = async <T>(name: string, part: string, request: Promise<T>): Promise<T | null> => {
+    try {
+      return await request;
+    } catch (e) {
+      console.warn(`Launchpad ${part} request failed for ${name}`, e);
+      return null;
+    }
+  };
+
+  return {
+    kind: 'api',
+    label: 'Launchpad API',
+    fetchInfo: async (name) => {
+      const [openBugs, needsMergeBugs, latestUpload, mergeProposals] = await Promise.all([
+        settle(name, 'bug count', fetchOpenBugs(name)),
+        settle(name, 'bug task', fetchNeedsMergeBugs(name)),
+        settle(name, 'upload', fetchLatestUpload(name)),
+        settle(name, 'merge proposal', fetchMergeProposals(name))
+      ]);
+      if (openBugs === null && needsMergeBugs === null && mergeProposals === null) {
+        throw new Error(`Launchpad is not reachable for ${name}`);
+      }
+      return {
+        package: name,
+        openBugs,
+        needsMergeBugs,
+        latestUpload,
+        mergeProposals,
+        fetchedAt: new Date().toISOString()
+      };
+    }
+  };
+};
+
+const fetchJsonFile = async (url: string): Promise<any> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Response status: ${res.status}`);
+  }
+  return res.json();
+};
+
+// Recorded summaries (e.g. `merges launchpad hello --format json > fixtures/launchpad/hello.json`)
+export const createLocalLaunchpadClient = (
+  baseDir: string = '/fixtures',
+  readJson: (path: string) => Promise<any> = fetchJsonFile
+): LaunchpadClient => ({
+  kind: 'local',
+  label: `Local files (${baseDir})`,
+  fetchInfo: async (name) => {
+    const raw = await readJson(`${baseDir.replace(/\/+$/, '')}/launchpad/${name}.json`);
+    return {
+      package: name,
+      openBugs: typeof raw?.openBugs === 'number' ? raw.openBugs : null,
+      needsMergeBugs: Array.isArray(raw?.needsMergeBugs) ? raw.needsMergeBugs : null,
+      latestUpload: raw?.latestUpload ?? null,
+      mergeProposals: Array.isArray(raw?.mergeProposals) ? raw.mergeProposals : null,
+      fetchedAt: typeof raw?.fetchedAt === 'string' ? raw.fetchedAt : new Date().toISOString()
+    };
+  }
+});
+
+// Configuration is read from the environment (injected by vite.config.ts):
+//   LAUNCHPAD_SOURCE      api | local   (default: local when DATA_SOURCE is local, api otherwise)
+//   LAUNCHPAD_SOURCE_URL  fixture directory of the local client (default: /fixtures)
+export const createLaunchpadClientFromConfig = (kind?: string, location?: string): LaunchpadClient => {
+  switch ((kind || '').toLowerCase()) {
+    case 'local':
+      return createLocalLaunchpadClient(location || undefined);
+    case 'api':
+      return createApiLaunchpadClient();
+    case '':
+      return (process.env.DATA_SOURCE || '').toLowerCase() === 'local'
+        ? createLocalLaunchpadClient(location || process.env.DATA_SOURCE_URL || undefined)
+        : createApiLaunchpadClient();
+    default:
+      console.warn(`Unknown LAUNCHPAD_SOURCE "${kind}", using the Launchpad API`);
+      return createApiLaunchpadClient();
+  }
+};
+
+let activeClient: LaunchpadClient | null = null;
+// Per-session cache; the detail panel and the list columns ask for the same packages
+let infoCache = new Map<string, Promise<LaunchpadInfo>>();
+
+export const getLaunchpadClient = (): LaunchpadClient => {
+  if (!activeClient) {
+    activeClient = createLaunchpadClientFromConfig(process.env.LAUNCHPAD_SOURCE, process.env.LAUNCHPAD_SOURCE_URL);
+  }
+  return activeClient;
+};
+
+// Overrides the configured client (embedding, scripts)
+export const setLaunchpadClient = (client: LaunchpadClient) => {
+  activeClient = client;
+  infoCache = new Map();
+};
+
+export const fetchLaunchpadInfo = (name: string): Promise<LaunchpadInfo> => {
+  let info = infoCache.get(name);
+  if (!info) {
+    info = getLaunchpadClient().fetchInfo(name);
+    infoCache.set(name, info);
+    // Failures are retried on the next request
+    info.catch(() => infoCache.delete(name));
+  }
+  return info;
+};
+
+// Several packages (a page of the list), a few at a time so the proxies are not flooded
+export const fetchLaunchpadInfos = async (
+  names: string[],
+  onResult: (name: string, info: LaunchpadInfo | null) => void,
+  concurrency: number = 4
+): Promise<void> => {
+  const queue = [...names];
+  const worker = async () => {
+    for (let name = queue.shift(); name !== undefined; name = queue.shift()) {
+      try {
+        onResult(name, await fetchLaunchpadInfo(name));
+      } catch (e) {
+        console.warn(`Failed to load Launchpad data for ${name}`, e);
+        onResult(name, null);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
+
+// Launchpad data of the given packages as it arrives: undefined while loading, null when it failed
+export const useLaunchpadInfos = (names: string[], enabled: boolean): Record<string, LaunchpadInfo | null | undefined> => {
+  const [infos, setInfos] = useState<Record<string, LaunchpadInfo | null>>({});
+  const key = enabled ? names.join('\n') : '';
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    fetchLaunchpadInfos(key.split('\n'), (name, info) => {
+      if (!cancelled) setInfos(prev => ({ ...prev, [name]: info }));
+    });
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return infos;
+};
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { fetchPackageReport } from './api';
+import { getPackageReportUrl } from './upstream';
+
+// Parser for the per-package REPORT written by merge-o-matic (merges.ubuntu.com/<prefix>/<pkg>/REPORT):
+//
+//   hello
+//   Tue Oct 14 06:12:41 2025
+//
+//   <prose, including the dpkg-genchanges command to use>
+//
+//   base: 2.10-3
+//       hello_2.10-3.dsc
+//       hello_2.10.orig.tar.gz
+//
+//   our distro (ubuntu): 2.10-3ubuntu1
+//       …
+//     The difference between the Ubuntu version and the base version is available in the following patch:
+//       hello_2.10-3ubuntu1.patch
+//
+//   source distro (debian): 2.10-5
+//       …
+//
+//   merged: 2.10-5ubuntu1
+//       …
+//
+//   The following files could not be merged automatically:
+//       debian/control
+//
+// The wording has changed over the years, so only the version lines and the indented file lists are relied on.
+
+export type ReportSide = 'base' | 'ours' | 'theirs' | 'merged';
+
+export interface ReportFile {
+  name: string;
+  url: string; // Resolved against the REPORT's location
+}
+
+export interface ReportSection {
+  side: ReportSide;
+  distro: string | null; // "ubuntu", "debian"; null for base and merged
+  version: string;
+  files: ReportFile[]; // .dsc, tarballs, diffs
+}
+
+export interface MergeReport {
+  package: string;
+  generatedAt: string | null;
+  sections: ReportSection[];
+  baseVersion: string | null;
+  patches: (ReportFile & { side: ReportSide })[]; // Generated patches, against the base version
+  conflicts: string[]; // Files left with conflict markers; empty when the merge went through
+  changesCommand: string | null; // e.g. "dpkg-genchanges -S -v2.10-3ubuntu1 -sa"
+}
+
+const SECTION_REGEXES: [ReportSide, RegExp][] = [
+  ['base', /^base:\s*(\S+)/i],
+  ['ours', /^(?:our distro|left)(?:\s*\(([^)]+)\))?:\s*(\S+)/i],
+  ['theirs', /^(?:source distro|right)(?:\s*\(([^)]+)\))?:\s*(\S+)/i],
+  ['merged', /^merged:\s*(\S+)/i]
+];
+
+const CONFLICTS_REGEX = /^conflicts\b|could not be merged|conflicts in the following files/i;
+const CHANGES_COMMAND_REGEX = /^\s*\$?\s*(dpkg-genchanges\b.*)$/;
+// A file list entry: indented, a single word
+const FILE_REGEX = /^\s+(\S+)\s*$/;
+const PATCH_REGEX = /\.(patch|diff)$/;
+
+const resolve = (name: string, reportUrl: string): string => {
+  try {
+    return new URL(name, reportUrl).toString();
+  } catch (e) {
+    return name;
+  }
+};
+
+export const parseMergeReport = (text: string, name: string, reportUrl: string = getPackageReportUrl(name)): MergeReport => {
+  const report: MergeReport = {
+    package: name,
+    generatedAt: null,
+    sections: [],
+    baseVersion: null,
+    patches: [],
+    conflicts: [],
+    changesCommand: null
+  };
+
+  const lines = text.split('\n');
+  // Package name, then the date it was generated
+  const header = lines.filter(line => line.trim()).slice(0, 2).map(line => line.trim());
+  if (header[1] && !isNaN(Date.parse(header[1]))) report.generatedAt = header[1];
+
+  let section: ReportSection | null = null;
+  let inConflicts = false;
+
+  lines.forEach(line => {
+    if (!line.trim() || /^[=-]+$/.test(line.trim())) return;
+
+    const command = line.match(CHANGES_COMMAND_REGEX);
+    if (command) {
+      report.changesCommand = command[1].trim();
+      return;
+    }
+
+    if (!/^\s/.test(line)) {
+      for (const [side, regex] of SECTION_REGEXES) {
+        const match = line.match(regex);
+        if (match) {
+          const distro = match.length > 2 ? match[1] || null : null;
+          section = { side, distro: distro && distro.toLowerCase(), version: match[match.length - 1], files: [] };
+          report.sections.push(section);
+          if (side === 'base') report.baseVersion = section.version;
+          inConflicts = false;
+          return;
+        }
+      }
+      if (CONFLICTS_REGEX.test(line)) {
+        section = null;
+        inConflicts = true;
+      }
+      return;
+    }
+
+    const file = line.match(FILE_REGEX)?.[1];
+    if (!file) {
+      // Indented prose (the patch announcements) belongs to the current section
+      if (CONFLICTS_REGEX.test(line)) {
+        section = null;
+        inConflicts = true;
+      }
+      return;
+    }
+
+    if (inConflicts) {
+      report.conflicts.push(file);
+    } else if (section) {
+      const owner: ReportSection = section;
+      const entry = { name: file, url: resolve(file, reportUrl) };
+      if (PATCH_REGEX.test(file)) {
+        report.patches.push({ ...entry, side: owner.side });
+      } else {
+        owner.files.push(entry);
+      }
+    }
+  });
+
+  report.conflicts = Array.from(new Set(report.conflicts));
+  return report;
+};
+
+// Merged source package files (tarballs, .dsc) ready to download
+export const getMergedFiles = (report: MergeReport): ReportFile[] =>
+  report.sections.find(section => section.side === 'merged')?.files ?? [];
+
+// --- Shared state ---
+
+// Per-session cache, shared by the detail panel and the list
+const reportCache = new Map<string, Promise<MergeReport>>();
+
+export const fetchMergeReport = (name: string): Promise<MergeReport> => {
+  let report = reportCache.get(name);
+  if (!report) {
+    report = fetchPackageReport(name).then(text => parseMergeReport(text, name));
+    reportCache.set(name, report);
+    // Failures are retried on the next request
+    report.catch(() => reportCache.delete(name));
+  }
+  return report;
+};
+
+const CHANGE_EVENT = 'merges:reports';
+
+// Reports loaded for the list so far: null when the package has none or it failed to load (tried again
+// the next time it is asked for)
+let current: Record<string, MergeReport | null> = {};
+
+// Several packages, a few at a time so the proxies are not flooded. Workers stop taking packages
+// once `isCancelled` returns true (the list moved to another page).
+export const loadMergeReports = async (
+  names: string[],
+  concurrency: number = 4,
+  isCancelled: () => boolean = () => false
+): Promise<Record<string, MergeReport | null>> => {
+  const queue = names.filter(name => !current[name]);
+  const worker = async () => {
+    for (let name = queue.shift(); name !== undefined && !isCancelled(); name = queue.shift()) {
+      if (current[name]) continue;
+      let report: MergeReport | null = null;
+      try {
+        report = await fetchMergeReport(name);
+      } catch (e) {
+        console.warn(`Failed to load the merge report of ${name}`, e);
+      }
+      current = { ...current, [name]: report };
+      if (typeof window !== 'undefined') window.dispatchEvent(new Event(CHANGE_EVENT));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return current;
+};
+
+// Reports loaded so far, updated as they arrive: missing while loading, null when unavailable.
+// The given packages (a page of the list) are loaded when `enabled`.
+export const useMergeReports = (names: string[], enabled: boolean): Record<string, MergeReport | null> => {
+  const [reports, setReports] = useState(current);
+
+  useEffect(() => {
+    const update = () => setReports(current);
+    window.addEventListener(CHANGE_EVENT, update);
+    return () => window.removeEventListener(CHANGE_EVENT, update);
+  }, []);
+
+  const key = enabled ? names.join('\n') : '';
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    loadMergeReports(key.split('\n'), 4, () => cancelled);
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return reports;
+};
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { SortField } from './filters';
+
+// Per-user settings kept in localStorage: small, needed synchronously (sidebar, star toggles) and
+// unlike the IndexedDB cache worth exporting and carrying over to another browser.
+
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string; // Search query, dropdown filters included (services/query.ts)
+  sortField: SortField;
+  sortAsc: boolean;
+  createdAt: string;
+}
+
+// Package List columns that are off by default (they load extra data per row)
+export type OptionalColumn = 'launchpadBugs' | 'launchpadUpload' | 'mergeProposals' | 'debianStatus' | 'conflicts' | 'deltaAbsorbed';
+
+export const OPTIONAL_COLUMNS: OptionalColumn[] = ['launchpadBugs', 'launchpadUpload', 'mergeProposals', 'debianStatus', 'conflicts', 'deltaAbsorbed'];
+
+export interface Preferences {
+  savedViews: SavedView[];
+  watchlist: string[]; // Package names
+  identity: string[]; // The user's uploader names and/or emails, for "My Merges"
+  columns: OptionalColumn[]; // Optional Package List columns turned on
+}
+
+const STORAGE_KEY = 'ubuntu-merges-tracker:preferences';
+const CHANGE_EVENT = 'merges:preferences';
+const EXPORT_FORMAT = 'ubuntu-merges-tracker/preferences';
+
+const EMPTY_PREFERENCES: Preferences = { savedViews: [], watchlist: [], identity: [], columns: [] };
+
+const isSavedView = (value: any): value is SavedView =>
+  !!value && typeof value.name === 'string' && typeof value.query === 'string' &&
+  typeof value.sortField === 'string' && typeof value.sortAsc === 'boolean';
+
+// crypto.randomUUID only exists in secure contexts; the relay serves plain HTTP
+const newViewId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Accepts stored and imported data alike, dropping anything malformed
+const sanitize = (raw: any): Preferences => ({
+  savedViews: Array.isArray(raw?.savedViews)
+    ? raw.savedViews.filter(isSavedView).map((v: SavedView) => ({
+        id: v.id || newViewId(),
+        name: v.name,
+        query: v.query,
+        sortField: v.sortField,
+        sortAsc: v.sortAsc,
+        createdAt: v.createdAt || new Date().toISOString()
+      }))
+    : [],
+  watchlist: Array.isArray(raw?.watchlist)
+    ? Array.from(new Set<string>(raw.watchlist.filter((n: unknown) => typeof n === 'string' && n))).sort()
+    : [],
+  identity: Array.isArray(raw?.identity)
+    ? Array.from(new Set<string>(raw.identity.filter((n: unknown) => typeof n === 'string').map((n: string) => n.trim()).filter(Boolean)))
+    : [],
+  columns: Array.isArray(raw?.columns)
+    ? OPTIONAL_COLUMNS.filter(column => raw.columns.includes(column))
+    : []
+});
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitize(JSON.parse(stored)) : EMPTY_PREFERENCES;
+  } catch (e) {
+    console.warn('Failed to read preferences', e);
+    return EMPTY_PREFERENCES;
+  }
+};
+
+const updatePreferences = (update: (prefs: Preferences) => Preferences) => {
+  const next = update(loadPreferences());
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('Failed to save preferences', e);
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// --- Saved views ---
+
+export const saveView = (name: string, view: Pick<SavedView, 'query' | 'sortField' | 'sortAsc'>) => {
+  updatePreferences(prefs => ({
+    ...prefs,
+    // Saving under an existing name overwrites that view
+    savedViews: [
+      ...prefs.savedViews.filter(v => v.name !== name),
+      { id: newViewId(), name, ...view, createdAt: new Date().toISOString() }
+    ]
+  }));
+};
+
+export const renameView = (id: string, name: string) => {
+  updatePreferences(prefs => ({
+    ...prefs,
+    savedViews: prefs.savedViews.map(v => v.id === id ? { ...v, name } : v)
+  }));
+};
+
+export const deleteView = (id: string) => {
+  updatePreferences(prefs => ({ ...prefs, savedViews: prefs.savedViews.filter(v => v.id !== id) }));
+};
+
+// --- Watchlist ---
+
+export const isWatched = (prefs: Preferences, name: string) => prefs.watchlist.includes(name);
+
+export const toggleWatched = (name: string) => {
+  updatePreferences(prefs => ({
+    ...prefs,
+    watchlist: prefs.watchlist.includes(name)
+      ? prefs.watchlist.filter(n => n !== name)
+      : [...prefs.watchlist, name].sort()
+  }));
+};
+
+// --- Identity ---
+
+export const setIdentity = (identity: string[]) => {
+  updatePreferences(prefs => ({
+    ...prefs,
+    identity: Array.from(new Set(identity.map(entry => entry.trim()).filter(Boolean)))
+  }));
+};
+
+// --- List columns ---
+
+export const toggleColumn = (column: OptionalColumn) => {
+  updatePreferences(prefs => ({
+    ...prefs,
+    columns: OPTIONAL_COLUMNS.filter(c => c === column ? !prefs.columns.includes(c) : prefs.columns.includes(c))
+  }));
+};
+
+// --- Import / export ---
+
+export const exportPreferences = (): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), ...loadPreferences() }, null, 2);
+
+// Merges an exported file into the current preferences: views with the same name are replaced,
+// watchlists and identities are combined. Returns what was imported.
+export const importPreferences = (json: string): Preferences => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (raw?.format !== EXPORT_FORMAT) {
+    throw new Error('Not a preferences export of this tracker');
+  }
+
+  const imported = sanitize(raw);
+  updatePreferences(prefs => {
+    const importedNames = new Set(imported.savedViews.map(v => v.name));
+    return {
+      ...prefs,
+      savedViews: [...prefs.savedViews.filter(v => !importedNames.has(v.name)), ...imported.savedViews],
+      watchlist: Array.from(new Set([...prefs.watchlist, ...imported.watchlist])).sort(),
+      identity: Array.from(new Set([...prefs.identity, ...imported.identity]))
+    };
+  });
+  return imported;
+};
+
+// Current preferences, re-rendering on changes from this tab and from other tabs
+export const usePreferences = (): Preferences => {
+  const [prefs, setPrefs] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => {
+    const update = () => setPrefs(loadPreferences());
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) update();
+    };
+    window.addEventListener(CHANGE_EVENT, update);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, update);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, []);
+
+  return prefs;
+};
@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuerySyntaxError, compileQuery, formatQuery, getFieldSelection, parseAgeValue, parseQuery, setFieldSelection } from './query';
+
+describe('parseQuery / formatQuery', () => {
+  const queries = [
+    'glibc',
+    'team:desktop-packages age:>90 component:main',
+    'uploader:"Jane Doe" -name:lib*',
+    '(status:conflicts OR status:failed) name:/^python3?-/i',
+    '-(team:foundations-bugs OR team:desktop-packages) claimed:no',
+    'a OR b c',
+    'age:7..30 debian:rc-bugs sync:candidate',
+    'name:"-foo" "OR"',
+    'name:/a\\/b/'
+  ];
+
+  for (const query of queries) {
+    it(`round-trips ${query}`, () => {
+      const node = parseQuery(query);
+      assert.equal(formatQuery(node), query);
+      assert.deepEqual(parseQuery(formatQuery(node)), node);
+    });
+  }
+
+  it('normalizes alternative spellings', () => {
+    assert.equal(formatQuery(parseQuery('NOT a | b AND c')), '-a OR b c');
+    assert.equal(formatQuery(parseQuery('/^lib/')), 'name:/^lib/');
+  });
+
+  it('gives OR a lower precedence than AND', () => {
+    assert.deepEqual(parseQuery('a OR b c'), {
+      type: 'or',
+      children: [
+        { type: 'term', term: { field: 'name', op: ':', value: 'a', kind: 'text', implicit: true } },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', term: { field: 'name', op: ':', value: 'b', kind: 'text', implicit: true } },
+            { type: 'term', term: { field: 'name', op: ':', value: 'c', kind: 'text', implicit: true } }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('matches everything when empty', () => {
+    assert.equal(parseQuery(''), null);
+    assert.equal(parseQuery('   '), null);
+  });
+});
+
+describe('incomplete queries', () => {
+  it('ignores a dangling "-" or NOT', () => {
+    assert.equal(formatQuery(parseQuery('foo -')), 'foo');
+    assert.equal(formatQuery(parseQuery('foo NOT')), 'foo');
+    assert.equal(formatQuery(parseQuery('(foo -)')), 'foo');
+    assert.equal(parseQuery('NOT'), null);
+  });
+
+  it('keeps a spaced "-" as a search for it', () => {
+    assert.equal(formatQuery(parseQuery('foo - bar')), 'foo "-" bar');
+  });
+
+  it('skips a field with no value yet', () => {
+    assert.equal(formatQuery(parseQuery('glibc team:')), 'glibc');
+  });
+
+  it('closes parentheses and quotes still being typed', () => {
+    assert.equal(formatQuery(parseQuery('(a OR b')), 'a OR b');
+    assert.equal(formatQuery(parseQuery('((a)')), 'a');
+    assert.equal(formatQuery(parseQuery('uploader:"Jane')), 'uploader:Jane');
+  });
+});
+
+describe('syntax errors', () => {
+  const errorOf = (query: string) => compileQuery(query).error;
+
+  it('reports an unbalanced closing parenthesis', () => {
+    assert.equal(errorOf('a)'), 'Unexpected ")"');
+    assert.equal(errorOf('(a) b)'), 'Unexpected ")"');
+  });
+
+  it('reports unknown fields with their position', () => {
+    assert.match(errorOf('glibc bar:x')!, /^Unknown field "bar"/);
+    assert.throws(() => parseQuery('glibc bar:x'), (err: unknown) => err instanceof QuerySyntaxError && err.position === 6);
+  });
+
+  it('accepts fields in any case', () => {
+    assert.equal(formatQuery(parseQuery('Team:x')), 'team:x');
+  });
+
+  it('only allows comparisons on age', () => {
+    assert.equal(errorOf('team:>x'), 'Comparison ">" is only supported for age');
+  });
+
+  it('reports invalid regular expressions', () => {
+    assert.equal(errorOf('/[a/'), 'Invalid regular expression /[a/');
+    assert.equal(errorOf('name:/(/'), 'Invalid regular expression /(/');
+  });
+
+  it('reports age values that are not durations', () => {
+    assert.match(errorOf('age:abc')!, /^age expects a number of days/);
+    assert.match(errorOf('age:1..2..3')!, /^age expects a number of days/);
+    assert.match(errorOf('age:/1/')!, /^age expects a number of days/);
+    assert.match(errorOf('age:>1..2')!, /^age expects a number of days/);
+  });
+});
+
+describe('age values', () => {
+  it('converts units to days', () => {
+    assert.equal(parseAgeValue('90'), 90);
+    assert.equal(parseAgeValue('90d'), 90);
+    assert.equal(parseAgeValue('2w'), 14);
+    assert.equal(parseAgeValue('6M'), 180);
+    assert.equal(parseAgeValue('1y'), 365);
+    assert.equal(parseAgeValue('1.5w'), 11);
+    assert.equal(parseAgeValue('w'), null);
+    assert.equal(parseAgeValue('-3'), null);
+  });
+
+  it('accepts ranges and comparisons', () => {
+    assert.equal(compileQuery('age:7..30').error, undefined);
+    assert.equal(compileQuery('age:1w..6m').error, undefined);
+    assert.equal(compileQuery('age:>=2w').error, undefined);
+    assert.equal(compileQuery('age:<1y').error, undefined);
+  });
+});
+
+describe('field selections', () => {
+  it('reads the value a dropdown shows', () => {
+    assert.equal(getFieldSelection(parseQuery('glibc'), 'team'), 'All');
+    assert.equal(getFieldSelection(parseQuery('team:x glibc'), 'team'), 'x');
+    assert.equal(getFieldSelection(parseQuery('age:>180'), 'age'), '>180');
+    assert.equal(getFieldSelection(parseQuery('team:x OR team:y'), 'team'), null);
+    assert.equal(getFieldSelection(parseQuery('-team:x'), 'team'), null);
+    assert.equal(getFieldSelection(parseQuery('team:lib*'), 'team'), null);
+  });
+
+  it('rewrites the top-level terms of a field', () => {
+    assert.equal(setFieldSelection('glibc team:x', 'team', 'y'), 'glibc team:y');
+    assert.equal(setFieldSelection('glibc team:x', 'team', 'All'), 'glibc');
+    assert.equal(setFieldSelection('glibc', 'uploader', 'Jane Doe'), 'glibc uploader:"Jane Doe"');
+    assert.equal(setFieldSelection('glibc (', 'age', '>90'), 'glibc age:>90');
+  });
+});
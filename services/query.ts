@@ -0,0 +1,306 @@
+// Query language of the package search box:
+//
+//   team:desktop-packages age:>90 component:main uploader:"Jane Doe" -name:lib*
+//   (status:conflicts OR status:failed) /^python3?-/
+//
+// Whitespace (or AND) joins terms, OR (or |) is an alternative, a leading '-' (or NOT) negates a term
+// or a parenthesized group. Bare words search package names. Values can be quoted ("Jane Doe"),
+// globs (lib*) or regular expressions (/^lib.*-dev$/i). `age` takes a number of days with an optional
+// d/w/m/y unit, a comparison (>90, <=2w) or a range (7..30).
+//
+// This module only deals with syntax; services/filters.ts evaluates the AST against packages.
+
+export type QueryField = 'name' | 'team' | 'component' | 'uploader' | 'age' | 'gap' | 'status' | 'claimed' | 'debian' | 'maintainer' | 'sync';
+
+export const QUERY_FIELDS: QueryField[] = ['name', 'team', 'component', 'uploader', 'age', 'gap', 'status', 'claimed', 'debian', 'maintainer', 'sync'];
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  field: QueryField;
+  op: QueryOperator;
+  value: string;
+  kind: 'text' | 'regex';
+  flags?: string; // Regex flags
+  implicit?: boolean; // Bare word without a field: substring match on the name
+}
+
+export type QueryNode =
+  | { type: 'term'; term: QueryTerm }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'and' | 'or'; children: QueryNode[] };
+
+export interface ParsedQuery {
+  node: QueryNode | null; // null matches everything
+  error?: string;
+}
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+// --- Tokenizer ---
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not'; pos: number }
+  | { kind: 'term'; term: QueryTerm; pos: number };
+
+const isSpace = (c: string | undefined) => c !== undefined && /\s/.test(c);
+
+const AGE_VALUE = /^(\d+(?:\.\d+)?)([dwmy]?)$/i;
+const AGE_UNITS: Record<string, number> = { '': 1, d: 1, w: 7, m: 30, y: 365 };
+
+// "90", "12w", "6m", "1y" -> days
+export const parseAgeValue = (value: string): number | null => {
+  const match = value.match(AGE_VALUE);
+  return match ? Math.round(parseFloat(match[1]) * AGE_UNITS[match[2].toLowerCase()]) : null;
+};
+
+const validateTerm = (term: QueryTerm, pos: number) => {
+  if (term.field === 'age') {
+    const bounds = term.op === ':' || term.op === '=' ? term.value.split('..') : [term.value];
+    if (term.kind === 'regex' || bounds.length > 2 || bounds.some(b => parseAgeValue(b) === null)) {
+      throw new QuerySyntaxError(`age expects a number of days, e.g. age:>90 or age:7..30 (got "${term.value}")`, pos);
+    }
+  } else if (term.op !== ':' && term.op !== '=') {
+    throw new QuerySyntaxError(`Comparison "${term.op}" is only supported for age`, pos);
+  }
+
+  if (term.kind === 'regex') {
+    try {
+      new RegExp(term.value, term.flags);
+    } catch {
+      throw new QuerySyntaxError(`Invalid regular expression /${term.value}/`, pos);
+    }
+  }
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readUntil = (close: string): string => {
+    let value = '';
+    while (i < input.length && input[i] !== close) {
+      if (input[i] === '\\' && input[i + 1] === close) i++;
+      value += input[i++];
+    }
+    i++; // Closing delimiter (lenient when missing, the user may still be typing)
+    return value;
+  };
+
+  while (i < input.length) {
+    const c = input[i];
+    const pos = i;
+
+    if (isSpace(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({ kind: c === '(' ? 'lparen' : 'rparen', pos });
+      i++;
+    } else if (c === '|') {
+      tokens.push({ kind: 'or', pos });
+      i++;
+    } else if (c === '-' && !isSpace(input[i + 1])) {
+      // A '-' at the very end is a negation still being typed, ignored by the parser
+      tokens.push({ kind: 'not', pos });
+      i++;
+    } else {
+      let field: QueryField = 'name';
+      let implicit = true;
+      const fieldMatch = input.slice(i).match(/^([a-zA-Z]+):/);
+      if (fieldMatch) {
+        const name = fieldMatch[1].toLowerCase() as QueryField;
+        if (!QUERY_FIELDS.includes(name)) {
+          throw new QuerySyntaxError(`Unknown field "${fieldMatch[1]}" (expected one of ${QUERY_FIELDS.join(', ')})`, pos);
+        }
+        field = name;
+        implicit = false;
+        i += fieldMatch[0].length;
+      }
+
+      const opMatch = implicit ? null : input.slice(i).match(/^(>=|<=|>|<|=)/);
+      const op = (opMatch ? opMatch[1] : ':') as QueryOperator;
+      if (opMatch) i += opMatch[0].length;
+
+      let term: QueryTerm;
+      if (input[i] === '"') {
+        i++;
+        term = { field, op, value: readUntil('"'), kind: 'text' };
+      } else if (input[i] === '/') {
+        i++;
+        const value = readUntil('/');
+        const flags = (input.slice(i).match(/^[a-z]*/) || [''])[0];
+        i += flags.length;
+        term = { field, op, value, kind: 'regex', flags };
+      } else {
+        const start = i;
+        while (i < input.length && !isSpace(input[i]) && input[i] !== '(' && input[i] !== ')') i++;
+        const value = input.slice(start, i);
+
+        if (implicit && (value === 'OR' || value === 'AND' || value === 'NOT')) {
+          if (value !== 'AND') tokens.push({ kind: value === 'OR' ? 'or' : 'not', pos });
+          continue;
+        }
+        term = { field, op, value, kind: 'text' };
+      }
+
+      if (implicit) {
+        // A bare regex is a name pattern, not a substring search
+        term = term.kind === 'regex' ? term : { ...term, implicit: true };
+      }
+
+      // "team:" with nothing after it yet is skipped rather than reported
+      if (!term.value) continue;
+
+      validateTerm(term, pos);
+      tokens.push({ kind: 'term', term, pos });
+    }
+  }
+
+  return tokens;
+};
+
+// --- Parser ---
+//   or    := and (OR and)*
+//   and   := unary+
+//   unary := NOT unary | '(' or ')' | term
+
+export const parseQuery = (input: string): QueryNode | null => {
+  const tokens = tokenize(input);
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null =>
+    children.length === 0 ? null : children.length === 1 ? children[0] : { type, children };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[index++];
+    if (token.kind === 'not') {
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') return null; // Dangling '-'
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    if (token.kind === 'lparen') {
+      const inner = parseOr();
+      if (peek()?.kind === 'rparen') index++;
+      return inner;
+    }
+    if (token.kind === 'term') return { type: 'term', term: token.term };
+    throw new QuerySyntaxError('Unexpected token', token.pos);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (peek() && peek().kind !== 'rparen' && peek().kind !== 'or') {
+      const child = parseUnary();
+      if (child) children.push(child);
+    }
+    return combine('and', children);
+  };
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (peek()?.kind === 'or') {
+      index++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    return combine('or', children);
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new QuerySyntaxError('Unexpected ")"', tokens[index].pos);
+  }
+  return node;
+};
+
+// Parse for display: errors are reported instead of thrown
+export const compileQuery = (input: string): ParsedQuery => {
+  try {
+    return { node: parseQuery(input) };
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) return { node: null, error: err.message };
+    throw err;
+  }
+};
+
+// --- Serializer ---
+
+const quote = (value: string) => /^[^\s"()|]+$/.test(value) && !value.startsWith('-') && !['OR', 'AND', 'NOT'].includes(value)
+  ? value
+  : `"${value.replace(/"/g, '\\"')}"`;
+
+export const formatTerm = (term: QueryTerm): string => {
+  const value = term.kind === 'regex' ? `/${term.value.replace(/\//g, '\\/')}/${term.flags || ''}` : quote(term.value);
+  if (term.implicit) return value;
+  return `${term.field}:${term.op === ':' ? '' : term.op}${value}`;
+};
+
+export const formatQuery = (node: QueryNode | null, parent?: QueryNode['type']): string => {
+  if (!node) return '';
+  switch (node.type) {
+    case 'term':
+      return formatTerm(node.term);
+    case 'not':
+      return `-${formatQuery(node.child, 'not')}`;
+    case 'and': {
+      const text = node.children.map(child => formatQuery(child, 'and')).join(' ');
+      return parent === 'not' ? `(${text})` : text;
+    }
+    case 'or': {
+      const text = node.children.map(child => formatQuery(child, 'or')).join(' OR ');
+      return parent === 'and' || parent === 'not' ? `(${text})` : text;
+    }
+  }
+};
+
+// --- Dropdown views over the AST ---
+
+const topLevelNodes = (node: QueryNode | null): QueryNode[] =>
+  !node ? [] : node.type === 'and' ? node.children : [node];
+
+export const mentionsField = (node: QueryNode, field: QueryField): boolean => {
+  switch (node.type) {
+    case 'term':
+      return node.term.field === field && !node.term.implicit;
+    case 'not':
+      return mentionsField(node.child, field);
+    default:
+      return node.children.some(child => mentionsField(child, field));
+  }
+};
+
+// Value shown by a field's dropdown: the value of a plain top-level `field:value` term (operator included
+// for age, e.g. ">180"), 'All' when the query does not mention the field, and null when it constrains the
+// field in a way a single dropdown value cannot show (negation, OR, globs, regexes, several terms).
+export const getFieldSelection = (node: QueryNode | null, field: QueryField): string | null => {
+  const mentions = topLevelNodes(node).filter(n => mentionsField(n, field));
+  if (mentions.length === 0) return 'All';
+  if (mentions.length > 1) return null;
+
+  const only = mentions[0];
+  if (only.type !== 'term' || only.term.kind === 'regex') return null;
+  const { op, value } = only.term;
+  if (field === 'age') return op === ':' ? value : `${op}${value}`;
+  return op === ':' && !/[*?]/.test(value) ? value : null;
+};
+
+// Rewrites the query text for a dropdown change: top-level terms on the field are replaced by `field:value`
+export const setFieldSelection = (input: string, field: QueryField, value: string): string => {
+  const { node, error } = compileQuery(input);
+  const replacement = value === 'All' ? null : parseQuery(`${field}:${field === 'age' ? value : quote(value)}`);
+
+  // Leave a query that does not parse alone, only add to it
+  if (error) return [input.trim(), formatQuery(replacement)].filter(Boolean).join(' ');
+
+  const kept = topLevelNodes(node).filter(n => !mentionsField(n, field));
+  const children = replacement ? [...kept, replacement] : kept;
+  return formatQuery(children.length === 1 ? children[0] : children.length ? { type: 'and', children } : null);
+};
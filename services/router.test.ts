@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeListState, encodeListState, hasLegacyFilters, migrateLegacyFilters } from './router';
+
+const params = (search: string) => new URLSearchParams(search);
+
+describe('list state in the URL', () => {
+  it('round-trips the query, sort and page', () => {
+    const state = { query: 'team:desktop-packages age:>90', sortField: 'ageInDays' as const, sortAsc: true, page: 2 };
+    assert.deepEqual(decodeListState(encodeListState(state)), state);
+    assert.equal(encodeListState(state).toString(), 'q=team%3Adesktop-packages+age%3A%3E90&sort=age&page=2');
+  });
+
+  it('falls back to the defaults for bad values', () => {
+    assert.deepEqual(decodeListState(params('sort=bogus&page=-1')), decodeListState(params('')));
+  });
+});
+
+describe('links from before the query language', () => {
+  it('reads the old filter parameters as query terms', () => {
+    const state = decodeListState(params('team=ubuntu-server&age=gt6m&sort=-age'));
+    assert.equal(state.query, 'team:ubuntu-server age:>180');
+    assert.equal(state.sortField, 'ageInDays');
+    assert.equal(state.sortAsc, false);
+  });
+
+  it('keeps the search and quotes values with spaces', () => {
+    assert.equal(
+      decodeListState(params('q=lib&component=main&uploader=Jane+Doe&gap=upstream-bump&status=needs-merge')).query,
+      'lib component:main uploader:"Jane Doe" gap:upstream-bump status:needs-merge'
+    );
+  });
+
+  it('ignores age buckets it does not know', () => {
+    assert.equal(decodeListState(params('age=gt9y')).query, '');
+  });
+
+  it('rewrites the link to q=', () => {
+    const query = params('team=ubuntu-server&age=gt6m&sort=-age');
+    assert.ok(hasLegacyFilters(query));
+    const migrated = migrateLegacyFilters(query);
+    assert.equal(migrated.toString(), 'q=team%3Aubuntu-server+age%3A%3E180&sort=-age');
+    assert.ok(!hasLegacyFilters(migrated));
+  });
+});
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { MergePackage } from '../types';
+import { AGE_BUCKETS, DEFAULT_LIST_STATE, ListState, formatSortKey, parseSortKey } from './filters';
+import { QueryField, setFieldSelection } from './query';
+import { SavedView } from './preferences';
+
+// Client-side routing on top of the History API. View state lives in the URL so any view can be linked:
+//   /                          dashboard
+//   /list?q=team:x+age:>180&sort=-age&page=2  (older ?team=x&age=gt6m links are rewritten to q=)
+//   /changes?since=<iso>&kind=resolved&q=component:main
+//   /mine                      packages last uploaded by the user
+//   /watchlist                 watchlist and saved views
+//   /team/foundations-bugs     team workload (/team lists all teams)
+//   /package/universe/foo      PackageDetail slide-over (over the view it was opened from)
+
+export type View = 'dashboard' | 'list' | 'changes' | 'mine' | 'watchlist' | 'team';
+
+export interface PackageRef {
+  component: string;
+  name: string;
+}
+
+export interface Route {
+  view: View;
+  query: URLSearchParams;
+  team?: string; // Team page
+  packageRef?: PackageRef;
+}
+
+const VIEW_PATHS: Record<View, string> = {
+  dashboard: '/',
+  list: '/list',
+  changes: '/changes',
+  mine: '/mine',
+  watchlist: '/watchlist',
+  team: '/team'
+};
+
+// Fired after pushState/replaceState, which (unlike back/forward) do not emit popstate
+const NAVIGATE_EVENT = 'merges:navigate';
+
+const slug = (value: string) => value.toLowerCase().replace(/\s+/g, '-');
+
+// --- Filter <-> query string ---
+
+// The search query carries every filter, dropdowns included (services/query.ts)
+export const encodeFilters = (search: string, query: URLSearchParams = new URLSearchParams()): URLSearchParams => {
+  // Not trimmed: the search box is rendered from this value while the user types
+  if (search) query.set('q', search);
+  return query;
+};
+
+// Links written before the query language carried one parameter per dropdown
+// (/list?team=x&age=gt6m&component=main); they are read as the equivalent query terms.
+const LEGACY_FILTER_PARAMS: QueryField[] = ['component', 'team', 'uploader', 'age', 'gap', 'status'];
+
+export const hasLegacyFilters = (query: URLSearchParams) => LEGACY_FILTER_PARAMS.some(param => query.has(param));
+
+export const decodeFilters = (query: URLSearchParams): string =>
+  LEGACY_FILTER_PARAMS.reduce((search, field) => {
+    const value = query.get(field);
+    if (!value) return search;
+    // Age buckets were ids (gt6m); the other values match the query fields as they are (slugs included)
+    const selection = field === 'age' ? AGE_BUCKETS.find(bucket => bucket.id === value)?.query : value;
+    return selection ? setFieldSelection(search, field, selection) : search;
+  }, query.get('q') || '');
+
+// The same view with its legacy filter parameters folded into q=
+export const migrateLegacyFilters = (query: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(query);
+  LEGACY_FILTER_PARAMS.forEach(param => next.delete(param));
+  next.delete('q');
+  const search = decodeFilters(query);
+  return search ? new URLSearchParams([['q', search], ...next]) : next;
+};
+
+// sort=-age is "age, descending"; defaults are left out of the URL
+export const encodeListState = (state: ListState): URLSearchParams => {
+  const query = encodeFilters(state.query);
+  if (state.sortField !== DEFAULT_LIST_STATE.sortField || state.sortAsc !== DEFAULT_LIST_STATE.sortAsc) {
+    query.set('sort', formatSortKey(state.sortField, state.sortAsc));
+  }
+  if (state.page > 1) query.set('page', String(state.page));
+  return query;
+};
+
+export const decodeListState = (query: URLSearchParams): ListState => {
+  const sort = parseSortKey(query.get('sort') || '');
+  const page = parseInt(query.get('page') || '1', 10);
+
+  return {
+    query: decodeFilters(query),
+    sortField: sort ? sort.sortField : DEFAULT_LIST_STATE.sortField,
+    sortAsc: sort ? sort.sortAsc : DEFAULT_LIST_STATE.sortAsc,
+    page: isNaN(page) || page < 1 ? 1 : page
+  };
+};
+
+// --- Paths ---
+
+export const pathForView = (view: View, query?: URLSearchParams): string => {
+  const search = query ? query.toString() : '';
+  return `${VIEW_PATHS[view]}${search ? `?${search}` : ''}`;
+};
+
+export const teamPath = (team: string): string => `${VIEW_PATHS.team}/${encodeURIComponent(team)}`;
+
+export const savedViewPath = (view: SavedView): string =>
+  pathForView('list', encodeListState({ query: view.query, sortField: view.sortField, sortAsc: view.sortAsc, page: 1 }));
+
+export const packagePath = (pkg: MergePackage): string =>
+  `/package/${slug(pkg.component)}/${encodeURIComponent(pkg.name)}`;
+
+export const matchesPackageRef = (pkg: MergePackage, ref: PackageRef) =>
+  slug(pkg.component) === ref.component.toLowerCase() && pkg.name === ref.name;
+
+export const currentPath = () => `${window.location.pathname}${window.location.search}`;
+
+const parsePath = (path: string, background?: string): Route => {
+  const url = new URL(path, window.location.origin);
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments[0] === 'package' && segments.length === 3) {
+    // The slide-over keeps the view it was opened from; deep links open over the list
+    const underlying = background ? parsePath(background) : { view: 'list' as View, query: new URLSearchParams() };
+    return { ...underlying, packageRef: { component: segments[1], name: segments[2] } };
+  }
+
+  if (segments[0] === 'team' && segments.length === 2) {
+    return { view: 'team', query: url.searchParams, team: segments[1] };
+  }
+
+  const view = (Object.keys(VIEW_PATHS) as View[]).find(v => VIEW_PATHS[v] === `/${segments.join('/')}`) || 'dashboard';
+  return { view, query: url.searchParams };
+};
+
+export const parseLocation = (): Route => parsePath(currentPath(), window.history.state?.background);
+
+interface NavigateOptions {
+  replace?: boolean;
+  background?: string; // Path rendered behind the package slide-over
+}
+
+export const navigate = (path: string, options: NavigateOptions = {}) => {
+  if (path === currentPath() && !options.background) return;
+  const state = options.background ? { background: options.background } : null;
+  if (options.replace) {
+    window.history.replaceState(state, '', path);
+  } else {
+    window.history.pushState(state, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+// Current route, re-rendering on navigate() and on back/forward
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(parseLocation);
+
+  useEffect(() => {
+    const update = () => setRoute(parseLocation());
+    window.addEventListener('popstate', update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+};
@@ -0,0 +1,53 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MergePackage, MergeStatus, PackageSet, VersionGap } from '../types';
+import { DEFAULT_SCORING_MODEL, buildScoringModel, getPriorityQueue, parseWeights, setScoringModel } from './scoring';
+
+const pkg = (name: string, component: PackageSet, ageInDays: number): MergePackage => ({
+  id: name,
+  name,
+  ubuntuVersion: '1.0-1ubuntu1',
+  debianVersion: '1.0-2',
+  component,
+  teams: [],
+  age: `${ageInDays}d`,
+  ageInDays,
+  uploader: `${name} <${name}@example.com>`,
+  versionGap: VersionGap.DEBIAN_REVISION,
+  status: MergeStatus.NEEDS_MERGE
+});
+
+describe('scoring model', () => {
+  afterEach(() => setScoringModel({}));
+
+  it('changes the order when the weights change', () => {
+    const data = [pkg('old-multiverse', PackageSet.MULTIVERSE, 300), pkg('new-main', PackageSet.MAIN, 10)];
+    assert.deepEqual(getPriorityQueue(data, 2).map(p => p.name), ['old-multiverse', 'new-main']);
+
+    setScoringModel({ weights: { age: 10, component: 60 } });
+    assert.deepEqual(getPriorityQueue(data, 2).map(p => p.name), ['new-main', 'old-multiverse']);
+  });
+
+  it('rescales the weights to 100 and keeps the others', () => {
+    const model = buildScoringModel({ weights: { age: 90 } });
+    assert.ok(Math.abs(Object.values(model.weights).reduce((a, b) => a + b, 0) - 100) < 1e-9);
+    assert.ok(Math.abs(model.weights.age / model.weights.component - 90 / DEFAULT_SCORING_MODEL.weights.component) < 1e-9);
+    assert.equal(model.componentWeights[PackageSet.MAIN], 1);
+  });
+
+  it('rejects negative or all-zero weights', () => {
+    assert.throws(() => buildScoringModel({ weights: { age: -1 } }));
+    assert.throws(() => buildScoringModel({ weights: { age: 0, component: 0, gap: 0, delta: 0, uploader: 0 } }));
+  });
+});
+
+describe('parseWeights', () => {
+  it('reads factor=weight lists', () => {
+    assert.deepEqual(parseWeights('age=60, component=20'), { age: 60, component: 20 });
+  });
+
+  it('rejects unknown factors and bad numbers', () => {
+    assert.throws(() => parseWeights('size=3'), /Unknown score factor size/);
+    assert.throws(() => parseWeights('age=much'), /Invalid weight for age/);
+  });
+});
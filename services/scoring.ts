@@ -0,0 +1,239 @@
+import { MergePackage, MergeStatus, PackageSet, UbuntuDelta, VersionGap } from '../types';
+import { IdentityIndex, UploaderIdentity, getIdentityIndex, resolveIdentity } from './uploaders';
+
+// Merge priority: a 0-100 score combining how old a merge is with how much it matters and how hard it is.
+// Each factor is normalized to 0..1 and weighted; the weights and scales live in the model below, which
+// SCORING_MODEL (JSON, injected by vite.config.ts) and the CLI's --weights override.
+
+export interface ScoringModel {
+  weights: Record<ScoreFactorId, number>; // Points each factor contributes at its maximum; they add up to 100
+  ageCapDays: number; // Age at which the age factor saturates
+  componentWeights: Record<PackageSet, number>;
+  gapWeights: Record<VersionGap, number>;
+  deltaScale: number; // Delta size (changelog bullets) at which the delta factor is halved
+  activeWithinDays: number; // An uploader who uploaded within this window is active
+  activeUploaders: string[]; // Names or emails known to be active (e.g. the team roster)
+}
+
+export type ScoreFactorId = 'age' | 'component' | 'gap' | 'delta' | 'uploader';
+
+export const SCORE_FACTORS: ScoreFactorId[] = ['age', 'component', 'gap', 'delta', 'uploader'];
+
+// Any part of the model; the weight tables are merged into the defaults entry by entry
+export interface ScoringModelOverrides extends Partial<Omit<ScoringModel, 'weights' | 'componentWeights' | 'gapWeights'>> {
+  weights?: Partial<Record<ScoreFactorId, number>>;
+  componentWeights?: Partial<Record<PackageSet, number>>;
+  gapWeights?: Partial<Record<VersionGap, number>>;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  weights: { age: 40, component: 25, gap: 15, delta: 10, uploader: 10 },
+  ageCapDays: 365,
+  componentWeights: {
+    [PackageSet.MAIN]: 1,
+    [PackageSet.RESTRICTED]: 0.75,
+    [PackageSet.UNIVERSE]: 0.5,
+    [PackageSet.MULTIVERSE]: 0.25
+  },
+  // How far Ubuntu is behind: new upstream releases first, nothing to do when Ubuntu is ahead
+  gapWeights: {
+    [VersionGap.EPOCH_CHANGE]: 1,
+    [VersionGap.UPSTREAM_BUMP]: 0.8,
+    [VersionGap.DEBIAN_REVISION]: 0.5,
+    [VersionGap.UNKNOWN]: 0.4,
+    [VersionGap.UBUNTU_AHEAD]: 0
+  },
+  deltaScale: 5,
+  activeWithinDays: 365,
+  activeUploaders: []
+};
+
+// The defaults with the overrides applied; weights are rescaled to add up to 100 again
+export const buildScoringModel = (overrides: ScoringModelOverrides = {}): ScoringModel => {
+  const weights = { ...DEFAULT_SCORING_MODEL.weights, ...overrides.weights };
+  const total = SCORE_FACTORS.reduce((sum, id) => sum + weights[id], 0);
+  if (!(total > 0) || SCORE_FACTORS.some(id => !(weights[id] >= 0))) throw new Error('Score weights must be non-negative numbers, not all zero');
+  return {
+    ...DEFAULT_SCORING_MODEL,
+    ...overrides,
+    weights: Object.fromEntries(SCORE_FACTORS.map(id => [id, (weights[id] * 100) / total])) as Record<ScoreFactorId, number>,
+    componentWeights: { ...DEFAULT_SCORING_MODEL.componentWeights, ...overrides.componentWeights },
+    gapWeights: { ...DEFAULT_SCORING_MODEL.gapWeights, ...overrides.gapWeights }
+  };
+};
+
+// "age=60,component=20": the weights of the named factors (the CLI's --weights)
+export const parseWeights = (value: string): Partial<Record<ScoreFactorId, number>> =>
+  Object.fromEntries(value.split(',').filter(part => part.trim()).map(part => {
+    const [id, weight] = part.split('=').map(s => s.trim());
+    if (!SCORE_FACTORS.includes(id as ScoreFactorId)) throw new Error(`Unknown score factor ${id} (expected ${SCORE_FACTORS.join(', ')})`);
+    if (!weight || isNaN(Number(weight))) throw new Error(`Invalid weight for ${id}: ${weight}`);
+    return [id, Number(weight)];
+  }));
+
+const loadConfiguredModel = (): ScoringModel => {
+  const json = process.env.SCORING_MODEL;
+  if (!json) return DEFAULT_SCORING_MODEL;
+  try {
+    return buildScoringModel(JSON.parse(json));
+  } catch (e) {
+    console.warn('Ignoring invalid SCORING_MODEL', e);
+    return DEFAULT_SCORING_MODEL;
+  }
+};
+
+let scoringModel: ScoringModel = loadConfiguredModel();
+let scoreCache = new WeakMap<MergePackage[], Map<string, ScoreBreakdown>>();
+
+export const getScoringModel = () => scoringModel;
+
+// Replaces the model (the CLI's --weights); throws on invalid weights
+export const setScoringModel = (overrides: ScoringModelOverrides) => {
+  scoringModel = buildScoringModel(overrides);
+  scoreCache = new WeakMap();
+};
+
+export type UploaderActivity = 'active' | 'inactive' | 'unknown';
+
+export interface ScoreFactor {
+  id: ScoreFactorId;
+  label: string;
+  value: number; // 0..1
+  points: number; // value * weight
+  weight: number;
+  detail: string;
+}
+
+export interface ScoreBreakdown {
+  score: number; // 0..100, rounded
+  factors: ScoreFactor[];
+}
+
+// Details only known once the package's changelog has been read (see PackageDetail)
+export interface ScoreExtras {
+  delta?: UbuntuDelta;
+}
+
+// Cheap merges first: no delta counts fully, a large one pulls the score down
+const deltaSize = (pkg: MergePackage, delta?: UbuntuDelta): number | undefined => {
+  if (delta) return delta.entries.reduce((n, e) => n + e.bullets.length, 0);
+  if (pkg.status === MergeStatus.SYNC_POSSIBLE) return 0;
+  return undefined;
+};
+
+// Per-list inputs shared by every package's score
+interface ScoringContext {
+  model: ScoringModel;
+  index: IdentityIndex;
+  roster: Set<UploaderIdentity>;
+  youngest: Map<UploaderIdentity, number>; // Age of each uploader's most recent pending merge
+}
+
+// Whose last upload is it, and are they still around?
+// - the newest Ubuntu upload in the changelog, when it has been read
+// - the configured roster
+// - otherwise: if every merge they are the last uploader of has been pending for longer than the window,
+//   their uploads are at least that old. A recent pending merge says nothing (the upload may still be old).
+const uploaderActivity = (
+  pkg: MergePackage,
+  { model, index, roster, youngest }: ScoringContext,
+  delta?: UbuntuDelta
+): { activity: UploaderActivity; reason: string } => {
+  const latest = delta?.entries[0];
+  const uploadedAt = latest ? Date.parse(latest.date) : NaN;
+  if (!isNaN(uploadedAt)) {
+    const days = Math.floor((Date.now() - uploadedAt) / 86400000);
+    return days <= model.activeWithinDays
+      ? { activity: 'active', reason: `last Ubuntu upload ${days}d ago` }
+      : { activity: 'inactive', reason: `last Ubuntu upload ${days}d ago` };
+  }
+
+  const identity = index.lookup(pkg.uploader);
+  if (!identity) return { activity: 'unknown', reason: 'uploader not known' };
+  if (roster.has(identity)) return { activity: 'active', reason: `${identity.name} is on the active list` };
+
+  if (youngest.get(identity)! > model.activeWithinDays) {
+    return { activity: 'inactive', reason: `all of ${identity.name}'s merges pending for over ${model.activeWithinDays}d` };
+  }
+  return { activity: 'unknown', reason: `no recent upload known for ${identity.name}` };
+};
+
+const ACTIVITY_VALUES: Record<UploaderActivity, number> = {
+  inactive: 1, // Nobody is going to pick it up
+  unknown: 0.5,
+  active: 0
+};
+
+const scoreWithContext = (pkg: MergePackage, context: ScoringContext, extras: ScoreExtras = {}): ScoreBreakdown => {
+  const { model } = context;
+  const size = deltaSize(pkg, extras.delta);
+  const { activity, reason } = uploaderActivity(pkg, context, extras.delta);
+
+  const values: { id: ScoreFactorId; label: string; value: number; detail: string }[] = [
+    {
+      id: 'age',
+      label: 'Age',
+      value: Math.min(pkg.ageInDays / model.ageCapDays, 1),
+      detail: `${pkg.ageInDays}d pending${pkg.ageInDays >= model.ageCapDays ? ` (capped at ${model.ageCapDays}d)` : ''}`
+    },
+    {
+      id: 'component',
+      label: 'Component',
+      value: model.componentWeights[pkg.component] ?? 0,
+      detail: pkg.component
+    },
+    {
+      id: 'gap',
+      label: 'Version Gap',
+      value: model.gapWeights[pkg.versionGap] ?? 0,
+      detail: pkg.versionGap
+    },
+    {
+      id: 'delta',
+      label: 'Ubuntu Delta',
+      value: size === undefined ? 0.5 : model.deltaScale / (model.deltaScale + size),
+      detail: size === undefined ? 'size not known yet' : `${size} change${size === 1 ? '' : 's'} to carry`
+    },
+    {
+      id: 'uploader',
+      label: 'Uploader',
+      value: ACTIVITY_VALUES[activity],
+      detail: `${activity === 'unknown' ? 'activity unknown' : activity}: ${reason}`
+    }
+  ];
+
+  const factors = values.map(f => ({ ...f, weight: model.weights[f.id], points: f.value * model.weights[f.id] }));
+  return { score: Math.round(factors.reduce((sum, f) => sum + f.points, 0)), factors };
+};
+
+const getContext = (data: MergePackage[]): ScoringContext => {
+  const index = getIdentityIndex(data);
+  const youngest = new Map<UploaderIdentity, number>();
+  data.forEach(pkg => {
+    const identity = index.lookup(pkg.uploader);
+    if (identity) youngest.set(identity, Math.min(youngest.get(identity) ?? Infinity, pkg.ageInDays));
+  });
+  const roster = new Set(scoringModel.activeUploaders.length > 0 ? resolveIdentity(scoringModel.activeUploaders, data) : []);
+  return { model: scoringModel, index, roster, youngest };
+};
+
+// Score of one package; `data` is the full list (uploader activity looks at the uploader's other merges)
+export const scorePackage = (pkg: MergePackage, data: MergePackage[], extras?: ScoreExtras): ScoreBreakdown =>
+  scoreWithContext(pkg, getContext(data), extras);
+
+// Scores of a whole list by package id, cached per list
+export const getScores = (data: MergePackage[]): Map<string, ScoreBreakdown> => {
+  let scores = scoreCache.get(data);
+  if (!scores) {
+    const context = getContext(data);
+    scores = new Map(data.map(pkg => [pkg.id, scoreWithContext(pkg, context)]));
+    scoreCache.set(data, scores);
+  }
+  return scores;
+};
+
+// Highest priority first
+export const getPriorityQueue = (data: MergePackage[], limit: number): MergePackage[] => {
+  const scores = getScores(data);
+  return [...data].sort((a, b) => scores.get(b.id)!.score - scores.get(a.id)!.score || b.ageInDays - a.ageInDays).slice(0, limit);
+};
@@ -0,0 +1,37 @@
+import { MergePackage, SnapshotDiff, VersionBump } from '../types';
+
+// Identity of a package across snapshots (ids contain a list index and are not stable)
+export const packageKey = (pkg: MergePackage) => `${pkg.component}/${pkg.name}`;
+
+const indexByKey = (packages: MergePackage[]) => {
+  const map = new Map<string, MergePackage>();
+  packages.forEach(pkg => map.set(packageKey(pkg), pkg));
+  return map;
+};
+
+// Compares two merge lists:
+// - added: newly appeared in `newer`
+// - resolved: dropped off the list (merged or synced)
+// - bumped: in both, but Debian uploaded a new version in between
+export const diffSnapshots = (older: MergePackage[], newer: MergePackage[]): SnapshotDiff => {
+  const olderByKey = indexByKey(older);
+  const newerByKey = indexByKey(newer);
+
+  const added: MergePackage[] = [];
+  const bumped: VersionBump[] = [];
+
+  newerByKey.forEach((pkg, key) => {
+    const previous = olderByKey.get(key);
+    if (!previous) {
+      added.push(pkg);
+    } else if (previous.debianVersion !== pkg.debianVersion) {
+      bumped.push({ pkg, previous });
+    }
+  });
+
+  const resolved = Array.from(olderByKey.entries())
+    .filter(([key]) => !newerByKey.has(key))
+    .map(([, pkg]) => pkg);
+
+  return { added, resolved, bumped };
+};
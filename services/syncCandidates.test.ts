@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseChangelog } from './changelogParser';
+import { analyzeDeltaAbsorption } from './syncCandidates';
+
+const entry = (version: string, ...changes: string[]) => `hello (${version}) unstable; urgency=medium
+
+${changes.map(change => `  * ${change}`).join('\n')}
+
+ -- Jane Doe <jane@example.com>  Mon, 01 Jan 2024 00:00:00 +0000
+`;
+
+const analyze = (ubuntu: string[], debian: string[]) =>
+  analyzeDeltaAbsorption(parseChangelog(ubuntu.join('\n')), parseChangelog(debian.join('\n')));
+
+describe('analyzeDeltaAbsorption', () => {
+  it('matches changes by Debian bug, Launchpad bug and CVE', () => {
+    const result = analyze(
+      [entry('2.10-3ubuntu1', 'Fix the locale fallback (Closes: #1001).', 'Handle empty names (LP: #2002).', 'SECURITY UPDATE: overflow in greet, CVE-2024-1234.')],
+      [entry('2.10-4', 'Fall back to C for unknown locales. Closes: #1001', 'Handle empty names, thanks Ubuntu (LP: #2002).', 'Fix CVE-2024-1234.')]
+    );
+    assert.deepEqual(result.changes.map(change => change.match?.kind), ['debian-bug', 'launchpad-bug', 'cve']);
+    assert.equal(result.verdict, 'candidate');
+  });
+
+  it('matches changes worded alike, whatever spelling of the path', () => {
+    const result = analyze(
+      [entry('2.10-3ubuntu1', 'd/p/fix-ftbfs-gcc14.patch: fix build failure with GCC 14.')],
+      [entry('2.10-4', 'debian/patches/fix-ftbfs-gcc14.patch: Fix build failure with GCC 14.')]
+    );
+    assert.equal(result.changes[0].match?.kind, 'text');
+    assert.equal(result.verdict, 'candidate');
+  });
+
+  it('does not match unrelated changes to the same file', () => {
+    const result = analyze(
+      [entry('2.10-3ubuntu1', 'debian/control: Update Maintainer field.')],
+      [entry('2.10-4', 'debian/control: Update Standards-Version.')]
+    );
+    assert.equal(result.changes[0].match, null);
+    assert.equal(result.verdict, 'carried');
+  });
+
+  it('tells partly absorbed deltas apart', () => {
+    const result = analyze(
+      [entry('2.10-3ubuntu1', 'Fix the locale fallback (Closes: #1001).', 'Keep the Ubuntu greeting.')],
+      [entry('2.10-4', 'Fall back to C for unknown locales. Closes: #1001')]
+    );
+    assert.equal(result.absorbed, 1);
+    assert.equal(result.verdict, 'partial');
+  });
+
+  it('counts a delta of no-change rebuilds as a candidate', () => {
+    assert.equal(analyze([entry('2.10-3build1', 'Rebuild against libfoo2.')], []).verdict, 'candidate');
+    assert.equal(analyze([entry('2.10-3ubuntu1', 'No-change rebuild for the Python 3.12 transition.')], []).verdict, 'candidate');
+  });
+
+  it('is unknown when no change could be read from the delta', () => {
+    assert.equal(analyze([], [entry('2.10-4', 'New upstream release.')]).verdict, 'unknown');
+    assert.equal(analyze([entry('2.10-3ubuntu1', 'Merge from Debian unstable. Remaining changes:')], []).verdict, 'unknown');
+  });
+});
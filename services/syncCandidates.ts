@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react';
+import { ChangelogEntry, MergePackage } from '../types';
+import { fetchChangelogEntries, fetchDebianChangelogEntries } from './api';
+import { deleteRecords, listKeys, readAllRecords, writeRecord } from './cache';
+import { selectEntriesBetween, splitUbuntuDelta } from './changelogParser';
+import { normalizeChangeText } from './changelogDiff';
+
+// Estimates whether Debian has absorbed the Ubuntu delta, i.e. whether the merge can become a sync.
+// Each change of the Ubuntu uploads since the base version is looked up in the Debian entries newer
+// than that base, by closed Debian bug, Launchpad bug, CVE ID and, failing those, by wording.
+
+export type AbsorptionMatchKind = 'debian-bug' | 'launchpad-bug' | 'cve' | 'text';
+
+export interface AbsorptionMatch {
+  kind: AbsorptionMatchKind;
+  debianVersion: string;
+  detail: string; // The shared bug/CVE ID, or the Debian bullet for text matches
+  similarity?: number; // Text matches, 0..1
+}
+
+export interface DeltaChangeAbsorption {
+  text: string;
+  ubuntuVersion: string; // Upload that carries the change
+  match: AbsorptionMatch | null;
+}
+
+//   candidate  every change has a Debian counterpart, or the delta is only no-change rebuilds: a sync is likely possible
+//   partial    some have
+//   carried    none have
+//   unknown    no change could be read from the delta (no Ubuntu upload found, unusual changelog wording)
+export type SyncVerdict = 'candidate' | 'partial' | 'carried' | 'unknown';
+
+export interface SyncAnalysis {
+  package: string;
+  ubuntuVersion: string;
+  debianVersion: string;
+  baseVersion: string | null;
+  changes: DeltaChangeAbsorption[];
+  absorbed: number;
+  verdict: SyncVerdict;
+  analyzedAt: string;
+}
+
+// Below this the wording of two changes is too different to call them the same
+const MIN_TEXT_SIMILARITY = 0.7;
+// Shorter changes ("Fix build") say too little to be matched on wording alone
+const MIN_TEXT_WORDS = 3;
+
+// Bullets that describe the upload rather than a change to carry
+const BOOKKEEPING_REGEX = /^(merge|merged|resync(ed)?|sync(ed)?) (from|with) debian|remaining changes|^no-change rebuild|^rebuild (for|against)|^new upstream (release|version)/i;
+// Headings whose sub-bullets are no longer in the package
+const DROPPED_REGEX = /^(dropped changes|drop(ped)?:|changes dropped)/i;
+// Uploads that only rebuild the Debian source
+const REBUILD_REGEX = /^(no-change|no change) rebuild|^rebuild (for|against)/i;
+const REBUILD_VERSION_REGEX = /build\d[\w.+~]*$/i;
+
+// "Closes: #123, #456" as in services/changelogParser.ts, plus "Debian bug #123" / "Debian #123" in prose
+const DEBIAN_BUG_REGEX = /closes:\s*(?:bug)?#?\s?\d+(?:,\s*(?:bug)?#?\s?\d+)*|debian\s+(?:bug\s*)?#\s?\d+/gi;
+const LP_REGEX = /lp:\s*#\d+(?:,\s*#\d+)*/gi;
+const CVE_REGEX = /CVE-\d{4}-\d{4,}/gi;
+
+const collectIds = (text: string, regex: RegExp) => (text.match(regex) || []).flatMap(ref => ref.match(/\d+/g) || []);
+const debianBugs = (text: string) => collectIds(text, DEBIAN_BUG_REGEX);
+const launchpadBugs = (text: string) => collectIds(text, LP_REGEX);
+const cves = (text: string) => (text.match(CVE_REGEX) || []).map(id => id.toUpperCase());
+
+// Files the change is about ("debian/control:", "d/p/foo.patch, d/rules:"). Unrelated changes to the same
+// file would look alike on these alone, so only the description is compared.
+const PATH_PREFIX_REGEX = /^[^\s:]*\/[^\s:]*(?:\s*,\s*[^\s:]*\/[^\s:]*)*\s*:\s*/;
+
+// Words that say nothing about what a change does
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'to', 'of', 'for', 'in', 'on', 'at', 'by', 'with', 'and', 'or', 'from', 'into', 'as',
+  'is', 'are', 'be', 'it', 'its', 'this', 'that', 'now', 'also', 'debian', 'd'
+]);
+
+// "d/p/foo.patch" and "debian/patches/foo.patch" are the same file
+const words = (text: string) =>
+  new Set(
+    normalizeChangeText(text.replace(PATH_PREFIX_REGEX, '').replace(/\bd\/p\//g, 'debian/patches/').replace(/\bd\//g, 'debian/'))
+      .split(' ')
+      .filter(word => word && !FILLER_WORDS.has(word))
+  );
+
+// Dice coefficient of the two word sets
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let common = 0;
+  a.forEach(word => { if (b.has(word)) common++; });
+  return (2 * common) / (a.size + b.size);
+};
+
+interface DeltaChange {
+  text: string;
+  ubuntuVersion: string;
+  details: string[]; // Sub-bullets ("- debian/patches/CVE-….patch: …" under "SECURITY UPDATE: …")
+}
+
+// The changes the Ubuntu uploads carry, each with its sub-bullets. Bookkeeping bullets and headings
+// ("Remaining changes:") leave their sub-bullets as changes of their own; "Dropped changes" lists are
+// left out, and repeats (remaining changes copied from merge to merge) counted once.
+const collectDeltaChanges = (delta: ChangelogEntry[]): DeltaChange[] => {
+  const seen = new Set<string>();
+  const changes: DeltaChange[] = [];
+  delta.forEach(entry => {
+    let group: { change: DeltaChange | null; level: number } | null = null;
+    entry.changes.forEach(change => {
+      if (group && change.level > group.level) {
+        group.change?.details.push(change.text);
+        return;
+      }
+      group = null;
+      if (DROPPED_REGEX.test(change.text)) {
+        group = { change: null, level: change.level };
+        return;
+      }
+      if (BOOKKEEPING_REGEX.test(change.text) || change.text.trim().endsWith(':')) return;
+      const key = normalizeChangeText(change.text);
+      if (!key) return;
+      const item: DeltaChange = { text: change.text, ubuntuVersion: entry.version, details: [] };
+      group = { change: item, level: change.level };
+      if (seen.has(key)) {
+        group.change = null; // Sub-bullets of a repeat are ignored too
+        return;
+      }
+      seen.add(key);
+      changes.push(item);
+    });
+  });
+  return changes;
+};
+
+interface DebianChange {
+  version: string;
+  text: string;
+  words: Set<string>;
+  debianBugs: string[]; // Closed by the whole entry: the bullet itself rarely says which
+  launchpadBugs: string[];
+  cves: string[];
+}
+
+const findMatch = (text: string, debian: DebianChange[]): AbsorptionMatch | null => {
+  const ids: [AbsorptionMatchKind, string[], (change: DebianChange) => string[]][] = [
+    ['debian-bug', debianBugs(text), change => change.debianBugs],
+    ['launchpad-bug', launchpadBugs(text), change => change.launchpadBugs],
+    ['cve', cves(text), change => change.cves]
+  ];
+  for (const [kind, wanted, available] of ids) {
+    for (const change of debian) {
+      const shared = wanted.find(id => available(change).includes(id));
+      if (shared) return { kind, debianVersion: change.version, detail: kind === 'cve' ? shared : `#${shared}` };
+    }
+  }
+
+  const own = words(text);
+  if (own.size < MIN_TEXT_WORDS) return null;
+  let best: AbsorptionMatch | null = null;
+  debian.forEach(change => {
+    const score = similarity(own, change.words);
+    if (score >= MIN_TEXT_SIMILARITY && score > (best?.similarity ?? 0)) {
+      best = { kind: 'text', debianVersion: change.version, detail: change.text, similarity: score };
+    }
+  });
+  return best;
+};
+
+// A "buildN" upload, or one whose only changes say it is a rebuild
+const isRebuild = (entry: ChangelogEntry) =>
+  REBUILD_VERSION_REGEX.test(entry.version) ||
+  (entry.changes.length > 0 && entry.changes.every(change => REBUILD_REGEX.test(change.text)));
+
+// `delta`: the Ubuntu uploads since the base version; `debianNewer`: the Debian entries after that base
+export const analyzeDeltaAbsorption = (delta: ChangelogEntry[], debianNewer: ChangelogEntry[]) => {
+  const debian: DebianChange[] = debianNewer.flatMap(entry => entry.changes.map(change => ({
+    version: entry.version,
+    text: change.text,
+    words: words(change.text),
+    debianBugs: entry.closes,
+    launchpadBugs: Array.from(new Set([...entry.launchpadBugs, ...launchpadBugs(change.text)])),
+    cves: cves(change.text)
+  })));
+
+  // A change is absorbed when it or one of its sub-bullets has a Debian counterpart
+  const changes: DeltaChangeAbsorption[] = collectDeltaChanges(delta).map(change => ({
+    text: change.text,
+    ubuntuVersion: change.ubuntuVersion,
+    match: [change.text, ...change.details].reduce<AbsorptionMatch | null>((found, text) => found ?? findMatch(text, debian), null)
+  }));
+  const absorbed = changes.filter(change => change.match).length;
+  let verdict: SyncVerdict;
+  if (changes.length === 0) {
+    // Nothing to carry is only known for sure when every Ubuntu upload is a no-change rebuild
+    verdict = delta.length > 0 && delta.every(isRebuild) ? 'candidate' : 'unknown';
+  } else {
+    verdict = absorbed === changes.length ? 'candidate' : absorbed > 0 ? 'partial' : 'carried';
+  }
+  return { changes, absorbed, verdict };
+};
+
+// --- Per package ---
+
+// Analyses are only valid for the versions they were made for
+export const getAnalysisKey = (pkg: MergePackage) => `${pkg.name}/${pkg.ubuntuVersion}/${pkg.debianVersion}`;
+
+export const analyzePackage = async (pkg: MergePackage): Promise<SyncAnalysis> => {
+  const [ubuntuEntries, debianEntries] = await Promise.all([fetchChangelogEntries(pkg), fetchDebianChangelogEntries(pkg)]);
+  const { delta, baseVersion } = splitUbuntuDelta(ubuntuEntries);
+  const result = analyzeDeltaAbsorption(delta, selectEntriesBetween(debianEntries, baseVersion, pkg.debianVersion));
+  return {
+    package: pkg.name,
+    ubuntuVersion: pkg.ubuntuVersion,
+    debianVersion: pkg.debianVersion,
+    baseVersion: baseVersion ?? null,
+    ...result,
+    analyzedAt: new Date().toISOString()
+  };
+};
+
+// Values of the `sync:` query term (services/filters.ts)
+export const getSyncTag = (analysis: SyncAnalysis | null | undefined): SyncVerdict =>
+  analysis ? analysis.verdict : 'unknown';
+
+// --- Shared state ---
+// Analyses are kept in IndexedDB (they need two changelogs each), so the Dashboard count grows
+// as packages are looked at and survives reloads.
+
+const STORE = 'syncAnalyses';
+const CHANGE_EVENT = 'merges:sync-analyses';
+
+// By getAnalysisKey(); null when the changelogs could not be read (retried on the next load)
+let current: Record<string, SyncAnalysis | null> = {};
+let restored: Promise<void> | null = null;
+const inflight = new Map<string, Promise<SyncAnalysis>>();
+
+const notify = () => {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+const restoreAnalyses = (): Promise<void> => {
+  if (!restored) {
+    restored = readAllRecords<SyncAnalysis>(STORE)
+      .then(records => {
+        records.forEach(record => {
+          const key = `${record.package}/${record.ubuntuVersion}/${record.debianVersion}`;
+          if (!(key in current)) current = { ...current, [key]: record };
+        });
+        notify();
+      })
+      .catch(e => console.warn('Failed to read stored sync analyses', e));
+  }
+  return restored;
+};
+
+export const fetchSyncAnalysis = async (pkg: MergePackage): Promise<SyncAnalysis> => {
+  await restoreAnalyses();
+  const key = getAnalysisKey(pkg);
+  const known = current[key];
+  if (known) return known;
+
+  let request = inflight.get(key);
+  if (!request) {
+    request = analyzePackage(pkg);
+    inflight.set(key, request);
+  }
+  try {
+    const analysis = await request;
+    current = { ...current, [key]: analysis };
+    notify();
+    writeRecord(STORE, key, analysis).catch(e => console.warn('Failed to store the sync analysis', e));
+    return analysis;
+  } finally {
+    inflight.delete(key);
+  }
+};
+
+// Several packages, two at a time (each reads two changelogs); stops early once `isCancelled` says so
+export const loadSyncAnalyses = async (
+  pkgs: MergePackage[],
+  concurrency: number = 2,
+  isCancelled: () => boolean = () => false
+): Promise<Record<string, SyncAnalysis | null>> => {
+  await restoreAnalyses();
+  const queue = pkgs.filter(pkg => !current[getAnalysisKey(pkg)]);
+  const worker = async () => {
+    for (let pkg = queue.shift(); pkg !== undefined && !isCancelled(); pkg = queue.shift()) {
+      try {
+        await fetchSyncAnalysis(pkg);
+      } catch (e) {
+        console.warn(`Failed to analyze the delta of ${pkg.name}`, e);
+        current = { ...current, [getAnalysisKey(pkg)]: null };
+        notify();
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return current;
+};
+
+// Drops the analyses made for versions no package has any more (called with each fresh package list)
+export const pruneSyncAnalyses = async (pkgs: MergePackage[]): Promise<void> => {
+  const keep = new Set(pkgs.map(getAnalysisKey));
+  await restoreAnalyses();
+  const stale = Object.keys(current).filter(key => !keep.has(key));
+  if (stale.length > 0) {
+    current = Object.fromEntries(Object.entries(current).filter(([key]) => keep.has(key)));
+    notify();
+  }
+  const stored = (await listKeys(STORE)).filter(key => !keep.has(key));
+  if (stored.length > 0) await deleteRecords(STORE, stored);
+};
+
+// Every analysis known so far (stored ones included); the given packages are analyzed when `enabled`
+export const useSyncAnalyses = (pkgs: MergePackage[], enabled: boolean): Record<string, SyncAnalysis | null> => {
+  const [analyses, setAnalyses] = useState(current);
+
+  useEffect(() => {
+    const update = () => setAnalyses(current);
+    window.addEventListener(CHANGE_EVENT, update);
+    restoreAnalyses();
+    return () => window.removeEventListener(CHANGE_EVENT, update);
+  }, []);
+
+  const key = enabled ? pkgs.map(getAnalysisKey).join('\n') : '';
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    loadSyncAnalyses(pkgs, 2, () => cancelled);
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return analyses;
+};
@@ -0,0 +1,51 @@
+import { MergePackage, PackageSet } from '../types';
+import { AGE_BUCKETS, AgeBucket } from './filters';
+import { median } from './history';
+
+// Aggregates behind the team workload page
+
+export interface TeamSummary {
+  team: string;
+  pending: number;
+  medianAgeInDays: number;
+  ageDebt: number; // Sum of the pending packages' ages, in days
+  overSixMonths: number;
+}
+
+export const getTeamPackages = (data: MergePackage[], team: string) =>
+  data.filter(pkg => pkg.teams.includes(team));
+
+const summarize = (team: string, packages: MergePackage[]): TeamSummary => ({
+  team,
+  pending: packages.length,
+  medianAgeInDays: median(packages.map(p => p.ageInDays)),
+  ageDebt: packages.reduce((sum, p) => sum + p.ageInDays, 0),
+  overSixMonths: packages.filter(p => p.ageInDays > 180).length
+});
+
+// Every team, largest backlog first
+export const summarizeTeams = (data: MergePackage[]): TeamSummary[] => {
+  const byTeam = new Map<string, MergePackage[]>();
+  data.forEach(pkg => pkg.teams.forEach(team => {
+    if (!byTeam.has(team)) byTeam.set(team, []);
+    byTeam.get(team)!.push(pkg);
+  }));
+  return Array.from(byTeam.entries())
+    .map(([team, packages]) => summarize(team, packages))
+    .sort((a, b) => b.pending - a.pending || b.ageDebt - a.ageDebt);
+};
+
+// Pending counts per component (rows) and age bucket (columns)
+export type WorkloadMatrix = Record<PackageSet, Record<AgeBucket, number>>;
+
+export const getWorkloadMatrix = (packages: MergePackage[]): WorkloadMatrix => {
+  const matrix = {} as WorkloadMatrix;
+  Object.values(PackageSet).forEach(component => {
+    matrix[component] = { lt1w: 0, '1to4w': 0, '1to6m': 0, gt6m: 0 };
+  });
+  packages.forEach(pkg => {
+    const bucket = AGE_BUCKETS.find(b => b.matches(pkg.ageInDays));
+    if (bucket && matrix[pkg.component]) matrix[pkg.component][bucket.id]++;
+  });
+  return matrix;
+};
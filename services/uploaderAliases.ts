@@ -0,0 +1,49 @@
+// Mapping rules for uploaders that the automatic folding (same email, same name) cannot join,
+// e.g. someone who uploads with a personal and a work address under different spellings of their name.
+//
+// Each alias is an email ("jane@example.com"), a name ("J. Doe") or a /regex/ tested against the raw
+// "Name <email>" string. Everything matching a rule is folded into one person shown as `name`.
+//
+//   { name: 'Jane Doe', aliases: ['jane@ubuntu.com', 'jdoe@example.com', /^J\.? Doe\b/] }
+//
+// The rules come from UPLOADER_ALIASES (injected by vite.config.ts) or the CLI's --aliases file, as JSON
+// with regexes written as "/…/flags" strings:
+//
+//   [{ "name": "Jane Doe", "aliases": ["jane@ubuntu.com", "jdoe@example.com", "/^J\\.? Doe\\b/"] }]
+
+export interface AliasRule {
+  name: string;
+  aliases: (string | RegExp)[];
+}
+
+const REGEX_ALIAS = /^\/(.+)\/([a-z]*)$/;
+
+const parseAlias = (alias: string): string | RegExp => {
+  const match = alias.match(REGEX_ALIAS);
+  return match ? new RegExp(match[1], match[2]) : alias;
+};
+
+// Invalid JSON throws; rules without a name or aliases are skipped
+export const parseAliasRules = (json: string): AliasRule[] => {
+  const raw = JSON.parse(json);
+  if (!Array.isArray(raw)) throw new Error('Uploader aliases must be a JSON array of { name, aliases } rules');
+  return raw
+    .filter(rule => rule && typeof rule.name === 'string' && rule.name.trim() && Array.isArray(rule.aliases))
+    .map(rule => ({
+      name: rule.name.trim(),
+      aliases: rule.aliases.filter((alias: unknown): alias is string => typeof alias === 'string' && !!alias.trim()).map(parseAlias)
+    }));
+};
+
+const loadConfiguredRules = (): AliasRule[] => {
+  const json = process.env.UPLOADER_ALIASES;
+  if (!json) return [];
+  try {
+    return parseAliasRules(json);
+  } catch (e) {
+    console.warn('Ignoring invalid UPLOADER_ALIASES', e);
+    return [];
+  }
+};
+
+export const UPLOADER_ALIAS_RULES: AliasRule[] = loadConfiguredRules();
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MergePackage, MergeStatus, PackageSet, VersionGap } from '../types';
+import { buildIdentityIndex, filterMyMerges } from './uploaders';
+import { parseAliasRules } from './uploaderAliases';
+
+const names = (raws: string[], rules = []) =>
+  buildIdentityIndex(raws, rules).identities.map(identity => identity.aliases.sort()).sort();
+
+describe('buildIdentityIndex', () => {
+  it('joins the strings sharing an email, whatever the spelling', () => {
+    assert.deepEqual(names(['Jane Doe <jane@example.com>', 'J. Doe <Jane@Example.com>']), [
+      ['J. Doe <Jane@Example.com>', 'Jane Doe <jane@example.com>']
+    ]);
+  });
+
+  it('keeps different people sharing a name apart', () => {
+    assert.deepEqual(names(['John Smith <john@a.example>', 'John Smith <jsmith@b.example>']), [
+      ['John Smith <john@a.example>'],
+      ['John Smith <jsmith@b.example>']
+    ]);
+  });
+
+  it('joins names through an alias rule, under the rule name', () => {
+    const index = buildIdentityIndex(['Jane Doe <jane@ubuntu.com>', 'J. Doe <jdoe@example.com>'], [
+      { name: 'Jane Doe', aliases: ['jane@ubuntu.com', /^J\. Doe\b/] }
+    ]);
+    assert.equal(index.identities.length, 1);
+    assert.equal(index.lookup('J. Doe <jdoe@example.com>')?.name, 'Jane Doe');
+  });
+});
+
+describe('filterMyMerges', () => {
+  const pkg = (name: string, uploader: string): MergePackage => ({
+    id: name,
+    name,
+    ubuntuVersion: '1.0-1ubuntu1',
+    debianVersion: '1.0-2',
+    component: PackageSet.MAIN,
+    teams: [],
+    age: '1d',
+    ageInDays: 1,
+    uploader,
+    versionGap: VersionGap.DEBIAN_REVISION,
+    status: MergeStatus.NEEDS_MERGE
+  });
+  const data = [pkg('a', 'John Smith <john@a.example>'), pkg('b', 'John Smith <jsmith@b.example>'), pkg('c', 'John Smith')];
+
+  it('matches on email when the user gives one', () => {
+    assert.deepEqual(filterMyMerges(data, ['john@a.example', 'John Smith']).map(p => p.name), ['a', 'c']);
+  });
+
+  it('falls back to names without an email', () => {
+    assert.deepEqual(filterMyMerges(data, ['John Smith']).map(p => p.name), ['a', 'b', 'c']);
+  });
+});
+
+describe('parseAliasRules', () => {
+  it('reads names, emails and /regex/ aliases', () => {
+    assert.deepEqual(parseAliasRules('[{"name": "Jane Doe", "aliases": ["jane@ubuntu.com", "/^J\\\\.? Doe\\\\b/i"]}]'), [
+      { name: 'Jane Doe', aliases: ['jane@ubuntu.com', /^J\.? Doe\b/i] }
+    ]);
+  });
+
+  it('skips incomplete rules and rejects anything but an array', () => {
+    assert.deepEqual(parseAliasRules('[{"aliases": ["x"]}, {"name": "A", "aliases": ["", 3, "a@b.c"]}]'), [{ name: 'A', aliases: ['a@b.c'] }]);
+    assert.throws(() => parseAliasRules('{"name": "A"}'));
+  });
+});
@@ -0,0 +1,187 @@
+import { MergePackage } from '../types';
+import { AliasRule, UPLOADER_ALIAS_RULES } from './uploaderAliases';
+
+// Uploader strings come from the changelog trailer: "First Last <email>".
+// The same person shows up under several spellings and addresses, so they are folded into identities:
+// strings sharing an email belong to the same person, and the mapping rules in services/uploaderAliases.ts
+// join the rest. Names alone never join two strings, since different people can share one.
+
+export interface Uploader {
+  name: string;
+  email: string | null;
+}
+
+export const parseUploader = (raw: string): Uploader => {
+  if (!raw || raw === 'Unknown') return { name: 'Unknown', email: null };
+  const parts = raw.split('<');
+  const name = parts[0].trim();
+  const email = parts[1] ? parts[1].replace('>', '').trim() : null;
+  return { name, email };
+};
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// "José  García" and "jose garcia" are the same name
+export const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const isEmail = (value: string) => /^[^\s@<>]+@[^\s@<>]+$/.test(value.trim());
+
+// --- Identity resolution ---
+
+export interface UploaderIdentity {
+  name: string; // Display name: the rule's name, else the most used spelling
+  names: string[]; // Every spelling seen
+  emails: string[]; // Normalized
+  aliases: string[]; // Raw uploader strings folded into this identity
+}
+
+export interface IdentityIndex {
+  identities: UploaderIdentity[];
+  lookup: (raw: string) => UploaderIdentity | undefined;
+}
+
+let aliasRules: AliasRule[] = UPLOADER_ALIAS_RULES;
+let indexCache = new WeakMap<MergePackage[], IdentityIndex>();
+
+export const getAliasRules = () => aliasRules;
+
+// Overrides the configured mapping rules (the CLI's --aliases file)
+export const setAliasRules = (rules: AliasRule[]) => {
+  aliasRules = rules;
+  indexCache = new WeakMap();
+};
+
+const matchesAlias = (alias: string | RegExp, raw: string, uploader: Uploader) => {
+  if (alias instanceof RegExp) return alias.test(raw);
+  if (isEmail(alias)) return !!uploader.email && normalizeEmail(uploader.email) === normalizeEmail(alias);
+  return normalizeName(uploader.name) === normalizeName(alias);
+};
+
+// Folds raw uploader strings (duplicates count towards the display name) into identities
+export const buildIdentityIndex = (rawUploaders: string[], rules: AliasRule[] = aliasRules): IdentityIndex => {
+  const counts = new Map<string, number>();
+  rawUploaders.forEach(raw => {
+    if (raw && raw !== 'Unknown') counts.set(raw, (counts.get(raw) || 0) + 1);
+  });
+  const raws = Array.from(counts.keys());
+
+  // Union-find over raw strings, joined through shared email and rule keys
+  const parent = raws.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const owner = new Map<string, number>();
+  const join = (key: string, i: number) => {
+    const other = owner.get(key);
+    if (other === undefined) owner.set(key, i);
+    else parent[find(i)] = find(other);
+  };
+
+  const parsed = raws.map(raw => parseUploader(raw));
+  const ruleOf = new Map<number, AliasRule>();
+  raws.forEach((raw, i) => {
+    const { email } = parsed[i];
+    if (email) join(`email:${normalizeEmail(email)}`, i);
+    rules.forEach((rule, r) => {
+      if (rule.aliases.some(alias => matchesAlias(alias, raw, parsed[i]))) {
+        join(`rule:${r}`, i);
+        ruleOf.set(i, rule);
+      }
+    });
+  });
+
+  const groups = new Map<number, number[]>();
+  raws.forEach((_, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(i);
+  });
+
+  const byRaw = new Map<string, UploaderIdentity>();
+  const identities = Array.from(groups.values()).map(members => {
+    const spellings = new Map<string, number>();
+    members.forEach(i => spellings.set(parsed[i].name, (spellings.get(parsed[i].name) || 0) + counts.get(raws[i])!));
+    const mostUsed = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    const rule = members.map(i => ruleOf.get(i)).find(Boolean);
+
+    const identity: UploaderIdentity = {
+      name: rule ? rule.name : mostUsed,
+      names: Array.from(spellings.keys()),
+      emails: Array.from(new Set(members.map(i => parsed[i].email).filter((e): e is string => !!e).map(normalizeEmail))),
+      aliases: members.map(i => raws[i])
+    };
+    identity.aliases.forEach(raw => byRaw.set(raw, identity));
+    return identity;
+  });
+
+  return { identities, lookup: (raw: string) => byRaw.get(raw) };
+};
+
+// Index of the uploaders of a package list, cached per list
+export const getIdentityIndex = (data: MergePackage[]): IdentityIndex => {
+  let index = indexCache.get(data);
+  if (!index) {
+    index = buildIdentityIndex(data.map(pkg => pkg.uploader));
+    indexCache.set(data, index);
+  }
+  return index;
+};
+
+// Display name of an uploader string, folded onto its identity
+export const getUploaderDisplayName = (index: IdentityIndex, raw: string) =>
+  index.lookup(raw)?.name ?? parseUploader(raw).name;
+
+// --- My Merges ---
+
+// Identities matching the user's emails. Names only pick identities that have no email to tell them
+// apart, unless the user gave no email at all.
+export const resolveIdentity = (identity: string[], data: MergePackage[]): UploaderIdentity[] => {
+  const emails = new Set(identity.filter(isEmail).map(normalizeEmail));
+  const names = new Set(identity.filter(entry => !isEmail(entry)).map(normalizeName).filter(Boolean));
+  const matchesName = (candidate: UploaderIdentity) =>
+    candidate.names.some(name => names.has(normalizeName(name))) || names.has(normalizeName(candidate.name));
+
+  return getIdentityIndex(data).identities.filter(candidate =>
+    candidate.emails.some(email => emails.has(email)) ||
+    ((emails.size === 0 || candidate.emails.length === 0) && matchesName(candidate))
+  );
+};
+
+// Packages whose last upload was made by the user
+export const filterMyMerges = (data: MergePackage[], identity: string[]): MergePackage[] => {
+  if (identity.length === 0) return [];
+  const mine = new Set(resolveIdentity(identity, data));
+  const index = getIdentityIndex(data);
+  return data.filter(pkg => {
+    const uploader = index.lookup(pkg.uploader);
+    return !!uploader && mine.has(uploader);
+  });
+};
+
+// --- Leaderboard ---
+
+export interface UploaderStats {
+  identity: UploaderIdentity;
+  pending: number;
+  oldest: MergePackage;
+  ageDebt: number; // Sum of the pending packages' ages, in days
+}
+
+export const summarizeUploaders = (data: MergePackage[]): UploaderStats[] => {
+  const index = getIdentityIndex(data);
+  const stats = new Map<UploaderIdentity, UploaderStats>();
+
+  data.forEach(pkg => {
+    const identity = index.lookup(pkg.uploader);
+    if (!identity) return;
+    const entry = stats.get(identity);
+    if (!entry) {
+      stats.set(identity, { identity, pending: 1, oldest: pkg, ageDebt: pkg.ageInDays });
+    } else {
+      entry.pending++;
+      entry.ageDebt += pkg.ageInDays;
+      if (pkg.ageInDays > entry.oldest.ageInDays) entry.oldest = pkg;
+    }
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.ageDebt - a.ageDebt || b.pending - a.pending);
+};
@@ -0,0 +1,70 @@
+// Upstream URL layout of the Ubuntu and Debian archive services.
+// Shared by the browser client (services/api.ts) and the relay server (server/index.ts).
+
+// Base URL of the merge reports. Can point at a self-hosted mirror.
+export const MERGES_BASE_URL = (process.env.MERGES_BASE_URL || 'https://merges.ubuntu.com').replace(/\/+$/, '');
+
+export const MERGE_COMPONENTS = ['main', 'universe', 'restricted', 'multiverse'] as const;
+export type MergeComponent = typeof MERGE_COMPONENTS[number];
+
+export const isMergeComponent = (value: string): value is MergeComponent =>
+  (MERGE_COMPONENTS as readonly string[]).includes(value);
+
+export const getMergeReportUrl = (component: MergeComponent) => `${MERGES_BASE_URL}/${component}.json`;
+
+// Pool prefix used by the archive layout: "libfoo" -> "libf", "bash" -> "b"
+export const getPoolPrefix = (name: string) => name.startsWith('lib') ? name.substring(0, 4) : name.substring(0, 1);
+
+// Per-package pages linked from the UI and from exports
+export const getPackageReportUrl = (name: string) => `${MERGES_BASE_URL}/${getPoolPrefix(name)}/${name}/REPORT`;
+export const getLaunchpadSourceUrl = (name: string) => `https://launchpad.net/ubuntu/+source/${name}`;
+export const getDebianTrackerUrl = (name: string) => `https://tracker.debian.org/pkg/${name}`;
+
+// Launchpad REST API (services/launchpad.ts)
+export const LAUNCHPAD_API_URL = 'https://api.launchpad.net/devel';
+
+// Debian metadata (services/debian.ts): versions per suite from ftp-master's madison, RC bugs from UDD
+export const getMadisonUrl = (names: string[]) =>
+  `https://api.ftp-master.debian.org/madison?package=${encodeURIComponent(names.join(' '))}&s=unstable,testing,experimental&f=json`;
+export const DEBIAN_RC_BUGS_URL = 'https://udd.debian.org/bugs/?release=sid&merged=ign&rc=1&format=json';
+export const getDebianBugUrl = (id: number) => `https://bugs.debian.org/${id}`;
+
+// Strips the epoch (e.g. 1:2.3 -> 2.3)
+export const stripEpoch = (version: string) => version.includes(':') ? version.split(':').pop()! : version;
+
+// Candidate URLs for an Ubuntu changelog, most likely first.
+// Format: https://changelogs.ubuntu.com/changelogs/pool/{component}/{prefix}/{package}/{package}_{version}/changelog
+export const getUbuntuChangelogUrls = (component: string, name: string, version: string): string[] => {
+  const poolBase = `https://changelogs.ubuntu.com/changelogs/pool/${component.toLowerCase()}/${getPoolPrefix(name)}/${name}`;
+
+  // Candidate versions to try for the URL construction
+  const candidates = [
+    version,
+    version.replace(/:/g, '%3a'),
+    version.includes(':') ? stripEpoch(version) : undefined
+  ].filter(Boolean) as string[];
+
+  // Remove duplicates
+  return Array.from(new Set(candidates)).map(candVersion => `${poolBase}/${name}_${candVersion}/changelog`);
+};
+
+// Candidate URLs for a Debian changelog: metadata.ftp-master.debian.org first (more reliable for special chars),
+// then tracker.debian.org as a fallback.
+export const getDebianChangelogUrls = (name: string, version: string): string[] => {
+  const prefix = getPoolPrefix(name);
+  const cleanVersion = stripEpoch(version);
+
+  // Components to try on ftp-master
+  // Format: https://metadata.ftp-master.debian.org/changelogs/{component}/{prefix}/{package}/{package}_{version}_changelog
+  const ftpMaster = ['main', 'contrib', 'non-free'].map(comp =>
+    `https://metadata.ftp-master.debian.org/changelogs/${comp}/${prefix}/${name}/${name}_${cleanVersion}_changelog`
+  );
+
+  return [...ftpMaster, `https://tracker.debian.org/media/packages/${prefix}/${name}/changelog-${cleanVersion}`];
+};
+
+// Helper to check if text looks like a valid changelog (not HTML 404)
+export const isValidChangelog = (text: string) => {
+  const trimmed = text.trim().toLowerCase();
+  return !trimmed.startsWith('<!doctype') && !trimmed.startsWith('<html') && trimmed.length > 50;
+};
@@ -6,6 +6,15 @@ export enum PackageSet {
   MULTIVERSE = 'Multiverse'
 }
 
+// Merge status reported by merges.ubuntu.com, normalized from its free-form status strings
+export enum MergeStatus {
+  NEEDS_MERGE = 'Needs Merge',
+  SYNC_POSSIBLE = 'Sync Possible',
+  CONFLICTS = 'Conflicts',
+  FAILED = 'Failed',
+  UNKNOWN = 'Unknown'
+}
+
 // Raw data shape from merges.ubuntu.com json (supporting various key formats)
 export interface RawPackageData {
   // Potential keys for package name
@@ -44,5 +53,87 @@ export interface MergePackage {
   age: string;
   ageInDays: number;
   uploader: string;
+  versionGap: VersionGap;
+  status: MergeStatus;
+  statusText?: string; // Upstream status string, as reported
   lastUpdated?: string;
 }
+
+// The fields of a package the trend charts and the Changes view read; the rest is derived on load
+export type SnapshotPackage = Pick<MergePackage, 'name' | 'ubuntuVersion' | 'debianVersion' | 'component' | 'teams' | 'age' | 'ageInDays' | 'uploader' | 'status'>;
+
+// Point-in-time copy of the normalized merge list, recorded on every successful fetch
+export interface MergeSnapshot {
+  takenAt: string;
+  packages: SnapshotPackage[];
+}
+
+// Aggregates of a snapshot, stored separately so trend charts don't load every package list
+export interface SnapshotSummary {
+  takenAt: string;
+  total: number;
+  byComponent: Record<PackageSet, number>;
+  byTeam: Record<string, number>;
+  medianAgeInDays: number;
+}
+
+// A package present in both snapshots whose Debian version moved (Debian uploaded again)
+export interface VersionBump {
+  pkg: MergePackage;
+  previous: MergePackage;
+}
+
+// Differences between two snapshots, keyed by component + package name
+export interface SnapshotDiff {
+  added: MergePackage[];
+  resolved: MergePackage[];
+  bumped: VersionBump[];
+}
+
+// How the Debian version differs from the Ubuntu one
+export enum VersionGap {
+  UPSTREAM_BUMP = 'Upstream Bump',
+  DEBIAN_REVISION = 'Debian Revision',
+  EPOCH_CHANGE = 'Epoch Change',
+  UBUNTU_AHEAD = 'Ubuntu Ahead',
+  UNKNOWN = 'Unknown'
+}
+
+// One Ubuntu upload carried on top of the Debian base
+export interface DeltaBullet {
+  text: string;
+  droppable: boolean; // Mentions a drop/upstream/Debian fix, hinting the change may no longer be needed
+}
+
+export interface DeltaEntry {
+  version: string;
+  author: string;
+  date: string;
+  bullets: DeltaBullet[];
+}
+
+export interface UbuntuDelta {
+  baseVersion?: string; // Last Debian-origin version in the Ubuntu changelog
+  entries: DeltaEntry[]; // Newest first
+}
+
+// A change line of a changelog entry ("  * foo" is level 0, "    - bar" level 1, ...)
+export interface ChangelogChange {
+  text: string;
+  level: number;
+  author?: string; // From a "[ Name ]" attribution block in team uploads
+}
+
+// One entry (upload) of a debian/changelog file
+export interface ChangelogEntry {
+  source: string;
+  version: string;
+  distributions: string[];
+  urgency: string;
+  changes: ChangelogChange[];
+  closes: string[]; // Debian bugs closed ("Closes: #nnn")
+  launchpadBugs: string[]; // Launchpad bugs referenced ("LP: #nnn")
+  maintainer: string;
+  date: string;
+  raw: string; // Original text of the entry
+}
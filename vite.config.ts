@@ -1,18 +1,50 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves ./fixtures under /fixtures for DATA_SOURCE=local during development only, so the
+// recorded data never ends up in a production build (unlike public/)
+const serveFixtures = (): Plugin => ({
+  name: 'serve-fixtures',
+  apply: 'serve',
+  configureServer(server) {
+    const root = path.resolve(__dirname, 'fixtures');
+    server.middlewares.use('/fixtures', (req, res, next) => {
+      const file = path.join(root, decodeURIComponent((req.url || '/').split('?')[0]));
+      if (!file.startsWith(root + path.sep) || !fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+      if (file.endsWith('.json')) res.setHeader('Content-Type', 'application/json');
+      fs.createReadStream(file).pipe(res);
+    });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Forward /api to a running relay server (npm run serve) during development
+        proxy: env.RELAY_DEV_TARGET ? { '/api': env.RELAY_DEV_TARGET } : undefined,
       },
-      plugins: [react()],
+      plugins: [react(), serveFixtures()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_SOURCE': JSON.stringify(env.DATA_SOURCE || ''),
+        'process.env.DATA_SOURCE_URL': JSON.stringify(env.DATA_SOURCE_URL || ''),
+        'process.env.MERGES_BASE_URL': JSON.stringify(env.MERGES_BASE_URL || ''),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL ?? '/api'),
+        'process.env.CLAIMS_STORE': JSON.stringify(env.CLAIMS_STORE || ''),
+        'process.env.CLAIMS_URL': JSON.stringify(env.CLAIMS_URL || ''),
+        'process.env.CLAIMS_TOKEN': JSON.stringify(env.CLAIMS_TOKEN || ''),
+        'process.env.LAUNCHPAD_SOURCE': JSON.stringify(env.LAUNCHPAD_SOURCE || ''),
+        'process.env.LAUNCHPAD_SOURCE_URL': JSON.stringify(env.LAUNCHPAD_SOURCE_URL || ''),
+        'process.env.DEBIAN_SOURCE': JSON.stringify(env.DEBIAN_SOURCE || ''),
+        'process.env.DEBIAN_SOURCE_URL': JSON.stringify(env.DEBIAN_SOURCE_URL || ''),
+        'process.env.UPLOADER_ALIASES': JSON.stringify(env.UPLOADER_ALIASES || ''),
+        'process.env.SCORING_MODEL': JSON.stringify(env.SCORING_MODEL || '')
       },
       resolve: {
         alias: {